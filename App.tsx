@@ -1,22 +1,81 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   AppStep, 
   DataRow, 
   ColumnStat, 
   CleaningOptions, 
+  CleaningResult,
+  DerivedColumn,
+  ColumnCleaning,
+  ImputationStrategy,
+  OutlierOptions,
   ModelConfig, 
-  ModelMetrics 
+  ModelMetrics,
+  Algorithm,
+  Hyperparameters,
+  RejectedRow,
+  CategoricalEncoding,
+  TaskType,
+  ValidationConfig,
+  PreprocessingConfig,
+  FeatureScaling,
+  TargetTransform,
+  AutoMLOptions,
+  LeaderboardEntry,
+  TrainingProgress,
+  LossPoint,
+  PreflightFix,
+  PreflightWarning,
+  ModelArtifact,
+  Experiment,
+  AdvisorTip,
+  ChatMessage,
+  LLMSettings,
+  AdvisorPrompt
 } from './types';
-import { parseCSV, analyzeColumns, cleanData, trainModel } from './utils/dataUtils';
-import { generateMLTips } from './services/geminiService';
-import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer,
-  ScatterChart, Scatter, LineChart, Line
-} from 'recharts';
+import { suggestTaskType } from './utils/dataUtils';
+import { analyzeColumns, correlationMatrix } from './utils/profiling';
+import { cleanData, defaultColumnCleaning, defaultImputation, imputationMethodsFor, IMPUTATION_LABELS } from './utils/cleaning';
+import { defaultOutlierOptions } from './utils/outliers';
+import { runPreflightChecks } from './utils/preflight';
+import { applyDerivedColumns } from './utils/featureEngineering';
+import { parseCSV } from './utils/csv';
+import { downloadFile } from './utils/download';
+import { artifactFileName, buildModelArtifact } from './utils/modelArtifact';
+import { createExperiment, datasetFingerprint } from './utils/experiments';
+import { DEFAULT_HYPERPARAMETERS } from './utils/models';
+import { defaultEncoding } from './utils/encoding';
+import { defaultPreprocessing, SCALING_LABELS, TARGET_TRANSFORM_LABELS, targetTransformAllowed } from './utils/preprocessing';
+import ClassificationResults from './components/ClassificationResults';
+import RegressionResults from './components/RegressionResults';
+import CrossValidationTable from './components/CrossValidationTable';
+import CoefficientTable from './components/CoefficientTable';
+import OutlierSettings from './components/OutlierSettings';
+import CleaningReport from './components/CleaningReport';
+import DataProfile from './components/DataProfile';
+import FeatureEngineering from './components/FeatureEngineering';
+import FeatureExplanations from './components/FeatureExplanations';
+import Leaderboard from './components/Leaderboard';
+import TrainingProgressPanel from './components/TrainingProgressPanel';
+import PreflightChecks from './components/PreflightChecks';
+import PredictMode from './components/PredictMode';
+import WhatIfPanel from './components/WhatIfPanel';
+import ExperimentHistory from './components/ExperimentHistory';
+import AdvisorTips from './components/AdvisorTips';
+import AdvisorChat from './components/AdvisorChat';
+import AdvisorSettingsPanel from './components/AdvisorSettingsPanel';
+import PromptPreview from './components/PromptPreview';
+import { bestEntry, buildCandidates, rankingMetric } from './utils/automl';
+import { AdvisorContext, AdvisorSettings, applyAdvisorAction } from './utils/advisor';
+import { buildChatPrompt, buildTipsPrompt } from './utils/advisorPrompt';
+import { trainInWorker, runAutoMLInWorker, TrainingCancelledError, TrainingHandle } from './services/trainingService';
+import { ADVISOR_PROVIDERS, generateMLTips, loadLLMSettings, saveLLMSettings, streamAdvisorReply } from './services/advisorService';
+import { clearExperiments, deleteExperiment, listExperiments, saveExperiment } from './services/experimentStore';
 
 // --- Icons ---
 const UploadIcon = () => <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" /></svg>;
 const CleanIcon = () => <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" /></svg>;
+const FormulaIcon = () => <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>;
 const SettingsIcon = () => <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>;
 const ModelIcon = () => <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" /></svg>;
 const BrainIcon = () => <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>;
@@ -25,37 +84,113 @@ const CheckCircle = () => <svg className="w-6 h-6 text-green-500" fill="none" st
 const STEPS = [
   { id: AppStep.UPLOAD, label: 'Upload Data', icon: UploadIcon },
   { id: AppStep.CLEANING, label: 'Data Cleaning', icon: CleanIcon },
+  { id: AppStep.FEATURE_ENGINEERING, label: 'Feature Engineering', icon: FormulaIcon },
   { id: AppStep.CONFIGURATION, label: 'Feature Config', icon: SettingsIcon },
   { id: AppStep.MODEL_SELECTION, label: 'Train Model', icon: ModelIcon },
   { id: AppStep.RESULTS, label: 'Evaluation', icon: BrainIcon },
 ];
 
+const ALGORITHMS: { id: Algorithm; name: string; desc: string; tasks: TaskType[] }[] = [
+  { id: 'linear_regression', name: 'Linear Regression', desc: 'Best for simple relationships. Exact fit with coefficient p-values.', tasks: ['regression'] },
+  { id: 'ridge', name: 'Ridge Regression', desc: 'Linear regression with regularization to prevent overfitting.', tasks: ['regression'] },
+  { id: 'logistic_regression', name: 'Logistic Regression', desc: 'Linear model of class probabilities. Fast and interpretable.', tasks: ['classification'] },
+  { id: 'decision_tree', name: 'Decision Tree', desc: 'Learns if/else splits on features. Captures non-linear effects.', tasks: ['regression', 'classification'] },
+  { id: 'random_forest', name: 'Random Forest', desc: 'Ensemble learning method. Good for complex non-linear data.', tasks: ['regression', 'classification'] },
+];
+
+const DEFAULT_ALGORITHM: Record<TaskType, Algorithm> = {
+  regression: 'linear_regression',
+  classification: 'logistic_regression',
+};
+
+type HyperparameterField = { group: keyof Hyperparameters; key: string; label: string; min: number; max: number; step: number };
+
+const HYPERPARAMETER_FIELDS: Partial<Record<Algorithm, HyperparameterField[]>> = {
+  ridge: [
+    { group: 'ridge', key: 'alpha', label: 'Alpha (L2 penalty)', min: 0.001, max: 1000, step: 0.1 },
+  ],
+  logistic_regression: [
+    { group: 'logisticRegression', key: 'alpha', label: 'Alpha (L2 penalty)', min: 0, max: 10, step: 0.01 },
+    { group: 'logisticRegression', key: 'maxIterations', label: 'Max Iterations', min: 10, max: 2000, step: 10 },
+  ],
+  decision_tree: [
+    { group: 'decisionTree', key: 'maxDepth', label: 'Max Depth', min: 1, max: 20, step: 1 },
+    { group: 'decisionTree', key: 'minSamplesSplit', label: 'Min Samples to Split', min: 2, max: 200, step: 1 },
+    { group: 'decisionTree', key: 'minSamplesLeaf', label: 'Min Samples per Leaf', min: 1, max: 100, step: 1 },
+  ],
+  random_forest: [
+    { group: 'randomForest', key: 'nEstimators', label: 'Number of Trees', min: 1, max: 300, step: 1 },
+    { group: 'randomForest', key: 'maxDepth', label: 'Max Depth', min: 1, max: 20, step: 1 },
+    { group: 'randomForest', key: 'minSamplesSplit', label: 'Min Samples to Split', min: 2, max: 200, step: 1 },
+    { group: 'randomForest', key: 'minSamplesLeaf', label: 'Min Samples per Leaf', min: 1, max: 100, step: 1 },
+    { group: 'randomForest', key: 'maxFeatures', label: 'Features per Split (fraction)', min: 0.1, max: 1, step: 0.05 },
+    { group: 'randomForest', key: 'seed', label: 'Random Seed', min: 0, max: 99999, step: 1 },
+  ],
+};
+
 export default function App() {
+  const [mode, setMode] = useState<'build' | 'predict' | 'history'>('build');
   const [currentStep, setCurrentStep] = useState<AppStep>(AppStep.UPLOAD);
+  const [predictArtifact, setPredictArtifact] = useState<ModelArtifact | null>(null);
   
   // Data State
   const [rawData, setRawData] = useState<DataRow[]>([]);
   const [cleanedData, setCleanedData] = useState<DataRow[]>([]);
+  const [featureData, setFeatureData] = useState<DataRow[]>([]); // Cleaned data plus derived columns
   const [columnStats, setColumnStats] = useState<ColumnStat[]>([]);
+  const [parseReport, setParseReport] = useState<{ fileName: string; delimiter: string; rejectedRows: RejectedRow[] } | null>(null);
+  const [cleaningReport, setCleaningReport] = useState<CleaningResult | null>(null);
   
   // Config State
-  const [cleaningOptions, setCleaningOptions] = useState<CleaningOptions>({
-    method: 'fill_mean',
-    targetColumns: []
-  });
+  const [cleaningOptions, setCleaningOptions] = useState<CleaningOptions>({ columns: {}, outliers: defaultOutlierOptions() });
+  const [derivedColumns, setDerivedColumns] = useState<DerivedColumn[]>([]);
   
   const [modelConfig, setModelConfig] = useState<ModelConfig>({
+    taskType: 'regression',
     targetColumn: '',
     featureColumns: [],
     splitRatio: 0.8,
-    algorithm: 'linear_regression'
+    validation: { method: 'holdout', folds: 5, shuffle: true, stratify: false, seed: 42 },
+    algorithm: 'linear_regression',
+    hyperparameters: DEFAULT_HYPERPARAMETERS,
+    encodings: {},
+    preprocessing: defaultPreprocessing()
   });
 
+  const [trainingMode, setTrainingMode] = useState<'single' | 'automl'>('single');
+  const [autoMLOptions, setAutoMLOptions] = useState<AutoMLOptions>({ search: 'none', randomTrials: 4 });
+
   // Results State
   const [isTraining, setIsTraining] = useState(false);
+  const [trainingProgress, setTrainingProgress] = useState<TrainingProgress | null>(null);
+  const [lossPoints, setLossPoints] = useState<LossPoint[]>([]);
+  const [trainingStartedAt, setTrainingStartedAt] = useState(0);
+  const trainingJob = useRef<TrainingHandle<unknown> | null>(null);
+  const [preflightWarnings, setPreflightWarnings] = useState<PreflightWarning[] | null>(null);
+  // Derived columns are kept with the models trained on them, since the editor can change them afterwards
+  const [leaderboard, setLeaderboard] = useState<{ entries: LeaderboardEntry[]; derivedColumns: DerivedColumn[] } | null>(null);
+  const [leaderboardMetric, setLeaderboardMetric] = useState<string | null>(null);
+  const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
   const [metrics, setMetrics] = useState<ModelMetrics | null>(null);
-  const [geminiTips, setGeminiTips] = useState<string | null>(null);
+  const [modelDerivedColumns, setModelDerivedColumns] = useState<DerivedColumn[]>([]);
+  const [geminiTips, setGeminiTips] = useState<AdvisorTip[] | null>(null);
   const [isLoadingTips, setIsLoadingTips] = useState(false);
+  const [advisorChat, setAdvisorChat] = useState<ChatMessage[]>([]);
+  const [isChatStreaming, setIsChatStreaming] = useState(false);
+  const chatRequest = useRef<AbortController | null>(null);
+  const [llmSettings, setLLMSettings] = useState<LLMSettings>(loadLLMSettings);
+  const [showAdvisorSettings, setShowAdvisorSettings] = useState(false);
+  const [promptReview, setPromptReview] = useState<{ prompt: AdvisorPrompt; resolve: (send: boolean) => void } | null>(null);
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+
+  useEffect(() => {
+    listExperiments().then(setExperiments).catch(err => console.error(err));
+  }, []);
+
+  // The columns derived columns start from; each derived column can also use the ones defined before it
+  const cleanedStats: ColumnStat[] = useMemo(() => analyzeColumns(cleanedData), [cleanedData]);
+  const rawStats: ColumnStat[] = useMemo(() => analyzeColumns(rawData), [rawData]);
+  const rawFingerprint: string = useMemo(() => datasetFingerprint(rawData), [rawData]);
 
   // --- Handlers ---
 
@@ -65,14 +200,21 @@ export default function App() {
       const reader = new FileReader();
       reader.onload = (evt) => {
         const text = evt.target?.result as string;
-        const parsed = parseCSV(text);
-        if (parsed.length > 0) {
-          setRawData(parsed);
-          setCleanedData(parsed); // Initial clean is just raw
-          setColumnStats(analyzeColumns(parsed));
-          setCurrentStep(AppStep.CLEANING);
+        const { rows, rejectedRows, delimiter } = parseCSV(text);
+        setParseReport({ fileName: file.name, delimiter, rejectedRows });
+        if (rows.length > 0) {
+          setRawData(rows);
+          setCleanedData(rows); // Initial clean is just raw
+          setFeatureData(rows);
+          setDerivedColumns([]);
+          setCleaningReport(null);
+          setColumnStats(analyzeColumns(rows));
+          // Stay on the upload step so rejected rows can be reviewed first
+          if (rejectedRows.length === 0) setCurrentStep(AppStep.CLEANING);
         } else {
-          alert("Could not parse CSV or file is empty.");
+          alert(rejectedRows.length > 0
+            ? `No valid rows found. ${rejectedRows.length} row(s) were rejected.`
+            : "Could not parse CSV or file is empty.");
         }
       };
       reader.readAsText(file);
@@ -80,46 +222,440 @@ export default function App() {
   };
 
   const handleCleanData = () => {
-    const cleaned = cleanData(rawData, columnStats, cleaningOptions);
-    setCleanedData(cleaned);
-    setColumnStats(analyzeColumns(cleaned)); // Re-analyze after clean
-    setCurrentStep(AppStep.CONFIGURATION);
+    try {
+      const result = cleanData(rawData, rawStats, cleaningOptions);
+      setCleanedData(result.data);
+      setFeatureData(result.data);
+      setCleaningReport(result);
+      setPreflightWarnings(null);
+      setColumnStats(analyzeColumns(result.data)); // Re-analyze after clean
+      setCurrentStep(AppStep.FEATURE_ENGINEERING);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Error cleaning data.");
+    }
   };
 
-  const handleTrain = async () => {
-    if (!modelConfig.targetColumn || modelConfig.featureColumns.length === 0) {
-      alert("Please select a target and at least one feature.");
-      return;
+  // Cleaning starts again from the upload, so the cleaned data and everything derived from it is dropped
+  const handleBackToCleaning = () => {
+    setCleanedData(rawData);
+    setFeatureData(rawData);
+    setColumnStats(rawStats);
+    setDerivedColumns([]);
+    setCleaningReport(null);
+    setPreflightWarnings(null);
+    setCurrentStep(AppStep.CLEANING);
+  };
+
+  const handleApplyFeatures = () => {
+    try {
+      const data = applyDerivedColumns(cleanedData, cleanedStats, derivedColumns);
+      const stats = analyzeColumns(data);
+      const names = new Set(stats.map(c => c.name));
+      // Drop selections that point at derived columns which no longer exist
+      const encodings = Object.fromEntries(Object.entries(modelConfig.encodings).filter(([column]) => names.has(column)));
+      setModelConfig({
+        ...modelConfig,
+        targetColumn: names.has(modelConfig.targetColumn) ? modelConfig.targetColumn : '',
+        featureColumns: modelConfig.featureColumns.filter(f => names.has(f)),
+        encodings
+      });
+      setFeatureData(data);
+      setColumnStats(stats);
+      setPreflightWarnings(null);
+      setCurrentStep(AppStep.CONFIGURATION);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Error creating derived columns.");
     }
-    
+  };
+
+  const handleColumnCleaningChange = (column: string, patch: Partial<ColumnCleaning>) => {
+    setCleaningOptions(prev => ({
+      ...prev,
+      columns: { ...prev.columns, [column]: { ...(prev.columns[column] ?? defaultColumnCleaning()), ...patch } },
+    }));
+  };
+
+  // Applies a method to every column with missing values that supports it
+  const handleCleaningApplyAll = (method: ImputationStrategy['method']) => {
+    setCleaningOptions(prev => {
+      const columns = { ...prev.columns };
+      rawStats
+        .filter(c => c.missingCount > 0 && imputationMethodsFor(c.type).includes(method))
+        .forEach(c => {
+          columns[c.name] = { ...(columns[c.name] ?? defaultColumnCleaning()), strategy: defaultImputation(method) };
+        });
+      return { ...prev, columns };
+    });
+  };
+
+  const handleOutlierOptionsChange = (outliers: OutlierOptions) => {
+    setCleaningOptions(prev => ({ ...prev, outliers }));
+  };
+
+  const handleTrainingProgress = (progress: TrainingProgress, points: LossPoint[]) => {
+    setTrainingProgress(progress);
+    // The loss curve follows the current stage (fold or candidate) only
+    setLossPoints(prev => {
+      const current = prev.length > 0 && prev[0].stage === progress.stage ? prev : [];
+      return [...current, ...points.filter(p => p.stage === progress.stage)];
+    });
+  };
+
+  const startTrainingJob = <T,>(handle: TrainingHandle<T>, onDone: (result: T) => void, failureMessage: string) => {
+    trainingJob.current = handle;
     setIsTraining(true);
-    
-    // Simulate training delay for UX
-    setTimeout(() => {
-      try {
-        const result = trainModel(
-          cleanedData,
-          modelConfig.targetColumn,
-          modelConfig.featureColumns,
-          modelConfig.splitRatio
-        );
-        setMetrics(result);
-        setCurrentStep(AppStep.RESULTS);
-      } catch (err) {
+    setTrainingProgress(null);
+    setLossPoints([]);
+    setTrainingStartedAt(Date.now());
+
+    handle.promise
+      .then(onDone)
+      .catch(err => {
+        if (err instanceof TrainingCancelledError) return;
         console.error(err);
-        alert("Error training model. Please check data types.");
-      } finally {
+        // The worker's message says what was wrong with the data or settings
+        alert(err instanceof Error && err.message ? err.message : failureMessage);
+      })
+      .finally(() => {
+        if (trainingJob.current === handle) trainingJob.current = null;
         setIsTraining(false);
+      });
+  };
+
+  const handleCancelTraining = () => {
+    trainingJob.current?.cancel();
+  };
+
+  // History is best-effort: a failed write is logged and never blocks the results
+  const recordExperiments = (
+    runs: { label: string; config: ModelConfig; metrics: ModelMetrics; keepRows?: boolean }[],
+    settings: Omit<AdvisorSettings, 'config'> = { cleaningOptions, derivedColumns }
+  ) => {
+    const dataset = {
+      name: parseReport?.fileName ?? 'dataset',
+      fingerprint: rawFingerprint,
+      rows: rawData.length,
+      columns: rawData.length > 0 ? Object.keys(rawData[0]).length : 0,
+    };
+    const recorded = runs.map(({ keepRows, ...run }) => createExperiment({ ...run, ...settings, dataset }, keepRows));
+    setExperiments(prev => [...recorded.reverse(), ...prev]);
+    recorded.forEach(experiment => saveExperiment(experiment).catch(err => console.error(err)));
+  };
+
+  const handleDeleteExperiment = (id: string) => {
+    setExperiments(prev => prev.filter(e => e.id !== id));
+    deleteExperiment(id).catch(err => console.error(err));
+  };
+
+  const handleClearExperiments = () => {
+    setExperiments([]);
+    clearExperiments().catch(err => console.error(err));
+  };
+
+  // Settings are passed in so a run can start before state updates land; onTrained commits
+  // state that must only change together with the model, and is skipped on failure or cancel
+  const trainSingleRun = (
+    data: DataRow[],
+    config: ModelConfig,
+    label: string,
+    settings?: Omit<AdvisorSettings, 'config'>,
+    onTrained?: () => void
+  ) => {
+    startTrainingJob(
+      trainInWorker(data, config, handleTrainingProgress),
+      result => {
+        onTrained?.();
+        recordExperiments([{ label, config, metrics: result }], settings);
+        setMetrics(result);
+        setModelDerivedColumns(settings?.derivedColumns ?? derivedColumns);
+        setActiveEntryId(null);
+        setGeminiTips(null);
+        resetAdvisorChat();
+        setCurrentStep(AppStep.RESULTS);
+      },
+      "Error training model. Please check data types."
+    );
+  };
+
+  const handleTrain = () => {
+    if (!modelConfig.targetColumn || modelConfig.featureColumns.length === 0) {
+      alert("Please select a target and at least one feature.");
+      return;
+    }
+    trainSingleRun(featureData, modelConfig, 'Single run');
+  };
+
+  const handleRunAll = () => {
+    if (!modelConfig.targetColumn || modelConfig.featureColumns.length === 0) {
+      alert("Please select a target and at least one feature.");
+      return;
+    }
+
+    startTrainingJob(
+      runAutoMLInWorker(featureData, modelConfig, autoMLOptions, handleTrainingProgress),
+      entries => {
+        if (entries.length === 0) {
+          alert("Every candidate failed to train. Please check data types.");
+          return;
+        }
+        // Only the winner by the leaderboard's ranking keeps its per-row predictions and curves in the history
+        const winner = bestEntry(entries, rankingMetric(entries, leaderboardMetric));
+        recordExperiments(entries.map(entry => ({
+          label: entry.label ? `AutoML: ${entry.label}` : 'AutoML',
+          config: entry.config,
+          metrics: entry.metrics,
+          keepRows: entry === winner,
+        })));
+        setLeaderboard({ entries, derivedColumns });
+      },
+      "Error running AutoML. Please check data types."
+    );
+  };
+
+  // Training starts straight away only when every pre-training check passes
+  const handleStartTraining = () => {
+    if (!modelConfig.targetColumn || modelConfig.featureColumns.length === 0) {
+      alert("Please select a target and at least one feature.");
+      return;
+    }
+    const warnings = runPreflightChecks(featureData, columnStats, modelConfig);
+    if (warnings.length > 0) {
+      setPreflightWarnings(warnings);
+      return;
+    }
+    handleContinueTraining();
+  };
+
+  const handleContinueTraining = () => {
+    setPreflightWarnings(null);
+    if (trainingMode === 'automl') handleRunAll();
+    else handleTrain();
+  };
+
+  const handlePreflightFix = (fix: PreflightFix) => {
+    if (fix.action === 'go_to_cleaning') {
+      handleBackToCleaning();
+      return;
+    }
+    const { [fix.column]: _removed, ...encodings } = modelConfig.encodings;
+    const config = { ...modelConfig, featureColumns: modelConfig.featureColumns.filter(f => f !== fix.column), encodings };
+    setModelConfig(config);
+    setPreflightWarnings(runPreflightChecks(featureData, columnStats, config));
+  };
+
+  const handlePromoteEntry = (entry: LeaderboardEntry) => {
+    setModelConfig(entry.config);
+    setMetrics(entry.metrics);
+    setModelDerivedColumns(leaderboard?.derivedColumns ?? []);
+    setActiveEntryId(entry.id);
+    setGeminiTips(null);
+    resetAdvisorChat();
+    setCurrentStep(AppStep.RESULTS);
+  };
+
+  const exportCurrentModel = (): ModelArtifact | null => {
+    if (!metrics) return null;
+    try {
+      return buildModelArtifact(modelConfig, metrics, modelDerivedColumns, rawStats);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Error exporting the model.");
+      return null;
+    }
+  };
+
+  const handleDownloadModel = () => {
+    const artifact = exportCurrentModel();
+    if (artifact) downloadFile(artifactFileName(artifact), JSON.stringify(artifact), 'application/json');
+  };
+
+  const handleScoreWithModel = () => {
+    const artifact = exportCurrentModel();
+    if (!artifact) return;
+    setPredictArtifact(artifact);
+    setMode('predict');
+  };
+
+  const handleTargetChange = (targetColumn: string) => {
+    const stat = columnStats.find(c => c.name === targetColumn);
+    const taskType = stat ? suggestTaskType(stat) : modelConfig.taskType;
+    const { [targetColumn]: _removed, ...encodings } = modelConfig.encodings;
+    const { targetTransform } = modelConfig.preprocessing;
+    setModelConfig({
+      ...modelConfig,
+      targetColumn,
+      taskType,
+      algorithm: ALGORITHMS.find(a => a.id === modelConfig.algorithm)!.tasks.includes(taskType)
+        ? modelConfig.algorithm
+        : DEFAULT_ALGORITHM[taskType],
+      featureColumns: modelConfig.featureColumns.filter(f => f !== targetColumn),
+      encodings,
+      preprocessing: {
+        ...modelConfig.preprocessing,
+        targetTransform: stat?.numeric && targetTransformAllowed(targetTransform, stat.numeric.min) ? targetTransform : 'none'
+      }
+    });
+  };
+
+  const handleTaskTypeChange = (taskType: TaskType) => {
+    setModelConfig({
+      ...modelConfig,
+      taskType,
+      algorithm: ALGORITHMS.find(a => a.id === modelConfig.algorithm)!.tasks.includes(taskType)
+        ? modelConfig.algorithm
+        : DEFAULT_ALGORITHM[taskType]
+    });
+  };
+
+  const handleFeatureToggle = (col: ColumnStat, checked: boolean) => {
+    const featureColumns = checked
+      ? [...modelConfig.featureColumns, col.name]
+      : modelConfig.featureColumns.filter(f => f !== col.name);
+    const { [col.name]: _removed, ...encodings } = modelConfig.encodings;
+    // String columns can only be used once they are encoded
+    if (checked && col.type === 'string') encodings[col.name] = defaultEncoding();
+    setModelConfig({ ...modelConfig, featureColumns, encodings });
+  };
+
+  const handleEncodingChange = (column: string, encoding: CategoricalEncoding) => {
+    setModelConfig({ ...modelConfig, encodings: { ...modelConfig.encodings, [column]: encoding } });
+  };
+
+  const handlePreprocessingChange = (patch: Partial<PreprocessingConfig>) => {
+    setModelConfig({ ...modelConfig, preprocessing: { ...modelConfig.preprocessing, ...patch } });
+  };
+
+  const handleValidationChange = (patch: Partial<ValidationConfig>) => {
+    setModelConfig({ ...modelConfig, validation: { ...modelConfig.validation, ...patch } });
+  };
+
+  const handleHyperparameterChange = (field: HyperparameterField, value: number) => {
+    if (isNaN(value)) return;
+    const clamped = Math.min(field.max, Math.max(field.min, value));
+    setModelConfig({
+      ...modelConfig,
+      hyperparameters: {
+        ...modelConfig.hyperparameters,
+        [field.group]: { ...modelConfig.hyperparameters[field.group], [field.key]: clamped }
       }
-    }, 1500);
+    });
+  };
+
+  const advisorContext = (): AdvisorContext => ({
+    config: modelConfig,
+    cleaningOptions,
+    derivedColumns,
+    stats: columnStats,
+    rawStats,
+    correlations: correlationMatrix(featureData, columnStats, 'pearson'),
+  });
+
+  // Resolves true once the prompt is approved, or straight away when review is turned off
+  const confirmPrompt = (prompt: AdvisorPrompt): Promise<boolean> =>
+    llmSettings.reviewPrompts
+      ? new Promise(resolve => setPromptReview({ prompt, resolve }))
+      : Promise.resolve(true);
+
+  const handleReviewPrompt = (send: boolean) => {
+    promptReview?.resolve(send);
+    setPromptReview(null);
   };
 
   const handleGetTips = async () => {
     if (!metrics) return;
+    const context = advisorContext();
+    const prompt = buildTipsPrompt(metrics, context, llmSettings);
+    if (!await confirmPrompt(prompt)) return;
     setIsLoadingTips(true);
-    const tips = await generateMLTips(modelConfig, metrics, columnStats.map(c => c.name));
-    setGeminiTips(tips);
-    setIsLoadingTips(false);
+    try {
+      setGeminiTips(await generateMLTips(prompt, metrics, context, llmSettings));
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Failed to generate tips.");
+    } finally {
+      setIsLoadingTips(false);
+    }
+  };
+
+  const handleLLMSettingsChange = (settings: LLMSettings) => {
+    setLLMSettings(settings);
+    saveLLMSettings(settings);
+  };
+
+  // A new model starts a new conversation; a reply still streaming for the old one is aborted
+  const resetAdvisorChat = () => {
+    chatRequest.current?.abort();
+    chatRequest.current = null;
+    setAdvisorChat([]);
+    setIsChatStreaming(false);
+  };
+
+  // The reply streams into an empty advisor message; a failed exchange is removed again
+  const handleSendChat = async (text: string): Promise<boolean> => {
+    if (!metrics) return false;
+    const history: ChatMessage[] = [...advisorChat, { role: 'user', text }];
+    const context = advisorContext();
+    const prompt = buildChatPrompt(metrics, context, geminiTips, history, llmSettings);
+    const request = new AbortController();
+    chatRequest.current = request;
+    if (!await confirmPrompt(prompt) || request.signal.aborted) return false;
+    setAdvisorChat([...history, { role: 'model', text: '' }]);
+    setIsChatStreaming(true);
+    try {
+      await streamAdvisorReply(prompt, metrics, context, geminiTips, history, llmSettings, reply => {
+        if (!request.signal.aborted) setAdvisorChat([...history, { role: 'model', text: reply }]);
+      }, request.signal);
+      return !request.signal.aborted;
+    } catch (err) {
+      if (request.signal.aborted) return false;
+      console.error(err);
+      setAdvisorChat(history.slice(0, -1));
+      alert(err instanceof Error ? err.message : "Failed to get a reply.");
+      return false;
+    } finally {
+      if (chatRequest.current === request) {
+        chatRequest.current = null;
+        setIsChatStreaming(false);
+      }
+    }
+  };
+
+  // Re-runs cleaning and feature engineering only when the tip changed them, then retrains.
+  // The new settings replace the current ones only once the retrained model is in.
+  const handleApplyTip = (tip: AdvisorTip) => {
+    try {
+      const next = applyAdvisorAction(tip.action, advisorContext());
+      let cleaned = cleanedData;
+      let stats = cleanedStats;
+      let cleaningResult: CleaningResult | null = null;
+      if (next.cleaningOptions !== cleaningOptions) {
+        cleaningResult = cleanData(rawData, rawStats, next.cleaningOptions);
+        cleaned = cleaningResult.data;
+        stats = analyzeColumns(cleaned);
+      }
+      const data = next.derivedColumns === derivedColumns && cleaned === cleanedData
+        ? featureData
+        : applyDerivedColumns(cleaned, stats, next.derivedColumns);
+      const dataStats = data === featureData ? columnStats : analyzeColumns(data);
+      trainSingleRun(data, next.config, `Advisor: ${tip.title}`, next, () => {
+        if (cleaningResult) {
+          setCleanedData(cleaned);
+          setCleaningReport(cleaningResult);
+          setCleaningOptions(next.cleaningOptions);
+        }
+        setFeatureData(data);
+        setColumnStats(dataStats);
+        setDerivedColumns(next.derivedColumns);
+        setModelConfig(next.config);
+        setPreflightWarnings(null);
+        setLeaderboard(null);
+      });
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Error applying the tip.");
+    }
   };
 
   // --- Components for Steps ---
@@ -161,26 +697,70 @@ export default function App() {
   );
 
   const StepUpload = () => (
-    <div className="flex flex-col items-center justify-center h-96 border-2 border-dashed border-gray-300 rounded-xl bg-gray-50 hover:bg-gray-100 transition-colors">
-      <UploadIcon />
-      <p className="mt-4 text-xl text-gray-600 font-semibold">Drop your CSV file here</p>
-      <p className="text-gray-400 mb-6">or click to browse</p>
-      <input 
-        type="file" 
-        accept=".csv"
-        onChange={handleFileUpload} 
-        className="hidden" 
-        id="file-upload"
-      />
-      <label 
-        htmlFor="file-upload" 
-        className="px-6 py-3 bg-blue-600 text-white rounded-lg cursor-pointer hover:bg-blue-700 font-medium"
-      >
-        Select File
-      </label>
-      <div className="mt-8 text-sm text-gray-400 max-w-md text-center">
-        Supported formats: CSV. The file will be parsed locally in your browser.
+    <div className="space-y-6">
+      <div className="flex flex-col items-center justify-center h-96 border-2 border-dashed border-gray-300 rounded-xl bg-gray-50 hover:bg-gray-100 transition-colors">
+        <UploadIcon />
+        <p className="mt-4 text-xl text-gray-600 font-semibold">Drop your CSV file here</p>
+        <p className="text-gray-400 mb-6">or click to browse</p>
+        <input 
+          type="file" 
+          accept=".csv,.tsv,.txt"
+          onChange={handleFileUpload} 
+          className="hidden" 
+          id="file-upload"
+        />
+        <label 
+          htmlFor="file-upload" 
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg cursor-pointer hover:bg-blue-700 font-medium"
+        >
+          Select File
+        </label>
+        <div className="mt-8 text-sm text-gray-400 max-w-md text-center">
+          Supported formats: CSV, TSV or semicolon-separated text. The delimiter is detected automatically and the file is parsed locally in your browser.
+        </div>
       </div>
+
+      {parseReport && parseReport.rejectedRows.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-red-200">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="text-lg font-bold text-red-700">Rejected Rows</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {parseReport.rejectedRows.length} row(s) in <strong>{parseReport.fileName}</strong> could not be parsed and will not be used.
+                Detected delimiter: <code className="bg-gray-100 px-1 rounded">{parseReport.delimiter === '\t' ? 'tab' : parseReport.delimiter}</code>
+              </p>
+            </div>
+            {rawData.length > 0 && (
+              <button
+                onClick={() => setCurrentStep(AppStep.CLEANING)}
+                className="text-white bg-blue-700 hover:bg-blue-800 font-medium rounded-lg text-sm px-5 py-2.5 focus:outline-none"
+              >
+                Continue with {rawData.length} rows
+              </button>
+            )}
+          </div>
+          <div className="overflow-x-auto max-h-80 overflow-y-auto mt-4">
+            <table className="w-full text-sm text-left text-gray-500">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2">Line</th>
+                  <th className="px-4 py-2">Reason</th>
+                  <th className="px-4 py-2">Content</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parseReport.rejectedRows.map(row => (
+                  <tr key={row.line} className="bg-white border-b">
+                    <td className="px-4 py-2 font-mono text-gray-900">{row.line}</td>
+                    <td className="px-4 py-2 text-red-600">{row.reason}</td>
+                    <td className="px-4 py-2 font-mono text-xs text-gray-400 truncate max-w-md">{row.raw.slice(0, 200)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 
@@ -199,13 +779,14 @@ export default function App() {
               </tr>
             </thead>
             <tbody>
-              {columnStats.map(col => (
+              {rawStats.map(col => (
                 <tr key={col.name} className="bg-white border-b">
                   <td className="px-6 py-4 font-medium text-gray-900">{col.name}</td>
                   <td className="px-6 py-4">
                     <span className={`px-2 py-1 rounded text-xs ${col.type === 'number' ? 'bg-blue-100 text-blue-800' : 'bg-yellow-100 text-yellow-800'}`}>
                       {col.type}
                     </span>
+                    <span className="ml-2 text-xs text-gray-400">{col.semanticType}</span>
                   </td>
                   <td className={`px-6 py-4 ${col.missingCount > 0 ? 'text-red-500 font-bold' : 'text-green-500'}`}>
                     {col.missingCount}
@@ -220,49 +801,113 @@ export default function App() {
         </div>
       </div>
 
+      <div>
+        <h3 className="text-lg font-bold mb-4">Data Profile</h3>
+        <DataProfile data={rawData} stats={rawStats} />
+      </div>
+
       <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
-        <h3 className="text-lg font-bold mb-4">Cleaning Strategy</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <label className="block mb-2 text-sm font-medium text-gray-900">Handle Missing Values By:</label>
-            <select 
-              value={cleaningOptions.method}
-              onChange={(e) => setCleaningOptions({...cleaningOptions, method: e.target.value as any})}
-              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
-            >
-              <option value="fill_mean">Filling with Mean (Average)</option>
-              <option value="fill_median">Filling with Median (Middle)</option>
-              <option value="fill_mode">Filling with Mode (Most Frequent)</option>
-              <option value="drop_rows">Removing Rows</option>
-            </select>
-          </div>
-          <div>
-            <label className="block mb-2 text-sm font-medium text-gray-900">Apply to Columns with Nulls:</label>
-            <div className="flex flex-wrap gap-2">
-              {columnStats.filter(c => c.missingCount > 0).map(c => (
-                <label key={c.name} className="inline-flex items-center space-x-2 bg-gray-50 px-3 py-1 rounded border">
-                  <input 
-                    type="checkbox" 
-                    checked={cleaningOptions.targetColumns.includes(c.name)}
-                    onChange={(e) => {
-                      const newTargets = e.target.checked 
-                        ? [...cleaningOptions.targetColumns, c.name]
-                        : cleaningOptions.targetColumns.filter(n => n !== c.name);
-                      setCleaningOptions({...cleaningOptions, targetColumns: newTargets});
-                    }}
-                    className="form-checkbox h-4 w-4 text-blue-600"
-                  />
-                  <span>{c.name}</span>
-                </label>
-              ))}
-              {columnStats.every(c => c.missingCount === 0) && (
-                <span className="text-sm text-green-600">No missing values detected!</span>
-              )}
-            </div>
-          </div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold">Cleaning Strategy</h3>
+          {rawStats.some(c => c.missingCount > 0) && (
+            <label className="text-sm text-gray-600 flex items-center gap-2">
+              Set all to
+              <select
+                value=""
+                onChange={(e) => e.target.value && handleCleaningApplyAll(e.target.value as ImputationStrategy['method'])}
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5"
+              >
+                <option value="">Choose...</option>
+                {imputationMethodsFor('number').map(m => <option key={m} value={m}>{IMPUTATION_LABELS[m]}</option>)}
+              </select>
+            </label>
+          )}
         </div>
+        {rawStats.every(c => c.missingCount === 0) ? (
+          <span className="text-sm text-green-600">No missing values detected!</span>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-500">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2">Column</th>
+                  <th className="px-4 py-2">Missing</th>
+                  <th className="px-4 py-2">Strategy</th>
+                  <th className="px-4 py-2">Options</th>
+                  <th className="px-4 py-2">Add "was missing" column</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rawStats.filter(c => c.missingCount > 0).map(c => {
+                  const plan = cleaningOptions.columns[c.name] ?? defaultColumnCleaning();
+                  const strategy = plan.strategy;
+                  return (
+                    <tr key={c.name} className="bg-white border-b">
+                      <td className="px-4 py-2 font-medium text-gray-900">
+                        {c.name} <span className="text-xs text-gray-400">({c.type})</span>
+                      </td>
+                      <td className="px-4 py-2 text-red-500 font-bold">{c.missingCount}</td>
+                      <td className="px-4 py-2">
+                        <select
+                          value={strategy.method}
+                          onChange={(e) => handleColumnCleaningChange(c.name, { strategy: defaultImputation(e.target.value as ImputationStrategy['method']) })}
+                          className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5"
+                        >
+                          {imputationMethodsFor(c.type).map(m => <option key={m} value={m}>{IMPUTATION_LABELS[m]}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-4 py-2">
+                        {strategy.method === 'constant' && (
+                          <input
+                            type={c.type === 'number' ? 'number' : 'text'}
+                            value={strategy.value}
+                            placeholder="Fill value"
+                            onChange={(e) => handleColumnCleaningChange(c.name, { strategy: { method: 'constant', value: e.target.value } })}
+                            className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5 w-32"
+                          />
+                        )}
+                        {strategy.method === 'knn' && (
+                          <label className="text-xs text-gray-600 flex items-center gap-2">
+                            Neighbors
+                            <input
+                              type="number"
+                              min={1}
+                              value={strategy.neighbors}
+                              onChange={(e) => handleColumnCleaningChange(c.name, { strategy: { method: 'knn', neighbors: Math.max(1, parseInt(e.target.value) || 1) } })}
+                              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5 w-20"
+                            />
+                          </label>
+                        )}
+                        {strategy.method === 'regression' && (
+                          <span className="text-xs text-gray-400">Fitted on the other numeric columns</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <input
+                          type="checkbox"
+                          checked={plan.addIndicator}
+                          onChange={(e) => handleColumnCleaningChange(c.name, { addIndicator: e.target.checked })}
+                          className="form-checkbox h-4 w-4 text-blue-600"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <h3 className="text-lg font-bold mt-8 mb-4">Outliers</h3>
+        <OutlierSettings
+          data={rawData}
+          stats={rawStats}
+          options={cleaningOptions.outliers}
+          onChange={handleOutlierOptionsChange}
+        />
+
         <div className="mt-6 flex justify-end">
-          <button 
+          <button
             onClick={handleCleanData}
             className="text-white bg-blue-700 hover:bg-blue-800 focus:ring-4 focus:ring-blue-300 font-medium rounded-lg text-sm px-5 py-2.5 mr-2 mb-2 focus:outline-none"
           >
@@ -273,6 +918,35 @@ export default function App() {
     </div>
   );
 
+  const StepFeatureEngineering = () => (
+    <div className="space-y-8">
+      {cleaningReport && <CleaningReport rawData={rawData} result={cleaningReport} />}
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <h3 className="text-lg font-bold mb-1">Derived Columns</h3>
+        <p className="text-sm text-gray-500 mb-6">
+          Build new columns from formulas over the cleaned data. Refer to columns by name, or wrap names with spaces in [brackets].
+          Each column can use the ones defined above it.
+        </p>
+        <FeatureEngineering
+          data={cleanedData}
+          stats={cleanedStats}
+          derived={derivedColumns}
+          onChange={setDerivedColumns}
+        />
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={handleApplyFeatures}
+            className="text-white bg-blue-700 hover:bg-blue-800 focus:ring-4 focus:ring-blue-300 font-medium rounded-lg text-sm px-5 py-2.5 focus:outline-none"
+          >
+            Apply & Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
   const StepConfiguration = () => (
     <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-200 max-w-4xl mx-auto">
       <h2 className="text-2xl font-bold mb-6 text-gray-800">Problem Definition</h2>
@@ -286,19 +960,40 @@ export default function App() {
           </label>
           <select 
             value={modelConfig.targetColumn}
-            onChange={(e) => setModelConfig({...modelConfig, targetColumn: e.target.value})}
+            onChange={(e) => handleTargetChange(e.target.value)}
             className="bg-blue-50 border border-blue-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
           >
             <option value="">Select a column...</option>
-            {columnStats.filter(c => c.type === 'number').map(c => (
+            {columnStats.map(c => (
               <option key={c.name} value={c.name}>{c.name}</option>
             ))}
           </select>
-          {modelConfig.targetColumn && (
-            <div className="mt-2 text-xs text-green-600">
-              Selected target: <strong>{modelConfig.targetColumn}</strong>
-            </div>
-          )}
+          {modelConfig.targetColumn && (() => {
+            const targetStat = columnStats.find(c => c.name === modelConfig.targetColumn);
+            const suggested = targetStat ? suggestTaskType(targetStat) : modelConfig.taskType;
+            return (
+              <div className="mt-3">
+                <div className="text-xs text-green-600">
+                  Selected target: <strong>{modelConfig.targetColumn}</strong>
+                  {targetStat && <span className="text-gray-500"> ({targetStat.uniqueCount} distinct values)</span>}
+                </div>
+                <div className="mt-3 inline-flex rounded-lg border border-gray-300 overflow-hidden">
+                  {(['regression', 'classification'] as TaskType[]).map(task => (
+                    <button
+                      key={task}
+                      onClick={() => handleTaskTypeChange(task)}
+                      disabled={task === 'regression' && targetStat?.type === 'string'}
+                      className={`px-4 py-1.5 text-sm capitalize disabled:text-gray-300 disabled:cursor-not-allowed ${
+                        modelConfig.taskType === task ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {task}{task === suggested ? ' (suggested)' : ''}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })()}
         </div>
 
         {/* Feature Variables */}
@@ -309,48 +1004,225 @@ export default function App() {
           </label>
           <div className="max-h-60 overflow-y-auto border rounded-lg p-3 bg-gray-50">
             {columnStats
-              .filter(c => c.name !== modelConfig.targetColumn && c.type === 'number')
+              .filter(c => c.name !== modelConfig.targetColumn)
               .map(c => (
                 <label key={c.name} className="flex items-center space-x-3 mb-2 cursor-pointer hover:bg-gray-100 p-1 rounded">
                   <input 
                     type="checkbox"
                     checked={modelConfig.featureColumns.includes(c.name)}
-                    onChange={(e) => {
-                      const newFeatures = e.target.checked
-                        ? [...modelConfig.featureColumns, c.name]
-                        : modelConfig.featureColumns.filter(f => f !== c.name);
-                      setModelConfig({...modelConfig, featureColumns: newFeatures});
-                    }}
+                    onChange={(e) => handleFeatureToggle(c, e.target.checked)}
                     className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
                   />
                   <span className="text-sm text-gray-900">{c.name}</span>
+                  {c.type === 'string' && (
+                    <span className="px-2 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800">categorical</span>
+                  )}
                 </label>
             ))}
-            {columnStats.filter(c => c.name !== modelConfig.targetColumn && c.type !== 'number').length > 0 && (
-                 <div className="text-xs text-yellow-600 mt-2 p-2 bg-yellow-50 rounded">
-                   Note: Non-numeric columns are hidden. Feature encoding is not supported in this demo.
-                 </div>
-            )}
           </div>
         </div>
       </div>
 
+      {Object.keys(modelConfig.encodings).length > 0 && (
+        <div className="mt-8">
+          <label className="block mb-2 text-sm font-bold text-gray-900">
+            Categorical Encoding
+            <span className="block font-normal text-xs text-gray-500">Encoders are fitted on the training split only and reused for evaluation.</span>
+          </label>
+          <div className="space-y-3">
+            {Object.keys(modelConfig.encodings).map(column => {
+              const encoding = modelConfig.encodings[column];
+              const stat = columnStats.find(c => c.name === column);
+              return (
+                <div key={column} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center border rounded-lg p-3 bg-gray-50">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">{column}</span>
+                    {stat && <span className="block text-xs text-gray-500">{stat.uniqueCount} distinct values</span>}
+                  </div>
+                  <select
+                    value={encoding.method}
+                    onChange={(e) => handleEncodingChange(column, defaultEncoding(e.target.value as CategoricalEncoding['method']))}
+                    className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2"
+                  >
+                    <option value="one_hot">One-hot (rare categories bucketed)</option>
+                    <option value="ordinal">Ordinal</option>
+                    <option value="target">Target (out-of-fold mean)</option>
+                  </select>
+                  {encoding.method === 'one_hot' && (
+                    <label className="text-xs text-gray-600">
+                      Min. frequency per category
+                      <input
+                        type="number"
+                        min={1}
+                        value={encoding.minFrequency}
+                        onChange={(e) => handleEncodingChange(column, { ...encoding, minFrequency: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2 mt-1"
+                      />
+                    </label>
+                  )}
+                  {encoding.method === 'ordinal' && (
+                    <label className="text-xs text-gray-600">
+                      Category order (comma separated, low to high)
+                      <input
+                        type="text"
+                        defaultValue={encoding.order.join(', ')}
+                        placeholder="e.g. poor, fair, good, excellent"
+                        onBlur={(e) => handleEncodingChange(column, { ...encoding, order: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                        className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2 mt-1"
+                      />
+                    </label>
+                  )}
+                  {encoding.method === 'target' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="text-xs text-gray-600">
+                        Smoothing
+                        <input
+                          type="number"
+                          min={0}
+                          value={encoding.smoothing}
+                          onChange={(e) => handleEncodingChange(column, { ...encoding, smoothing: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2 mt-1"
+                        />
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        Folds
+                        <input
+                          type="number"
+                          min={2}
+                          max={20}
+                          value={encoding.folds}
+                          onChange={(e) => handleEncodingChange(column, { ...encoding, folds: Math.min(20, Math.max(2, parseInt(e.target.value) || 2)) })}
+                          className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2 mt-1"
+                        />
+                      </label>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div className="mt-8">
         <label className="block mb-2 text-sm font-bold text-gray-900">
-          Train / Test Split
+          Preprocessing
+          <span className="block font-normal text-xs text-gray-500">
+            Fitted on the training rows only. Predictions are converted back to the target's own units before scoring.
+          </span>
         </label>
-        <div className="flex items-center space-x-4">
-          <span className="text-sm font-medium text-gray-600">Train: {Math.round(modelConfig.splitRatio * 100)}%</span>
-          <input 
-            type="range" 
-            min="0.5" 
-            max="0.9" 
-            step="0.05"
-            value={modelConfig.splitRatio}
-            onChange={(e) => setModelConfig({...modelConfig, splitRatio: parseFloat(e.target.value)})}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-          />
-          <span className="text-sm font-medium text-gray-600">Test: {Math.round((1 - modelConfig.splitRatio) * 100)}%</span>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-700">
+          <label>
+            Feature scaling
+            <select
+              value={modelConfig.preprocessing.scaling}
+              onChange={(e) => handlePreprocessingChange({ scaling: e.target.value as FeatureScaling })}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2 mt-1"
+            >
+              {(Object.keys(SCALING_LABELS) as FeatureScaling[]).map(scaling => (
+                <option key={scaling} value={scaling}>{SCALING_LABELS[scaling]}</option>
+              ))}
+            </select>
+          </label>
+          {modelConfig.taskType === 'regression' && (
+            <label>
+              Target transform
+              <select
+                value={modelConfig.preprocessing.targetTransform}
+                onChange={(e) => handlePreprocessingChange({ targetTransform: e.target.value as TargetTransform })}
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2 mt-1"
+              >
+                {(Object.keys(TARGET_TRANSFORM_LABELS) as TargetTransform[]).map(transform => {
+                  const targetMin = columnStats.find(c => c.name === modelConfig.targetColumn)?.numeric?.min;
+                  const allowed = targetMin === undefined || targetTransformAllowed(transform, targetMin);
+                  return (
+                    <option key={transform} value={transform} disabled={!allowed}>
+                      {TARGET_TRANSFORM_LABELS[transform]}{allowed ? '' : ' (target out of range)'}
+                    </option>
+                  );
+                })}
+              </select>
+              <span className="block text-xs text-gray-400 mt-1">Log and Box-Cox help with skewed targets such as prices.</span>
+            </label>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-8">
+        <label className="block mb-2 text-sm font-bold text-gray-900">
+          Validation
+          <span className="block font-normal text-xs text-gray-500">How rows are divided between training and evaluation.</span>
+        </label>
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden mb-4">
+          {([['holdout', 'Train / Test Split'], ['cross_validation', 'K-Fold Cross-Validation']] as [ValidationConfig['method'], string][]).map(([method, label]) => (
+            <button
+              key={method}
+              onClick={() => handleValidationChange({ method })}
+              className={`px-4 py-1.5 text-sm ${modelConfig.validation.method === method ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {modelConfig.validation.method === 'holdout' ? (
+          <div className="flex items-center space-x-4">
+            <span className="text-sm font-medium text-gray-600">Train: {Math.round(modelConfig.splitRatio * 100)}%</span>
+            <input 
+              type="range" 
+              min="0.5" 
+              max="0.9" 
+              step="0.05"
+              value={modelConfig.splitRatio}
+              onChange={(e) => setModelConfig({...modelConfig, splitRatio: parseFloat(e.target.value)})}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <span className="text-sm font-medium text-gray-600">Test: {Math.round((1 - modelConfig.splitRatio) * 100)}%</span>
+          </div>
+        ) : (
+          <label className="flex items-center space-x-3 text-sm text-gray-600">
+            <span>Number of folds</span>
+            <input
+              type="number"
+              min={2}
+              max={20}
+              value={modelConfig.validation.folds}
+              onChange={(e) => handleValidationChange({ folds: Math.min(20, Math.max(2, parseInt(e.target.value) || 2)) })}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg w-24 p-2"
+            />
+          </label>
+        )}
+
+        <div className="flex flex-wrap items-center gap-6 mt-4 text-sm text-gray-700">
+          <label className="inline-flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={modelConfig.validation.shuffle}
+              onChange={(e) => handleValidationChange({ shuffle: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            <span>Shuffle rows</span>
+          </label>
+          <label className="inline-flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={modelConfig.validation.stratify}
+              onChange={(e) => handleValidationChange({ stratify: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            <span>Stratify {modelConfig.taskType === 'classification' ? 'by class' : 'by target quantiles'}</span>
+          </label>
+          <label className="inline-flex items-center space-x-2">
+            <span>Seed</span>
+            <input
+              type="number"
+              min={0}
+              value={modelConfig.validation.seed}
+              disabled={!modelConfig.validation.shuffle}
+              onChange={(e) => handleValidationChange({ seed: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg w-24 p-2 disabled:opacity-50"
+            />
+          </label>
         </div>
       </div>
 
@@ -367,41 +1239,139 @@ export default function App() {
   );
 
   const StepModelSelection = () => (
-    <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-200 max-w-2xl mx-auto text-center">
-      <h2 className="text-2xl font-bold mb-6">Choose Algorithm</h2>
-      
-      <div className="grid grid-cols-1 gap-4 mb-8">
-        {[
-          { id: 'linear_regression', name: 'Linear Regression', desc: 'Best for simple relationships. Fast and interpretable.' },
-          { id: 'ridge', name: 'Ridge Regression', desc: 'Linear regression with regularization to prevent overfitting.' },
-          { id: 'random_forest', name: 'Random Forest', desc: 'Ensemble learning method. Good for complex non-linear data.' },
-        ].map((algo) => (
-          <div 
-            key={algo.id}
-            onClick={() => setModelConfig({...modelConfig, algorithm: algo.id as any})}
-            className={`p-4 border rounded-lg cursor-pointer text-left transition-all ${
-              modelConfig.algorithm === algo.id 
-                ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-200' 
-                : 'border-gray-200 hover:border-blue-300'
-            }`}
-          >
-            <div className="font-bold text-gray-900">{algo.name}</div>
-            <div className="text-sm text-gray-500">{algo.desc}</div>
+    <div className="space-y-8">
+      <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-200 max-w-2xl mx-auto text-center">
+        <h2 className="text-2xl font-bold mb-6">Choose Algorithm</h2>
+
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden mb-6">
+          {([['single', 'Single Algorithm'], ['automl', 'Run All (AutoML)']] as ['single' | 'automl', string][]).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => setTrainingMode(mode)}
+              className={`px-4 py-1.5 text-sm ${trainingMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {trainingMode === 'automl' ? (
+          <div className="mb-8 text-left space-y-4">
+            <p className="text-sm text-gray-500">
+              Trains every {modelConfig.taskType} algorithm on the same {modelConfig.validation.method === 'cross_validation' ? `${modelConfig.validation.folds} folds` : 'train/test split'} and ranks them.
+            </p>
+            <label className="block">
+              <span className="block mb-1 text-xs font-medium text-gray-600">Hyperparameter Search</span>
+              <select
+                value={autoMLOptions.search}
+                onChange={(e) => setAutoMLOptions({ ...autoMLOptions, search: e.target.value as AutoMLOptions['search'] })}
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2"
+              >
+                <option value="none">None (current hyperparameters)</option>
+                <option value="grid">Small grid search</option>
+                <option value="random">Random search</option>
+              </select>
+            </label>
+            {autoMLOptions.search === 'random' && (
+              <label className="block">
+                <span className="block mb-1 text-xs font-medium text-gray-600">Trials per Algorithm</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={autoMLOptions.randomTrials}
+                  onChange={(e) => setAutoMLOptions({ ...autoMLOptions, randomTrials: Math.min(20, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg block w-full p-2"
+                />
+              </label>
+            )}
+            <div className="text-xs text-gray-400">
+              {buildCandidates(modelConfig.taskType, modelConfig.hyperparameters, autoMLOptions, modelConfig.validation.seed).length} candidate models will be trained.
+            </div>
           </div>
-        ))}
-      </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 gap-4 mb-8">
+              {ALGORITHMS.filter(algo => algo.tasks.includes(modelConfig.taskType)).map((algo) => (
+                <div 
+                  key={algo.id}
+                  onClick={() => setModelConfig({...modelConfig, algorithm: algo.id})}
+                  className={`p-4 border rounded-lg cursor-pointer text-left transition-all ${
+                    modelConfig.algorithm === algo.id 
+                      ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-200' 
+                      : 'border-gray-200 hover:border-blue-300'
+                  }`}
+                >
+                  <div className="font-bold text-gray-900">{algo.name}</div>
+                  <div className="text-sm text-gray-500">{algo.desc}</div>
+                </div>
+              ))}
+            </div>
+
+            {HYPERPARAMETER_FIELDS[modelConfig.algorithm] && (
+              <div className="mb-8 text-left">
+                <h3 className="text-sm font-bold text-gray-900 mb-3">Hyperparameters</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {HYPERPARAMETER_FIELDS[modelConfig.algorithm]!.map(field => {
+                    const group = modelConfig.hyperparameters[field.group] as unknown as Record<string, number>;
+                    return (
+                      <label key={field.key} className="block">
+                        <span className="block mb-1 text-xs font-medium text-gray-600">{field.label}</span>
+                        <input
+                          type="number"
+                          min={field.min}
+                          max={field.max}
+                          step={field.step}
+                          value={group[field.key]}
+                          onChange={(e) => handleHyperparameterChange(field, parseFloat(e.target.value))}
+                          className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2"
+                        />
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </>
+        )}
 
-      <button 
-        onClick={handleTrain}
-        className="w-full text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 font-bold rounded-lg text-lg px-5 py-4 shadow-lg transform transition hover:scale-[1.02]"
-      >
-        {isTraining ? 'Training Model...' : 'Start Training'}
-      </button>
+        {preflightWarnings && !isTraining && (
+          <PreflightChecks
+            warnings={preflightWarnings}
+            onFix={handlePreflightFix}
+            onContinue={handleContinueTraining}
+            onDismiss={() => setPreflightWarnings(null)}
+          />
+        )}
+
+        <button 
+          onClick={handleStartTraining}
+          disabled={isTraining}
+          className="w-full text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 font-bold rounded-lg text-lg px-5 py-4 shadow-lg transform transition hover:scale-[1.02]"
+        >
+          {isTraining ? 'Training Model...' : trainingMode === 'automl' ? 'Run All Algorithms' : 'Start Training'}
+        </button>
       
-      {isTraining && (
-         <div className="mt-4 text-sm text-gray-500 animate-pulse">
-           Optimizing weights... Validating on test set...
-         </div>
+        {isTraining && (
+          <TrainingProgressPanel
+            progress={trainingProgress}
+            lossPoints={lossPoints}
+            startedAt={trainingStartedAt}
+            onCancel={handleCancelTraining}
+          />
+        )}
+      </div>
+
+      {leaderboard && (
+        <div className="max-w-5xl mx-auto">
+          <Leaderboard
+            entries={leaderboard.entries}
+            sortMetric={leaderboardMetric}
+            onSortMetricChange={setLeaderboardMetric}
+            activeId={activeEntryId}
+            onPromote={handlePromoteEntry}
+          />
+        </div>
       )}
     </div>
   );
@@ -409,63 +1379,33 @@ export default function App() {
   const StepResults = () => {
     if (!metrics) return null;
 
-    // Prepare chart data (subset for performance if needed)
-    const chartData = metrics.predictions.slice(0, 100).map((p, i) => ({
-      index: i,
-      actual: parseFloat(p.actual.toFixed(2)),
-      predicted: parseFloat(p.predicted.toFixed(2))
-    }));
-
     return (
       <div className="space-y-8">
-        {/* Metrics Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-            <div className="text-sm text-gray-500 uppercase tracking-wide">R² Score</div>
-            <div className="text-3xl font-bold text-blue-600 mt-2">{metrics.r2.toFixed(4)}</div>
-            <div className="text-xs text-gray-400 mt-1">1.0 is perfect correlation</div>
-          </div>
-          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-            <div className="text-sm text-gray-500 uppercase tracking-wide">Mean Squared Error</div>
-            <div className="text-3xl font-bold text-gray-800 mt-2">{metrics.mse.toFixed(4)}</div>
-            <div className="text-xs text-gray-400 mt-1">Lower is better</div>
-          </div>
-          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-            <div className="text-sm text-gray-500 uppercase tracking-wide">Model Type</div>
-            <div className="text-lg font-bold text-gray-800 mt-2 capitalize">{modelConfig.algorithm.replace('_', ' ')}</div>
-            <div className="text-xs text-gray-400 mt-1">{modelConfig.featureColumns.length} Features</div>
-          </div>
-        </div>
+        {metrics.task === 'classification' ? (
+          <ClassificationResults
+            metrics={metrics}
+            algorithm={modelConfig.algorithm}
+            featureCount={modelConfig.featureColumns.length}
+          />
+        ) : (
+          <RegressionResults
+            metrics={metrics}
+            algorithm={modelConfig.algorithm}
+            featureCount={modelConfig.featureColumns.length}
+          />
+        )}
 
-        {/* Charts */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 h-96">
-            <h3 className="font-bold mb-4 text-gray-700">Actual vs Predicted (First 100 Test Samples)</h3>
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                <XAxis dataKey="index" hide />
-                <YAxis />
-                <RechartsTooltip />
-                <Legend />
-                <Line type="monotone" dataKey="actual" stroke="#9ca3af" dot={false} strokeWidth={2} />
-                <Line type="monotone" dataKey="predicted" stroke="#2563eb" dot={false} strokeWidth={2} />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 h-96">
-            <h3 className="font-bold mb-4 text-gray-700">Prediction Scatter Plot</h3>
-             <ResponsiveContainer width="100%" height="100%">
-              <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
-                <CartesianGrid />
-                <XAxis type="number" dataKey="actual" name="Actual" unit="" label={{ value: 'Actual', position: 'insideBottom', offset: -10 }} />
-                <YAxis type="number" dataKey="predicted" name="Predicted" unit="" label={{ value: 'Predicted', angle: -90, position: 'insideLeft' }} />
-                <RechartsTooltip cursor={{ strokeDasharray: '3 3' }} />
-                <Scatter name="Values" data={chartData} fill="#3b82f6" fillOpacity={0.6} />
-              </ScatterChart>
-            </ResponsiveContainer>
-          </div>
-        </div>
+        {metrics.model && (
+          <React.Fragment key={modelConfig.featureColumns.join('\u0000')}>
+            <WhatIfPanel model={metrics.model} config={modelConfig} stats={columnStats} />
+          </React.Fragment>
+        )}
+
+        {metrics.explanations && <FeatureExplanations explanations={metrics.explanations} />}
+
+        {metrics.model?.coefficients && <CoefficientTable table={metrics.model.coefficients} targetTransform={metrics.model.preprocessing.targetTransform} />}
+
+        {metrics.crossValidation && <CrossValidationTable summary={metrics.crossValidation} />}
 
         {/* AI Advisor Section */}
         <div className="bg-gradient-to-r from-indigo-50 to-purple-50 p-8 rounded-xl border border-indigo-100">
@@ -476,24 +1416,78 @@ export default function App() {
               </h3>
               <p className="text-indigo-600 mt-2">Get personalized tips to improve your model's performance.</p>
             </div>
-            {!geminiTips && (
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowAdvisorSettings(!showAdvisorSettings)}
+                className="text-sm text-indigo-700 hover:underline"
+              >
+                {showAdvisorSettings ? 'Hide settings' : `Settings (${ADVISOR_PROVIDERS.find(p => p.id === llmSettings.provider)!.name})`}
+              </button>
               <button 
                 onClick={handleGetTips}
-                disabled={isLoadingTips}
+                disabled={isLoadingTips || promptReview !== null}
                 className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition disabled:opacity-50"
               >
-                {isLoadingTips ? 'Analyzing...' : 'Generate Insights'}
+                {isLoadingTips ? 'Analyzing...' : geminiTips ? 'Regenerate' : 'Generate Insights'}
               </button>
-            )}
+            </div>
           </div>
+
+          {showAdvisorSettings && (
+            <div className="mt-6">
+              <AdvisorSettingsPanel settings={llmSettings} onChange={handleLLMSettingsChange} />
+            </div>
+          )}
+
+          {promptReview && (
+            <div className="mt-6">
+              <PromptPreview
+                prompt={promptReview.prompt}
+                settings={llmSettings}
+                onSend={() => handleReviewPrompt(true)}
+                onCancel={() => handleReviewPrompt(false)}
+              />
+            </div>
+          )}
           
           {geminiTips && (
-            <div className="mt-6 p-6 bg-white rounded-lg shadow-sm text-gray-700 prose max-w-none">
-              <div dangerouslySetInnerHTML={{ __html: geminiTips.replace(/\n/g, '<br/>').replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') }} />
+            <div className="mt-6">
+              <AdvisorTips tips={geminiTips} onApply={handleApplyTip} disabled={isTraining} />
+            </div>
+          )}
+
+          <div className="mt-6">
+            <h4 className="font-bold text-indigo-900 mb-2">Ask the Advisor</h4>
+            <AdvisorChat messages={advisorChat} streaming={isChatStreaming || promptReview !== null} onSend={handleSendChat} />
+          </div>
+
+          {isTraining && (
+            <div className="mt-6">
+              <TrainingProgressPanel
+                progress={trainingProgress}
+                lossPoints={lossPoints}
+                startedAt={trainingStartedAt}
+                onCancel={handleCancelTraining}
+              />
             </div>
           )}
         </div>
 
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-gray-700">Use This Model</h3>
+            <p className="text-sm text-gray-500">Download it with its preprocessing as a JSON file, or score a new CSV with it right away.</p>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={handleDownloadModel} className="text-sm px-4 py-2 rounded-lg border border-blue-200 text-blue-700 hover:bg-blue-50">
+              Download Model
+            </button>
+            <button onClick={handleScoreWithModel} className="text-sm px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700">
+              Score New Data
+            </button>
+          </div>
+        </div>
+
         <div className="flex justify-center mt-8">
             <button 
                 onClick={() => window.location.reload()}
@@ -519,19 +1513,39 @@ export default function App() {
                     <p className="text-xs text-gray-500">React + Tailwind + Gemini</p>
                 </div>
             </div>
+            <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+              {([['build', 'Build'], ['predict', 'Predict'], ['history', `History (${experiments.length})`]] as [typeof mode, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  className={`px-4 py-1.5 text-sm ${mode === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4">
-        {renderProgressBar()}
-
-        <div className="mt-8 transition-all duration-300">
-          {currentStep === AppStep.UPLOAD && <StepUpload />}
-          {currentStep === AppStep.CLEANING && <StepCleaning />}
-          {currentStep === AppStep.CONFIGURATION && <StepConfiguration />}
-          {currentStep === AppStep.MODEL_SELECTION && <StepModelSelection />}
-          {currentStep === AppStep.RESULTS && <StepResults />}
-        </div>
+        {mode === 'predict' ? (
+          <PredictMode artifact={predictArtifact} onArtifactChange={setPredictArtifact} />
+        ) : mode === 'history' ? (
+          <ExperimentHistory experiments={experiments} onDelete={handleDeleteExperiment} onClear={handleClearExperiments} />
+        ) : (
+          <>
+            {renderProgressBar()}
+
+            <div className="mt-8 transition-all duration-300">
+              {currentStep === AppStep.UPLOAD && StepUpload()}
+              {currentStep === AppStep.CLEANING && StepCleaning()}
+              {currentStep === AppStep.FEATURE_ENGINEERING && StepFeatureEngineering()}
+              {currentStep === AppStep.CONFIGURATION && StepConfiguration()}
+              {currentStep === AppStep.MODEL_SELECTION && StepModelSelection()}
+              {currentStep === AppStep.RESULTS && StepResults()}
+            </div>
+          </>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage } from '../types';
+
+const STARTER_QUESTIONS = [
+  'Which features matter most, and why?',
+  'Is this model overfitting?',
+  'Why would a log transform help here?',
+];
+
+export default function AdvisorChat({ messages, streaming, onSend }: {
+  messages: ChatMessage[];
+  streaming: boolean; // a reply is arriving in the last message
+  onSend: (text: string) => Promise<boolean>; // false when the message could not be sent
+}) {
+  const [draft, setDraft] = useState('');
+  const bottom = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages]);
+
+  const send = (text: string) => {
+    const message = text.trim();
+    if (!message || streaming) return;
+    setDraft('');
+    // Put the question back so it can be retried
+    onSend(message).then(sent => { if (!sent) setDraft(message); });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-indigo-100">
+      <div className="p-4 max-h-96 overflow-y-auto space-y-3">
+        {messages.length === 0 ? (
+          <div>
+            <p className="text-sm text-gray-500 mb-3">Ask the advisor about this model. It knows the data profile, settings and metrics.</p>
+            <div className="flex flex-wrap gap-2">
+              {STARTER_QUESTIONS.map(q => (
+                <button
+                  key={q}
+                  onClick={() => send(q)}
+                  className="text-xs px-3 py-1.5 rounded-full border border-indigo-200 text-indigo-700 hover:bg-indigo-50"
+                >
+                  {q}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          messages.map((message, i) => (
+            <div key={i} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] px-4 py-2 rounded-lg text-sm whitespace-pre-wrap ${
+                  message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                {message.text || (streaming && i === messages.length - 1 ? <span className="text-gray-400">Thinking...</span> : null)}
+              </div>
+            </div>
+          ))
+        )}
+        <div ref={bottom} />
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+        className="flex gap-2 p-3 border-t border-gray-100"
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Ask a follow-up question..."
+          className="flex-1 bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-2"
+        />
+        <button
+          type="submit"
+          disabled={streaming || draft.trim() === ''}
+          className="bg-indigo-600 text-white text-sm px-4 py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {streaming ? 'Replying...' : 'Send'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import React from 'react';
+import { AdvisorProviderId, LLMSettings } from '../types';
+import { ADVISOR_PROVIDERS, MAX_OUTPUT_TOKENS_RANGE, TEMPERATURE_RANGE, TOKEN_BUDGET_RANGE } from '../services/advisorService';
+
+const clamp = (value: number, range: { min: number; max: number }) => Math.min(range.max, Math.max(range.min, value));
+
+export default function AdvisorSettingsPanel({ settings, onChange }: {
+  settings: LLMSettings;
+  onChange: (settings: LLMSettings) => void;
+}) {
+  const update = (patch: Partial<LLMSettings>) => onChange({ ...settings, ...patch });
+
+  // Each provider starts on its own default model
+  const selectProvider = (provider: AdvisorProviderId) =>
+    update({ provider, model: ADVISOR_PROVIDERS.find(p => p.id === provider)!.defaultModel });
+
+  return (
+    <div className="p-5 bg-white rounded-lg shadow-sm border border-indigo-100 space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {ADVISOR_PROVIDERS.map(provider => (
+          <button
+            key={provider.id}
+            onClick={() => selectProvider(provider.id)}
+            className={`p-3 rounded-lg border text-left ${settings.provider === provider.id ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:border-indigo-300'}`}
+          >
+            <div className="font-medium text-gray-800 text-sm">{provider.name}</div>
+            <div className="text-xs text-gray-500 mt-1">{provider.desc}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        {settings.provider !== 'mock' && (
+          <label className="block">
+            <span className="block font-medium text-gray-700 mb-1">Model</span>
+            <input
+              type="text"
+              value={settings.model}
+              onChange={(e) => update({ model: e.target.value })}
+              className="bg-gray-50 border border-gray-300 text-gray-900 rounded-lg w-full p-2 font-mono"
+            />
+          </label>
+        )}
+
+        {settings.provider === 'openai_compatible' && (
+          <>
+            <label className="block">
+              <span className="block font-medium text-gray-700 mb-1">Base URL</span>
+              <input
+                type="url"
+                value={settings.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className="bg-gray-50 border border-gray-300 text-gray-900 rounded-lg w-full p-2 font-mono"
+              />
+            </label>
+            <label className="block">
+              <span className="block font-medium text-gray-700 mb-1">API key <span className="font-normal text-gray-400">(optional, not saved)</span></span>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                autoComplete="off"
+                className="bg-gray-50 border border-gray-300 text-gray-900 rounded-lg w-full p-2"
+              />
+            </label>
+          </>
+        )}
+
+        {settings.provider !== 'mock' && (
+          <>
+            <label className="block">
+              <span className="block font-medium text-gray-700 mb-1">Temperature: {settings.temperature.toFixed(1)}</span>
+              <input
+                type="range"
+                min={TEMPERATURE_RANGE.min}
+                max={TEMPERATURE_RANGE.max}
+                step={TEMPERATURE_RANGE.step}
+                value={settings.temperature}
+                onChange={(e) => update({ temperature: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label className="block">
+              <span className="block font-medium text-gray-700 mb-1">Max output tokens</span>
+              <input
+                type="number"
+                min={MAX_OUTPUT_TOKENS_RANGE.min}
+                max={MAX_OUTPUT_TOKENS_RANGE.max}
+                step={MAX_OUTPUT_TOKENS_RANGE.step}
+                value={settings.maxOutputTokens}
+                onChange={(e) => {
+                  const parsed = parseInt(e.target.value, 10);
+                  if (Number.isFinite(parsed)) update({ maxOutputTokens: clamp(parsed, MAX_OUTPUT_TOKENS_RANGE) });
+                }}
+                className="bg-gray-50 border border-gray-300 text-gray-900 rounded-lg w-full p-2"
+              />
+            </label>
+          </>
+        )}
+
+        <label className="block">
+          <span className="block font-medium text-gray-700 mb-1">Prompt budget (tokens)</span>
+          <input
+            type="number"
+            min={TOKEN_BUDGET_RANGE.min}
+            max={TOKEN_BUDGET_RANGE.max}
+            step={TOKEN_BUDGET_RANGE.step}
+            value={settings.tokenBudget}
+            onChange={(e) => {
+              const parsed = parseInt(e.target.value, 10);
+              if (Number.isFinite(parsed)) update({ tokenBudget: clamp(parsed, TOKEN_BUDGET_RANGE) });
+            }}
+            className="bg-gray-50 border border-gray-300 text-gray-900 rounded-lg w-full p-2"
+          />
+          <span className="block text-xs text-gray-400 mt-1">The data summary is trimmed, least useful lines first, to fit.</span>
+        </label>
+      </div>
+
+      <div className="space-y-2 text-sm border-t border-gray-100 pt-4">
+        <label className="flex items-start gap-2">
+          <input
+            type="checkbox"
+            checked={settings.privacyMode}
+            onChange={(e) => update({ privacyMode: e.target.checked })}
+            className="mt-1"
+          />
+          <span>
+            <span className="font-medium text-gray-700">Privacy mode</span>
+            <span className="block text-xs text-gray-500">Send placeholders such as column_1 instead of column names and class labels, and leave out raw values (ranges, common values, formulas). Answers are shown with the real names.</span>
+          </span>
+        </label>
+        <label className="flex items-start gap-2">
+          <input
+            type="checkbox"
+            checked={settings.reviewPrompts}
+            onChange={(e) => update({ reviewPrompts: e.target.checked })}
+            className="mt-1"
+          />
+          <span>
+            <span className="font-medium text-gray-700">Show the exact prompt before sending</span>
+            <span className="block text-xs text-gray-500">Each tips request and chat message waits for you to review and send it.</span>
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+}
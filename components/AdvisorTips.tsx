@@ -0,0 +1,46 @@
+import React from 'react';
+import { AdvisorImpact, AdvisorTip } from '../types';
+import { ADVISOR_CATEGORY_LABELS, ADVISOR_IMPACT_LABELS, describeAdvisorAction } from '../utils/advisor';
+
+const IMPACT_STYLES: Record<AdvisorImpact, string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-600',
+};
+
+export default function AdvisorTips({ tips, onApply, disabled }: {
+  tips: AdvisorTip[];
+  onApply: (tip: AdvisorTip) => void;
+  disabled: boolean; // while a model is training
+}) {
+  if (tips.length === 0) {
+    return <p className="text-sm text-gray-500">The advisor had no suggestions for this model.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {tips.map((tip, i) => (
+        <div key={i} className="p-5 bg-white rounded-lg shadow-sm border border-indigo-100 flex flex-col">
+          <div className="flex flex-wrap gap-2 mb-2">
+            <span className="text-xs px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-800">{ADVISOR_CATEGORY_LABELS[tip.category]}</span>
+            <span className={`text-xs px-2 py-0.5 rounded-full ${IMPACT_STYLES[tip.expectedImpact]}`}>{ADVISOR_IMPACT_LABELS[tip.expectedImpact]}</span>
+          </div>
+          <h4 className="font-bold text-gray-800 mb-1">{tip.title}</h4>
+          <p className="text-sm text-gray-600 flex-1">{tip.rationale}</p>
+          <div className="flex items-center justify-between mt-4 pt-3 border-t border-gray-100">
+            <span className="text-xs text-gray-500">{describeAdvisorAction(tip.action)}</span>
+            {tip.action.type !== 'none' && (
+              <button
+                onClick={() => onApply(tip)}
+                disabled={disabled}
+                className="text-sm px-3 py-1.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 shrink-0 ml-3"
+              >
+                Apply and retrain
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React from 'react';
+import { ClassificationMetrics, CurvePoint } from '../types';
+import { generalizationGap, OVERFITTING_GAP } from '../utils/metrics';
+import {
+  CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, LineChart, Line, XAxis, YAxis, ReferenceLine
+} from 'recharts';
+import MetricCard from './MetricCard';
+
+const MAX_CURVE_POINTS = 200;
+
+// Keeps the curve shape while bounding the number of rendered points
+const thinCurve = (curve: CurvePoint[]): CurvePoint[] => {
+  if (curve.length <= MAX_CURVE_POINTS) return curve;
+  const step = Math.ceil(curve.length / MAX_CURVE_POINTS);
+  return curve.filter((_, i) => i % step === 0 || i === curve.length - 1);
+};
+
+const CurveChart = ({ title, curve, xLabel, yLabel, diagonal }: {
+  title: string;
+  curve: CurvePoint[];
+  xLabel: string;
+  yLabel: string;
+  diagonal?: boolean;
+}) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 h-96">
+    <h3 className="font-bold mb-4 text-gray-700">{title}</h3>
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={thinCurve(curve)} margin={{ top: 10, right: 20, bottom: 30, left: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis type="number" dataKey="x" domain={[0, 1]} tickFormatter={(v: number) => v.toFixed(1)} label={{ value: xLabel, position: 'insideBottom', offset: -15 }} />
+        <YAxis type="number" domain={[0, 1]} tickFormatter={(v: number) => v.toFixed(1)} label={{ value: yLabel, angle: -90, position: 'insideLeft' }} />
+        <RechartsTooltip formatter={(v: number) => v.toFixed(3)} labelFormatter={(v: number) => `${xLabel}: ${Number(v).toFixed(3)}`} />
+        {diagonal && <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#d1d5db" strokeDasharray="4 4" />}
+        <Line type="linear" dataKey="y" name={yLabel} stroke="#2563eb" dot={false} strokeWidth={2} />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+export default function ClassificationResults({ metrics, algorithm, featureCount }: {
+  metrics: ClassificationMetrics;
+  algorithm: string;
+  featureCount: number;
+}) {
+  const maxCell = Math.max(1, ...metrics.confusionMatrix.flat());
+  const averagingNote = metrics.averaging === 'binary' ? `for class "${metrics.positiveClass}"` : 'macro average over classes';
+  const gap = generalizationGap(metrics);
+
+  return (
+    <div className="space-y-8">
+      {/* Metrics Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <MetricCard label="Accuracy" value={metrics.accuracy.toFixed(4)} hint="Share of correct predictions" highlight />
+        <MetricCard label="F1 Score" value={metrics.f1.toFixed(4)} hint={averagingNote} />
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="text-sm text-gray-500 uppercase tracking-wide">Model Type</div>
+          <div className="text-lg font-bold text-gray-800 mt-2 capitalize">{algorithm.replace(/_/g, ' ')}</div>
+          <div className="text-xs text-gray-400 mt-1">{featureCount} Features, {metrics.classes.length} Classes</div>
+        </div>
+        <MetricCard label="Precision" value={metrics.precision.toFixed(4)} hint={averagingNote} />
+        <MetricCard label="Recall" value={metrics.recall.toFixed(4)} hint={averagingNote} />
+        <MetricCard label="Log Loss" value={metrics.logLoss.toFixed(4)} hint="Lower is better" />
+        {gap && (
+          <MetricCard
+            label="Train − Test Accuracy"
+            value={gap.gap.toFixed(4)}
+            hint={`Train ${gap.train.toFixed(4)} vs test ${gap.test.toFixed(4)}${gap.gap > OVERFITTING_GAP ? ': likely overfitting' : ''}`}
+            warning={gap.gap > OVERFITTING_GAP}
+          />
+        )}
+      </div>
+
+      {/* Confusion Matrix */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <h3 className="font-bold mb-4 text-gray-700">Confusion Matrix (rows = actual, columns = predicted)</h3>
+        <div className="overflow-x-auto">
+          <table className="text-sm text-center">
+            <thead>
+              <tr>
+                <th className="px-4 py-2"></th>
+                {metrics.classes.map(c => <th key={c} className="px-4 py-2 text-xs text-gray-700">{c}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.confusionMatrix.map((row, i) => (
+                <tr key={metrics.classes[i]}>
+                  <th className="px-4 py-2 text-xs text-gray-700 text-right">{metrics.classes[i]}</th>
+                  {row.map((count, j) => (
+                    <td
+                      key={j}
+                      className={`px-4 py-2 border ${i === j ? 'font-bold' : ''}`}
+                      style={{ backgroundColor: `rgba(${i === j ? '37, 99, 235' : '239, 68, 68'}, ${(count / maxCell) * 0.6})` }}
+                    >
+                      {count}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Curves */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <CurveChart
+          title={`ROC Curve: "${metrics.positiveClass}" vs rest (AUC ${metrics.rocAuc.toFixed(3)})`}
+          curve={metrics.rocCurve}
+          xLabel="False Positive Rate"
+          yLabel="True Positive Rate"
+          diagonal
+        />
+        <CurveChart
+          title={`Precision-Recall Curve (AP ${metrics.averagePrecision.toFixed(3)})`}
+          curve={metrics.prCurve}
+          xLabel="Recall"
+          yLabel="Precision"
+        />
+      </div>
+    </div>
+  );
+}
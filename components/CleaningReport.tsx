@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { CleaningResult, DataRow } from '../types';
+import { CLEANING_OPERATION_LABELS, diffCleaning, RowDiff } from '../utils/cleaning';
+
+const PAGE_SIZE = 25;
+const MAX_LISTED_ROWS = 10;
+
+// Rows are shown 1-based, matching the order of the uploaded file
+const listRows = (rows: number[]) =>
+  rows.length === 0
+    ? '—'
+    : rows.slice(0, MAX_LISTED_ROWS).map(i => i + 1).join(', ') + (rows.length > MAX_LISTED_ROWS ? ` and ${rows.length - MAX_LISTED_ROWS} more` : '');
+
+const formatValue = (value: string | number) =>
+  typeof value === 'number' ? (Number.isInteger(value) ? String(value) : value.toPrecision(6)) : `"${value}"`;
+
+const formatCell = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined || value === '') return <span className="text-gray-300 italic">empty</span>;
+  return typeof value === 'number' ? formatValue(value) : value;
+};
+
+export default function CleaningReport({ rawData, result }: { rawData: DataRow[]; result: CleaningResult }) {
+  const [open, setOpen] = useState(true);
+  const [filter, setFilter] = useState<'all' | RowDiff['status']>('all');
+  const [page, setPage] = useState(0);
+
+  const diffs: RowDiff[] = useMemo(() => diffCleaning(rawData, result), [rawData, result]);
+  const columns = Object.keys(rawData[0] ?? {});
+  const addedColumns = result.audit.map(entry => entry.addedColumn).filter((c): c is string => !!c);
+  const shown = diffs.filter(d => filter === 'all' || d.status === filter);
+  const pageCount = Math.max(1, Math.ceil(shown.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = shown.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const removedCount = diffs.filter(d => d.status === 'removed').length;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Cleaning Report</h3>
+          <p className="text-sm text-gray-500">
+            {rawData.length} rows in, {result.data.length} rows out: {removedCount} removed, {diffs.length - removedCount} modified.
+            {addedColumns.length > 0 && ` Added columns: ${addedColumns.join(', ')}.`}
+          </p>
+        </div>
+        <button onClick={() => setOpen(!open)} className="text-sm text-blue-600 hover:underline">
+          {open ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-6 space-y-8">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-500">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2">Operation</th>
+                  <th className="px-4 py-2">Column</th>
+                  <th className="px-4 py-2">Method</th>
+                  <th className="px-4 py-2 text-right">Rows affected</th>
+                  <th className="px-4 py-2">Fill value / details</th>
+                  <th className="px-4 py-2">Rows</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.audit.map((entry, i) => (
+                  <tr key={i} className="bg-white border-b">
+                    <td className="px-4 py-2 font-medium text-gray-900">{CLEANING_OPERATION_LABELS[entry.operation]}</td>
+                    <td className="px-4 py-2">{entry.column ?? 'all'}</td>
+                    <td className="px-4 py-2">{entry.method.replace(/_/g, ' ')}</td>
+                    <td className={`px-4 py-2 text-right font-bold ${entry.rows.length > 0 ? 'text-gray-900' : 'text-gray-400'}`}>{entry.rows.length}</td>
+                    <td className="px-4 py-2 text-xs">
+                      {[
+                        entry.fillValue !== undefined ? `value ${formatValue(entry.fillValue)}` : null,
+                        entry.addedColumn ? `column ${entry.addedColumn}` : null,
+                        entry.detail ?? null,
+                      ].filter(Boolean).join('; ') || '—'}
+                    </td>
+                    <td className="px-4 py-2 text-xs font-mono">
+                      {entry.operation === 'deduplicate' && entry.duplicateOf
+                        ? entry.rows.length === 0
+                          ? '—'
+                          : entry.rows.slice(0, MAX_LISTED_ROWS).map((row, k) => `${row + 1} (= ${entry.duplicateOf![k] + 1})`).join(', ')
+                            + (entry.rows.length > MAX_LISTED_ROWS ? ` and ${entry.rows.length - MAX_LISTED_ROWS} more` : '')
+                        : listRows(entry.rows)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-bold text-gray-700">Row-level Diff</h4>
+              <select
+                value={filter}
+                onChange={(e) => { setFilter(e.target.value as 'all' | RowDiff['status']); setPage(0); }}
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5"
+              >
+                <option value="all">All changed rows ({diffs.length})</option>
+                <option value="modified">Modified ({diffs.length - removedCount})</option>
+                <option value="removed">Removed ({removedCount})</option>
+              </select>
+            </div>
+            {shown.length === 0 ? (
+              <span className="text-sm text-gray-500">No rows to show.</span>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs text-left text-gray-600">
+                    <thead className="text-gray-700 uppercase bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2">Row</th>
+                        <th className="px-3 py-2">Status</th>
+                        {columns.map(col => <th key={col} className="px-3 py-2">{col}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pageRows.map(diff => (
+                        <tr key={diff.source} className={`border-b ${diff.status === 'removed' ? 'bg-red-50' : 'bg-white'}`}>
+                          <td className="px-3 py-2 font-mono">{diff.source + 1}</td>
+                          <td className="px-3 py-2">
+                            {diff.status === 'removed'
+                              ? <span className="text-red-600" title={diff.reason ?? undefined}>Removed{diff.reason ? `: ${diff.reason}` : ''}</span>
+                              : <span className="text-blue-600">Modified</span>}
+                          </td>
+                          {columns.map(col => (
+                            <td key={col} className="px-3 py-2 whitespace-nowrap">
+                              {diff.status === 'removed' ? (
+                                <span className="line-through text-red-400">{formatCell(diff.before[col])}</span>
+                              ) : diff.changedColumns.includes(col) ? (
+                                <>
+                                  <span className="line-through text-red-400">{formatCell(diff.before[col])}</span>
+                                  {' → '}
+                                  <span className="text-green-700 font-semibold">{formatCell(diff.after?.[col])}</span>
+                                </>
+                              ) : (
+                                formatCell(diff.before[col])
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {pageCount > 1 && (
+                  <div className="flex items-center justify-end gap-3 mt-3 text-sm text-gray-600">
+                    <button disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)} className="disabled:text-gray-300">Previous</button>
+                    <span>Page {currentPage + 1} of {pageCount}</span>
+                    <button disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)} className="disabled:text-gray-300">Next</button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
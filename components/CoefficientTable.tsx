@@ -0,0 +1,70 @@
+import React from 'react';
+import { CoefficientTable as CoefficientTableData, FittedTargetTransform } from '../types';
+import { formatMetricValue } from '../utils/metrics';
+import { TARGET_TRANSFORM_LABELS } from '../utils/preprocessing';
+
+const formatCell = (value: number | null) => (value === null ? '—' : formatMetricValue(value));
+
+const formatPValue = (value: number | null) => {
+  if (value === null) return '—';
+  return value < 0.001 ? '< 0.001' : value.toFixed(3);
+};
+
+export default function CoefficientTable({ table, targetTransform }: {
+  table: CoefficientTableData;
+  targetTransform?: FittedTargetTransform | null;
+}) {
+  const level = Math.round(table.confidenceLevel * 100);
+  const aliased = table.rows.filter(row => row.aliased);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <h3 className="font-bold text-gray-700">Coefficients</h3>
+      <p className="text-xs text-gray-400 mb-4">
+        Exact least-squares fit. Standardized coefficients are in target standard deviations per feature standard deviation.
+        {' '}Residual standard error {formatCell(table.residualStandardError)} on {table.degreesOfFreedom} degrees of freedom.
+        {targetTransform && targetTransform.method !== 'none' && (
+          <>{' '}Coefficients are in units of the transformed target, {TARGET_TRANSFORM_LABELS[targetTransform.method]}
+            {targetTransform.method === 'box_cox' && ` with λ = ${targetTransform.lambda.toFixed(3)}`}.</>
+        )}
+      </p>
+      {aliased.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          Dropped for collinearity with earlier terms: {aliased.map(row => row.term).join(', ')}. Their coefficients are fixed at 0.
+        </div>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-4 py-2">Term</th>
+              <th className="px-4 py-2 text-right">Coefficient</th>
+              <th className="px-4 py-2 text-right">Standardized</th>
+              <th className="px-4 py-2 text-right">Std. Error</th>
+              <th className="px-4 py-2 text-right">t</th>
+              <th className="px-4 py-2 text-right">p-value</th>
+              <th className="px-4 py-2 text-right">{level}% CI</th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map(row => (
+              <tr key={row.term} className={`border-b ${row.aliased ? 'bg-gray-50 text-gray-400' : 'bg-white'}`}>
+                <td className="px-4 py-2 font-medium text-gray-900">{row.term}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatCell(row.coefficient)}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatCell(row.standardized)}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatCell(row.standardError)}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatCell(row.tStatistic)}</td>
+                <td className={`px-4 py-2 text-right font-mono ${row.pValue !== null && row.pValue < 0.05 ? 'text-gray-900 font-semibold' : ''}`}>
+                  {formatPValue(row.pValue)}
+                </td>
+                <td className="px-4 py-2 text-right font-mono">
+                  {row.ciLower === null || row.ciUpper === null ? '—' : `[${formatMetricValue(row.ciLower)}, ${formatMetricValue(row.ciUpper)}]`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
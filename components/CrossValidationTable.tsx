@@ -0,0 +1,44 @@
+import React from 'react';
+import { CrossValidationSummary } from '../types';
+import { METRIC_LABELS, formatMetricValue } from '../utils/metrics';
+
+export default function CrossValidationTable({ summary }: { summary: CrossValidationSummary }) {
+  const keys = Object.keys(summary.mean);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <h3 className="font-bold text-gray-700">{summary.folds.length}-Fold Cross-Validation</h3>
+      <p className="text-xs text-gray-400 mb-4">
+        Headline metrics and charts above use the pooled out-of-fold predictions. Each fold is scored below.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-4 py-2">Fold</th>
+              <th className="px-4 py-2">Train / Test Rows</th>
+              {keys.map(key => <th key={key} className="px-4 py-2 text-right">{METRIC_LABELS[key] ?? key}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {summary.folds.map(fold => (
+              <tr key={fold.fold} className="bg-white border-b">
+                <td className="px-4 py-2 font-medium text-gray-900">{fold.fold}</td>
+                <td className="px-4 py-2">{fold.trainSize} / {fold.testSize}</td>
+                {keys.map(key => <td key={key} className="px-4 py-2 text-right font-mono">{formatMetricValue(fold.metrics[key])}</td>)}
+              </tr>
+            ))}
+            <tr className="bg-blue-50 font-semibold text-gray-900">
+              <td className="px-4 py-2" colSpan={2}>Mean ± Std</td>
+              {keys.map(key => (
+                <td key={key} className="px-4 py-2 text-right font-mono">
+                  {formatMetricValue(summary.mean[key])} <span className="text-gray-500 font-normal">± {formatMetricValue(summary.std[key])}</span>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
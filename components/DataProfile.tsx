@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnStat, CorrelationMatrix, DataRow, NumericSummary, SemanticType } from '../types';
+import { correlationMatrix } from '../utils/profiling';
+import { formatMetricValue } from '../utils/metrics';
+import { BarChart, Bar, Tooltip as RechartsTooltip, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+
+const INITIAL_CARDS = 12;
+const FREQUENCY_BARS = 10;
+
+const SEMANTIC_TYPE_STYLES: Record<SemanticType, string> = {
+  integer: 'bg-blue-100 text-blue-800',
+  float: 'bg-blue-100 text-blue-800',
+  boolean: 'bg-green-100 text-green-800',
+  date: 'bg-purple-100 text-purple-800',
+  categorical: 'bg-yellow-100 text-yellow-800',
+  id: 'bg-gray-200 text-gray-700',
+  text: 'bg-orange-100 text-orange-800',
+};
+
+// Whiskers run to 1.5 IQR past the box, or to the data range if that is shorter
+const BoxPlot = ({ summary }: { summary: NumericSummary }) => {
+  const iqr = summary.q3 - summary.q1;
+  const low = Math.max(summary.min, summary.q1 - 1.5 * iqr);
+  const high = Math.min(summary.max, summary.q3 + 1.5 * iqr);
+  const range = summary.max - summary.min || 1;
+  const x = (v: number) => 4 + ((v - summary.min) / range) * 92;
+
+  return (
+    <svg viewBox="0 0 100 24" className="w-full h-8" preserveAspectRatio="none">
+      <line x1={x(low)} x2={x(summary.q1)} y1={12} y2={12} stroke="#6b7280" strokeWidth={0.5} />
+      <line x1={x(summary.q3)} x2={x(high)} y1={12} y2={12} stroke="#6b7280" strokeWidth={0.5} />
+      <line x1={x(low)} x2={x(low)} y1={7} y2={17} stroke="#6b7280" strokeWidth={0.5} />
+      <line x1={x(high)} x2={x(high)} y1={7} y2={17} stroke="#6b7280" strokeWidth={0.5} />
+      <rect x={x(summary.q1)} y={4} width={Math.max(0.5, x(summary.q3) - x(summary.q1))} height={16} fill="#bfdbfe" stroke="#3b82f6" strokeWidth={0.5} />
+      <line x1={x(summary.median)} x2={x(summary.median)} y1={4} y2={20} stroke="#1d4ed8" strokeWidth={1} />
+      {summary.min < low && <circle cx={x(summary.min)} cy={12} r={1} fill="#ef4444" />}
+      {summary.max > high && <circle cx={x(summary.max)} cy={12} r={1} fill="#ef4444" />}
+    </svg>
+  );
+};
+
+const StatLine = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex justify-between">
+    <span className="text-gray-400">{label}</span>
+    <span className="font-mono text-gray-700">{value}</span>
+  </div>
+);
+
+const ColumnCard = ({ stat, rowCount }: { stat: ColumnStat; rowCount: number }) => {
+  const frequencies = (stat.topValues ?? []).slice(0, FREQUENCY_BARS);
+  const showHistogram = stat.numeric && stat.histogram && stat.semanticType !== 'boolean';
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-gray-800 truncate" title={stat.name}>{stat.name}</h4>
+        <span className={`px-2 py-0.5 rounded text-xs ${SEMANTIC_TYPE_STYLES[stat.semanticType]}`}>{stat.semanticType}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 text-xs mb-3">
+        <StatLine label="Missing" value={`${stat.missingCount} (${((stat.missingCount / Math.max(1, rowCount)) * 100).toFixed(1)}%)`} />
+        <StatLine label="Distinct" value={String(stat.uniqueCount)} />
+        {stat.numeric && (
+          <>
+            <StatLine label="Min" value={formatMetricValue(stat.numeric.min)} />
+            <StatLine label="Max" value={formatMetricValue(stat.numeric.max)} />
+            <StatLine label="Mean" value={formatMetricValue(stat.numeric.mean)} />
+            <StatLine label="Std" value={formatMetricValue(stat.numeric.std)} />
+            <StatLine label="Skew" value={formatMetricValue(stat.numeric.skewness)} />
+            <StatLine label="Kurtosis" value={formatMetricValue(stat.numeric.kurtosis)} />
+          </>
+        )}
+      </div>
+
+      {showHistogram ? (
+        <>
+          <div className="h-32">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={stat.histogram} margin={{ top: 0, right: 0, bottom: 0, left: 0 }} barCategoryGap={1}>
+                <XAxis dataKey="start" hide />
+                <YAxis hide allowDecimals={false} />
+                <RechartsTooltip
+                  formatter={(v: number) => [v, 'Rows']}
+                  labelFormatter={(_: number, payload: { payload?: { start: number; end: number } }[]) => {
+                    const bin = payload?.[0]?.payload;
+                    return bin ? `${formatMetricValue(bin.start)} to ${formatMetricValue(bin.end)}` : '';
+                  }}
+                />
+                <Bar dataKey="count" fill="#3b82f6" isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <BoxPlot summary={stat.numeric!} />
+        </>
+      ) : (
+        <div style={{ height: Math.max(60, frequencies.length * 18 + 10) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={frequencies} layout="vertical" margin={{ top: 0, right: 10, bottom: 0, left: 0 }}>
+              <XAxis type="number" hide allowDecimals={false} />
+              <YAxis type="category" dataKey="value" width={90} tick={{ fontSize: 10 }} interval={0} />
+              <RechartsTooltip formatter={(v: number) => [v, 'Rows']} />
+              <Bar dataKey="count" fill="#f59e0b" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {!showHistogram && stat.uniqueCount > frequencies.length && (
+        <p className="text-xs text-gray-400 mt-1">Top {frequencies.length} of {stat.uniqueCount} values</p>
+      )}
+    </div>
+  );
+};
+
+const cellColor = (r: number) => {
+  if (!Number.isFinite(r)) return '#f3f4f6';
+  return r >= 0 ? `rgba(37, 99, 235, ${Math.abs(r)})` : `rgba(220, 38, 38, ${Math.abs(r)})`;
+};
+
+const CorrelationHeatmap = ({ matrix }: { matrix: CorrelationMatrix }) => (
+  <div className="overflow-x-auto">
+    <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+      <thead>
+        <tr>
+          <th />
+          {matrix.columns.map(col => (
+            <th key={col} className="px-1 font-normal text-gray-500 align-bottom" style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}>
+              {col}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {matrix.columns.map((row, i) => (
+          <tr key={row}>
+            <td className="pr-2 text-right text-gray-500 whitespace-nowrap">{row}</td>
+            {matrix.values[i].map((r, j) => (
+              <td
+                key={j}
+                title={`${row} × ${matrix.columns[j]}: ${Number.isFinite(r) ? r.toFixed(3) : 'undefined (constant column)'}`}
+                className={`w-10 h-10 text-center font-mono ${Math.abs(r) > 0.5 ? 'text-white' : 'text-gray-700'}`}
+                style={{ backgroundColor: cellColor(r) }}
+              >
+                {Number.isFinite(r) ? r.toFixed(2) : '—'}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default function DataProfile({ data, stats }: { data: DataRow[]; stats: ColumnStat[] }) {
+  const [method, setMethod] = useState<CorrelationMatrix['method']>('pearson');
+  const [showAll, setShowAll] = useState(false);
+  const matrix: CorrelationMatrix = useMemo(() => correlationMatrix(data, stats, method), [data, stats, method]);
+  const cards = showAll ? stats : stats.slice(0, INITIAL_CARDS);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {cards.map(stat => (
+          <React.Fragment key={stat.name}>
+            <ColumnCard stat={stat} rowCount={data.length} />
+          </React.Fragment>
+        ))}
+      </div>
+      {stats.length > INITIAL_CARDS && (
+        <button onClick={() => setShowAll(!showAll)} className="text-sm text-blue-600 hover:underline">
+          {showAll ? 'Show fewer columns' : `Show all ${stats.length} columns`}
+        </button>
+      )}
+
+      {matrix.columns.length >= 2 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="font-bold text-gray-700">Correlations</h3>
+              <p className="text-xs text-gray-400">
+                {method === 'pearson' ? 'Linear association.' : 'Rank (monotonic) association, robust to outliers.'}
+                {' '}Each pair uses the rows where both values are present. ID-like columns are left out.
+              </p>
+            </div>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as CorrelationMatrix['method'])}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5"
+            >
+              <option value="pearson">Pearson</option>
+              <option value="spearman">Spearman</option>
+            </select>
+          </div>
+          <CorrelationHeatmap matrix={matrix} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { Experiment } from '../types';
+import { settingDifferences } from '../utils/experiments';
+import { formatMetricValue, GAP_METRIC, LOWER_IS_BETTER, METRIC_LABELS, scalarMetrics } from '../utils/metrics';
+import { sampleEvenly } from '../utils/splitting';
+import {
+  CartesianGrid, Legend, LineChart, Line, ResponsiveContainer, ScatterChart, Scatter, Tooltip as RechartsTooltip, XAxis, YAxis
+} from 'recharts';
+
+const RUN_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#4b5563'];
+const MAX_POINTS_PER_RUN = 400;
+
+const runName = (index: number) => String.fromCharCode(65 + (index % 26));
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+const Swatch = ({ index }: { index: number }) => (
+  <span className="inline-block w-2.5 h-2.5 rounded-full mr-1.5" style={{ backgroundColor: RUN_COLORS[index % RUN_COLORS.length] }} />
+);
+
+const ChartCard = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 h-96">
+    <h3 className="font-bold mb-4 text-gray-700">{title}</h3>
+    <ResponsiveContainer width="100%" height="85%">{children}</ResponsiveContainer>
+  </div>
+);
+
+const RegressionOverlays = ({ runs }: { runs: Experiment[] }) => {
+  const series = runs.map(run => sampleEvenly(run.metrics.task === 'regression' ? run.metrics.predictions : [], MAX_POINTS_PER_RUN)
+    .map(p => ({ ...p, residual: p.actual - p.predicted })));
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <ChartCard title="Actual vs Predicted">
+        <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 20 }}>
+          <CartesianGrid />
+          <XAxis type="number" dataKey="actual" name="Actual" tickFormatter={(v: number) => formatMetricValue(v)} />
+          <YAxis type="number" dataKey="predicted" name="Predicted" tickFormatter={(v: number) => formatMetricValue(v)} />
+          <RechartsTooltip formatter={(v: number) => formatMetricValue(v)} />
+          <Legend />
+          {series.map((points, i) => (
+            <Scatter key={i} name={`Run ${runName(i)}`} data={points} fill={RUN_COLORS[i % RUN_COLORS.length]} fillOpacity={0.5} isAnimationActive={false} />
+          ))}
+        </ScatterChart>
+      </ChartCard>
+      <ChartCard title="Residuals vs Predicted">
+        <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 20 }}>
+          <CartesianGrid />
+          <XAxis type="number" dataKey="predicted" name="Predicted" tickFormatter={(v: number) => formatMetricValue(v)} />
+          <YAxis type="number" dataKey="residual" name="Residual" tickFormatter={(v: number) => formatMetricValue(v)} />
+          <RechartsTooltip formatter={(v: number) => formatMetricValue(v)} />
+          <Legend />
+          {series.map((points, i) => (
+            <Scatter key={i} name={`Run ${runName(i)}`} data={points} fill={RUN_COLORS[i % RUN_COLORS.length]} fillOpacity={0.5} isAnimationActive={false} />
+          ))}
+        </ScatterChart>
+      </ChartCard>
+    </div>
+  );
+};
+
+const ClassificationOverlays = ({ runs }: { runs: Experiment[] }) => (
+  <ChartCard title="ROC Curves">
+    <LineChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis type="number" dataKey="x" domain={[0, 1]} name="False positive rate" tickFormatter={(v: number) => v.toFixed(1)} />
+      <YAxis type="number" dataKey="y" domain={[0, 1]} tickFormatter={(v: number) => v.toFixed(1)} />
+      <RechartsTooltip formatter={(v: number) => v.toFixed(3)} />
+      <Legend />
+      {runs.map((run, i) => (
+        <Line
+          key={i}
+          data={run.metrics.task === 'classification' ? sampleEvenly(run.metrics.rocCurve, MAX_POINTS_PER_RUN) : []}
+          type="linear"
+          dataKey="y"
+          name={`Run ${runName(i)}`}
+          stroke={RUN_COLORS[i % RUN_COLORS.length]}
+          dot={false}
+          strokeWidth={2}
+          isAnimationActive={false}
+        />
+      ))}
+    </LineChart>
+  </ChartCard>
+);
+
+const Comparison = ({ runs }: { runs: Experiment[] }) => {
+  const differences = settingDifferences(runs);
+  const scores = runs.map(run => scalarMetrics(run.metrics));
+  const metricKeys = [...new Set(scores.flatMap(s => Object.keys(s)))];
+  const tasks = new Set(runs.map(run => run.metrics.task));
+  const summaryRuns = runs.map((run, i) => (run.metrics.predictions.length === 0 ? runName(i) : null)).filter(Boolean);
+
+  const best = (key: string): number | null => {
+    const values = scores.map(s => s[key]).filter(v => Number.isFinite(v));
+    if (values.length < 2) return null;
+    return LOWER_IS_BETTER.has(key) ? Math.min(...values) : Math.max(...values);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+          <h3 className="font-bold text-gray-700 mb-4">Settings That Differ</h3>
+          {differences.length === 0 ? (
+            <p className="text-sm text-gray-500">The selected runs used identical settings and data.</p>
+          ) : (
+            <table className="w-full text-sm text-left text-gray-500">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2">Setting</th>
+                  {runs.map((_, i) => <th key={i} className="px-3 py-2"><Swatch index={i} />{runName(i)}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {differences.map(diff => (
+                  <tr key={diff.setting} className="bg-white border-b align-top">
+                    <td className="px-3 py-2 font-mono text-xs text-gray-700">{diff.setting}</td>
+                    {diff.values.map((value, i) => <td key={i} className="px-3 py-2 text-xs break-words max-w-xs">{value}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+          <h3 className="font-bold text-gray-700 mb-4">Metrics</h3>
+          <table className="w-full text-sm text-left text-gray-500">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th className="px-3 py-2">Metric</th>
+                {runs.map((_, i) => <th key={i} className="px-3 py-2 text-right"><Swatch index={i} />{runName(i)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {metricKeys.map(key => {
+                const top = best(key);
+                return (
+                  <tr key={key} className="bg-white border-b">
+                    <td className="px-3 py-2 font-medium text-gray-900">{METRIC_LABELS[key] ?? key}</td>
+                    {scores.map((s, i) => (
+                      <td key={i} className={`px-3 py-2 text-right font-mono ${s[key] === top ? 'text-green-700 font-bold' : ''}`}>
+                        {key in s ? formatMetricValue(s[key]) : '—'}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {summaryRuns.length > 0 && tasks.size === 1 && (
+        <p className="text-sm text-gray-500">
+          No chart points for {summaryRuns.join(', ')}: AutoML keeps per-row results only for the best candidate of each search.
+        </p>
+      )}
+      {tasks.size > 1 ? (
+        <p className="text-sm text-gray-500">Charts are only overlaid for runs of the same task type.</p>
+      ) : tasks.has('regression') ? (
+        <RegressionOverlays runs={runs} />
+      ) : (
+        <ClassificationOverlays runs={runs} />
+      )}
+    </div>
+  );
+};
+
+export default function ExperimentHistory({ experiments, onDelete, onClear }: {
+  experiments: Experiment[]; // newest first
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const runs = selected
+    .map(id => experiments.find(e => e.id === id))
+    .filter((e): e is Experiment => e !== undefined);
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected(checked ? [...selected, id] : selected.filter(s => s !== id));
+
+  if (experiments.length === 0) {
+    return (
+      <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-200 max-w-2xl mx-auto text-center">
+        <h2 className="text-2xl font-bold mb-2 text-gray-800">No Experiments Yet</h2>
+        <p className="text-gray-500">Every model you train is recorded here, with its data, settings and metrics, so runs can be compared.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">Experiment History</h3>
+            <p className="text-sm text-gray-500">Select two or more runs to compare them.</p>
+          </div>
+          <button
+            onClick={() => {
+              if (!window.confirm(`Delete all ${experiments.length} recorded runs?`)) return;
+              setSelected([]);
+              onClear();
+            }}
+            className="text-sm text-red-600 hover:underline"
+          >
+            Clear history
+          </button>
+        </div>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm text-left text-gray-500">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2"></th>
+                <th className="px-3 py-2">When</th>
+                <th className="px-3 py-2">Dataset</th>
+                <th className="px-3 py-2">Target</th>
+                <th className="px-3 py-2">Algorithm</th>
+                <th className="px-3 py-2 text-right">Features</th>
+                <th className="px-3 py-2 text-right">Score</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {experiments.map(experiment => {
+                const index = selected.indexOf(experiment.id);
+                const metric = GAP_METRIC[experiment.metrics.task];
+                return (
+                  <tr key={experiment.id} className={`border-b ${index >= 0 ? 'bg-blue-50' : 'bg-white'}`}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={index >= 0}
+                        onChange={(e) => toggle(experiment.id, e.target.checked)}
+                        className="form-checkbox h-4 w-4 text-blue-600"
+                      />
+                      {index >= 0 && <span className="ml-2 text-xs font-bold"><Swatch index={index} />{runName(index)}</span>}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">{formatTime(experiment.createdAt)}</td>
+                    <td className="px-3 py-2" title={`Fingerprint ${experiment.dataset.fingerprint}`}>
+                      {experiment.dataset.name} <span className="text-xs text-gray-400 font-mono">{experiment.dataset.fingerprint.slice(0, 8)}</span>
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">{experiment.config.targetColumn}</td>
+                    <td className="px-3 py-2">
+                      {experiment.config.algorithm.replace(/_/g, ' ')}
+                      <span className="block text-xs text-gray-400">{experiment.label}</span>
+                    </td>
+                    <td className="px-3 py-2 text-right">{experiment.config.featureColumns.length}</td>
+                    <td className="px-3 py-2 text-right font-mono">
+                      {METRIC_LABELS[metric]} {formatMetricValue(scalarMetrics(experiment.metrics)[metric])}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => {
+                          setSelected(selected.filter(s => s !== experiment.id));
+                          onDelete(experiment.id);
+                        }}
+                        className="text-xs text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {runs.length >= 2 && <Comparison runs={runs} />}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnStat, DataRow, DerivedColumn } from '../types';
+import { columnReference, FUNCTIONS } from '../utils/expressions';
+import { applyDerivedColumns, compileDerivedColumns, PREVIEW_ROWS } from '../utils/featureEngineering';
+
+const inputClass = 'bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-2';
+
+const formatValue = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined || value === '') return '∅';
+  return typeof value === 'number' ? String(Number(value.toPrecision(6))) : value;
+};
+
+// Builds definitions for one of the quick-add templates, skipping names already taken
+const templateColumns = (template: 'log' | 'square' | 'interactions', columns: string[], taken: Set<string>): DerivedColumn[] => {
+  const candidates: DerivedColumn[] = template === 'interactions'
+    ? columns.flatMap((a, i) => columns.slice(i + 1).map(b => ({
+      name: `${a}_x_${b}`,
+      expression: `${columnReference(a)} * ${columnReference(b)}`,
+    })))
+    : columns.map(c => template === 'log'
+      ? { name: `log1p_${c}`, expression: `log1p(${columnReference(c)})` }
+      : { name: `${c}_squared`, expression: `${columnReference(c)} ^ 2` });
+  return candidates.filter(c => !taken.has(c.name));
+};
+
+export default function FeatureEngineering({ data, stats, derived, onChange }: {
+  data: DataRow[];
+  stats: ColumnStat[]; // columns of the cleaned data, before derived ones
+  derived: DerivedColumn[];
+  onChange: (derived: DerivedColumn[]) => void;
+}) {
+  const [name, setName] = useState('');
+  const [expression, setExpression] = useState('');
+  const [templateColumnsSelected, setTemplateColumnsSelected] = useState<string[]>([]);
+
+  const numericColumns = stats.filter(s => s.type === 'number').map(s => s.name);
+  const taken = new Set([...stats.map(s => s.name), ...derived.map(d => d.name)]);
+
+  // Missing counts and types of the current definitions over the whole dataset
+  const summary: { error: string | null; types: string[]; missing: number[] } = useMemo(() => {
+    try {
+      const compiled = compileDerivedColumns(stats, derived);
+      const rows = applyDerivedColumns(data, stats, derived);
+      return {
+        error: null,
+        types: compiled.map(c => c.expression.type),
+        missing: derived.map(d => rows.filter(row => row[d.name.trim()] === null).length),
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err), types: [], missing: [] };
+    }
+  }, [data, stats, derived]);
+
+  let draftError: string | null = null;
+  let draftPreview: (string | number | null)[] = [];
+  let draftType = '';
+  if (expression.trim() !== '' || name.trim() !== '') {
+    const draft = { name: name.trim() || 'new_column', expression };
+    try {
+      draftType = compileDerivedColumns(stats, [...derived, draft])[derived.length].expression.type;
+      draftPreview = applyDerivedColumns(data.slice(0, PREVIEW_ROWS), stats, [...derived, draft]).map(row => row[draft.name]);
+    } catch (err) {
+      draftError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const handleAdd = () => {
+    onChange([...derived, { name: name.trim(), expression }]);
+    setName('');
+    setExpression('');
+  };
+
+  const handleTemplate = (template: 'log' | 'square' | 'interactions') => {
+    onChange([...derived, ...templateColumns(template, templateColumnsSelected, taken)]);
+  };
+
+  const insert = (text: string) => setExpression(expression ? `${expression} ${text}` : text);
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={name}
+              placeholder="Column name, e.g. price_per_sqft"
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={expression}
+              placeholder="Expression, e.g. house_price / sqft_living"
+              onChange={(e) => setExpression(e.target.value)}
+              className={`${inputClass} md:col-span-2 font-mono`}
+            />
+          </div>
+          {draftError ? (
+            <p className="text-sm text-red-600">{draftError}</p>
+          ) : draftPreview.length > 0 && (
+            <p className="text-sm text-gray-600">
+              <span className="text-xs uppercase text-gray-400 mr-2">{draftType}</span>
+              First rows: <span className="font-mono">{draftPreview.map(formatValue).join(', ')}</span>
+            </p>
+          )}
+          <button
+            onClick={handleAdd}
+            disabled={name.trim() === '' || expression.trim() === '' || draftError !== null}
+            className="text-white bg-blue-700 hover:bg-blue-800 disabled:bg-gray-300 font-medium rounded-lg text-sm px-4 py-2"
+          >
+            Add Column
+          </button>
+        </div>
+
+        <div className="text-xs text-gray-600 bg-gray-50 rounded-lg p-3 max-h-64 overflow-y-auto">
+          <div className="font-bold text-gray-700 mb-1">Columns</div>
+          <div className="flex flex-wrap gap-1 mb-3">
+            {[...stats.map(s => s.name), ...derived.map(d => d.name)].map(col => (
+              <button key={col} onClick={() => insert(columnReference(col))} className="px-1.5 py-0.5 rounded bg-white border border-gray-200 hover:border-blue-400 font-mono">
+                {columnReference(col)}
+              </button>
+            ))}
+          </div>
+          <div className="font-bold text-gray-700 mb-1">Operators</div>
+          <p className="font-mono mb-3">+ - * / % ^ &lt; &lt;= &gt; &gt;= == != &amp;&amp; || !</p>
+          <div className="font-bold text-gray-700 mb-1">Functions</div>
+          <ul className="space-y-0.5">
+            {Object.values(FUNCTIONS).map(fn => (
+              <li key={fn.signature}><span className="font-mono text-gray-800">{fn.signature}</span> {fn.description}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {numericColumns.length > 0 && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="text-sm font-medium text-gray-800 mb-2">Quick add for selected numeric columns</div>
+          <div className="flex flex-wrap gap-3 mb-3">
+            {numericColumns.map(col => (
+              <label key={col} className="flex items-center gap-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={templateColumnsSelected.includes(col)}
+                  onChange={(e) => setTemplateColumnsSelected(e.target.checked
+                    ? [...templateColumnsSelected, col]
+                    : templateColumnsSelected.filter(c => c !== col))}
+                  className="form-checkbox h-4 w-4 text-blue-600"
+                />
+                {col}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {([['log', 'log(1 + x)'], ['square', 'Squares (x²)'], ['interactions', 'Pairwise interactions (a × b)']] as ['log' | 'square' | 'interactions', string][]).map(([template, label]) => (
+              <button
+                key={template}
+                onClick={() => handleTemplate(template)}
+                disabled={templateColumnsSelected.length < (template === 'interactions' ? 2 : 1)}
+                className="text-xs px-3 py-1.5 rounded-lg border border-blue-200 text-blue-700 hover:bg-blue-50 disabled:text-gray-300 disabled:border-gray-200"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {derived.length > 0 && (
+        <div className="overflow-x-auto">
+          {summary.error && (
+            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{summary.error}</div>
+          )}
+          <table className="w-full text-sm text-left text-gray-500">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th className="px-4 py-2">Column</th>
+                <th className="px-4 py-2">Expression</th>
+                <th className="px-4 py-2">Type</th>
+                <th className="px-4 py-2">Missing</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {derived.map((column, i) => (
+                <tr key={i} className="bg-white border-b">
+                  <td className="px-4 py-2 font-medium text-gray-900">{column.name}</td>
+                  <td className="px-4 py-2 font-mono text-xs">{column.expression}</td>
+                  <td className="px-4 py-2">{summary.types[i] ?? '—'}</td>
+                  <td className={`px-4 py-2 ${summary.missing[i] > 0 ? 'text-orange-600 font-bold' : ''}`}>{summary.missing[i] ?? '—'}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button onClick={() => onChange(derived.filter((_, k) => k !== i))} className="text-xs text-red-600 hover:underline">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
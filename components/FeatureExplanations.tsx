@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { ModelExplanations, PartialDependence } from '../types';
+import { METRIC_LABELS, formatMetricValue } from '../utils/metrics';
+import {
+  BarChart, Bar, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, LineChart, Line, XAxis, YAxis
+} from 'recharts';
+
+const MAX_NATIVE_BARS = 20;
+
+const ImportanceChart = ({ title, subtitle, data, valueLabel }: {
+  title: string;
+  subtitle: string;
+  data: { feature: string; importance: number }[];
+  valueLabel: string;
+}) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+    <h3 className="font-bold text-gray-700">{title}</h3>
+    <p className="text-xs text-gray-400 mb-4">{subtitle}</p>
+    <div style={{ height: Math.max(160, data.length * 28 + 40) }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} layout="vertical" margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+          <XAxis type="number" tickFormatter={(v: number) => v.toFixed(2)} />
+          <YAxis type="category" dataKey="feature" width={140} tick={{ fontSize: 11 }} />
+          <RechartsTooltip formatter={(v: number) => [formatMetricValue(v), valueLabel]} />
+          <Bar dataKey="importance" fill="#3b82f6" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+const DependenceChart = ({ dependence, outputLabel }: { dependence: PartialDependence; outputLabel: string }) => {
+  // One row per grid value, with the average and every ICE curve as separate series
+  const data = dependence.grid.map((value, i) => {
+    const point: Record<string, string | number> = { value, average: dependence.average[i] };
+    dependence.ice.forEach((curve, k) => { point[`ice${k}`] = curve[i]; });
+    return point;
+  });
+
+  if (!dependence.numeric) {
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 10, right: 20, bottom: 30, left: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="value" tick={{ fontSize: 11 }} />
+          <YAxis tickFormatter={(v: number) => formatMetricValue(v)} width={70} />
+          <RechartsTooltip formatter={(v: number) => [formatMetricValue(v), outputLabel]} />
+          <Bar dataKey="average" fill="#2563eb" />
+        </BarChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={data} margin={{ top: 10, right: 20, bottom: 30, left: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          type="number"
+          dataKey="value"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(v: number) => formatMetricValue(v)}
+          label={{ value: dependence.feature, position: 'insideBottom', offset: -15 }}
+        />
+        <YAxis tickFormatter={(v: number) => formatMetricValue(v)} width={70} />
+        <RechartsTooltip
+          formatter={(v: number, name: string) => [formatMetricValue(v), name === 'average' ? 'Partial dependence' : 'ICE']}
+          labelFormatter={(v: number) => `${dependence.feature}: ${formatMetricValue(Number(v))}`}
+        />
+        {dependence.ice.map((_, k) => (
+          <Line key={k} type="linear" dataKey={`ice${k}`} stroke="#cbd5e1" strokeWidth={1} dot={false} isAnimationActive={false} />
+        ))}
+        <Line type="linear" dataKey="average" stroke="#2563eb" strokeWidth={3} dot={false} isAnimationActive={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default function FeatureExplanations({ explanations }: { explanations: ModelExplanations }) {
+  const [selectedFeature, setSelectedFeature] = useState(explanations.partialDependence[0]?.feature ?? '');
+  const dependence = explanations.partialDependence.find(d => d.feature === selectedFeature) ?? explanations.partialDependence[0];
+  const metricLabel = METRIC_LABELS[explanations.scoreMetric] ?? explanations.scoreMetric;
+
+  const permutation = [...explanations.permutation].sort((a, b) => b.importance - a.importance);
+  const native = explanations.native
+    ? [...explanations.native.values].sort((a, b) => b.importance - a.importance).slice(0, MAX_NATIVE_BARS)
+    : [];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <ImportanceChart
+          title="Permutation Importance"
+          subtitle={`Drop in ${metricLabel} on held-out rows when the feature is shuffled. Works for any model.`}
+          data={permutation}
+          valueLabel={`${metricLabel} drop`}
+        />
+        {explanations.native && (
+          <ImportanceChart
+            title={explanations.native.method === 'gain' ? 'Split Gain Importance' : 'Coefficient Magnitude'}
+            subtitle={explanations.native.method === 'gain'
+              ? 'Share of total split gain in the fitted trees, per encoded column.'
+              : 'Share of absolute standardized coefficients, per encoded column.'}
+            data={native}
+            valueLabel="Share"
+          />
+        )}
+      </div>
+
+      {dependence && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="font-bold text-gray-700">Partial Dependence</h3>
+              <p className="text-xs text-gray-400">
+                Average {explanations.outputLabel} as one feature varies and the others stay as observed
+                {dependence.numeric && dependence.ice.length > 0 && `; grey lines are ${dependence.ice.length} individual rows (ICE)`}.
+              </p>
+            </div>
+            <select
+              value={dependence.feature}
+              onChange={(e) => setSelectedFeature(e.target.value)}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5"
+            >
+              {explanations.partialDependence.map(d => (
+                <option key={d.feature} value={d.feature}>{d.feature}</option>
+              ))}
+            </select>
+          </div>
+          <div className="h-80">
+            <DependenceChart dependence={dependence} outputLabel={explanations.outputLabel} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import React from 'react';
+import { LeaderboardEntry } from '../types';
+import { rankingMetric } from '../utils/automl';
+import { METRIC_LABELS, LOWER_IS_BETTER, formatMetricValue } from '../utils/metrics';
+
+export default function Leaderboard({ entries, sortMetric, onSortMetricChange, activeId, onPromote }: {
+  entries: LeaderboardEntry[];
+  sortMetric: string | null; // null ranks by the task's default metric
+  onSortMetricChange: (metric: string) => void;
+  activeId: string | null;
+  onPromote: (entry: LeaderboardEntry) => void;
+}) {
+  const metricKeys = Object.keys(entries[0]?.scores ?? {});
+  const metric = rankingMetric(entries, sortMetric);
+
+  const ranked = [...entries].sort((a, b) =>
+    LOWER_IS_BETTER.has(metric) ? a.scores[metric] - b.scores[metric] : b.scores[metric] - a.scores[metric]
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 text-left">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-900">Leaderboard</h3>
+        <label className="text-sm text-gray-600 flex items-center gap-2">
+          Rank by
+          <select
+            value={metric}
+            onChange={(e) => onSortMetricChange(e.target.value)}
+            className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5"
+          >
+            {metricKeys.map(key => (
+              <option key={key} value={key}>{METRIC_LABELS[key] ?? key} ({LOWER_IS_BETTER.has(key) ? 'lower' : 'higher'} is better)</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-3 py-2">#</th>
+              <th className="px-3 py-2">Algorithm</th>
+              <th className="px-3 py-2">Hyperparameters</th>
+              {metricKeys.map(key => (
+                <th
+                  key={key}
+                  onClick={() => onSortMetricChange(key)}
+                  className={`px-3 py-2 text-right cursor-pointer hover:text-blue-600 ${key === metric ? 'text-blue-600' : ''}`}
+                >
+                  {METRIC_LABELS[key] ?? key}{key === metric ? (LOWER_IS_BETTER.has(key) ? ' ▲' : ' ▼') : ''}
+                </th>
+              ))}
+              <th className="px-3 py-2 text-right">Time</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map((entry, rank) => (
+              <tr key={entry.id} className={`border-b ${entry.id === activeId ? 'bg-blue-50' : 'bg-white'}`}>
+                <td className="px-3 py-2 font-medium text-gray-900">{rank + 1}</td>
+                <td className="px-3 py-2 font-medium text-gray-900 capitalize">{entry.algorithm.replace(/_/g, ' ')}</td>
+                <td className="px-3 py-2 text-xs">{entry.label}</td>
+                {metricKeys.map(key => (
+                  <td key={key} className={`px-3 py-2 text-right font-mono ${key === metric ? 'text-gray-900 font-semibold' : ''}`}>
+                    {formatMetricValue(entry.scores[key])}
+                  </td>
+                ))}
+                <td className="px-3 py-2 text-right text-xs">{entry.durationMs} ms</td>
+                <td className="px-3 py-2 text-right">
+                  {entry.id === activeId ? (
+                    <span className="text-xs text-blue-600 font-semibold">Active</span>
+                  ) : (
+                    <button
+                      onClick={() => onPromote(entry)}
+                      className="text-xs text-white bg-blue-600 hover:bg-blue-700 rounded px-2 py-1"
+                    >
+                      Use this model
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import React from 'react';
+
+export default function MetricCard({ label, value, hint, highlight, warning }: {
+  label: string;
+  value: string;
+  hint: string;
+  highlight?: boolean;
+  warning?: boolean;
+}) {
+  const valueColor = warning ? 'text-orange-600' : highlight ? 'text-blue-600' : 'text-gray-800';
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border ${warning ? 'border-orange-200' : 'border-gray-100'}`}>
+      <div className="text-sm text-gray-500 uppercase tracking-wide">{label}</div>
+      <div className={`text-3xl font-bold mt-2 ${valueColor}`}>{value}</div>
+      <div className={`text-xs mt-1 ${warning ? 'text-orange-600' : 'text-gray-400'}`}>{hint}</div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useMemo } from 'react';
+import { ColumnOutlierRule, ColumnStat, DataRow, OutlierDetection, OutlierFinding, OutlierOptions, OutlierTreatment } from '../types';
+import { defaultOutlierDetection, defaultOutlierRule, detectOutliers, OUTLIER_METHOD_LABELS } from '../utils/outliers';
+import { formatMetricValue } from '../utils/metrics';
+
+const TREATMENT_LABELS: Record<OutlierTreatment, string> = {
+  flag: 'Flag (add 0/1 column)',
+  remove: 'Remove rows',
+  cap: 'Cap to bounds',
+};
+
+const selectClass = 'bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5';
+
+const thresholdOf = (detection: OutlierDetection): number | null =>
+  detection.method === 'iqr' ? detection.multiplier : detection.method === 'none' ? null : detection.threshold;
+
+const withThreshold = (detection: OutlierDetection, value: number): OutlierDetection =>
+  detection.method === 'iqr' ? { ...detection, multiplier: value } : detection.method === 'none' ? detection : { ...detection, threshold: value };
+
+// The preview runs the same detection cleanData uses, on the data as uploaded
+export default function OutlierSettings({ data, stats, options, onChange }: {
+  data: DataRow[];
+  stats: ColumnStat[];
+  options: OutlierOptions;
+  onChange: (options: OutlierOptions) => void;
+}) {
+  const numericColumns = stats.filter(s => s.type === 'number' && data.some(row => typeof row[s.name] === 'number')).map(s => s.name);
+  const findings: OutlierFinding[] = useMemo(() => detectOutliers(data, stats, options), [data, stats, options]);
+  const findingFor = (column: string | null) => findings.find(f => f.column === column);
+  const removedRows = new Set(findings.filter(f => f.treatment === 'remove').flatMap(f => f.rows)).size;
+  const forest = options.isolationForest;
+  const forestFinding = findingFor(null);
+
+  const updateRule = (column: string, patch: Partial<ColumnOutlierRule>) => {
+    onChange({ ...options, columns: { ...options.columns, [column]: { ...(options.columns[column] ?? defaultOutlierRule()), ...patch } } });
+  };
+
+  const updateForest = (patch: Partial<OutlierOptions['isolationForest']>) => {
+    onChange({ ...options, isolationForest: { ...forest, ...patch } });
+  };
+
+  if (numericColumns.length === 0) {
+    return <span className="text-sm text-gray-500">No numeric columns to check for outliers.</span>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-4 py-2">Column</th>
+              <th className="px-4 py-2">Detection</th>
+              <th className="px-4 py-2">Threshold</th>
+              <th className="px-4 py-2">Treatment</th>
+              <th className="px-4 py-2">Rows affected</th>
+              <th className="px-4 py-2">Allowed range</th>
+            </tr>
+          </thead>
+          <tbody>
+            {numericColumns.map(column => {
+              const rule = options.columns[column] ?? defaultOutlierRule();
+              const threshold = thresholdOf(rule.detection);
+              const finding = findingFor(column);
+              return (
+                <tr key={column} className="bg-white border-b">
+                  <td className="px-4 py-2 font-medium text-gray-900">{column}</td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={rule.detection.method}
+                      onChange={(e) => updateRule(column, { detection: defaultOutlierDetection(e.target.value as OutlierDetection['method']) })}
+                      className={selectClass}
+                    >
+                      {(Object.keys(OUTLIER_METHOD_LABELS) as OutlierDetection['method'][]).map(m => (
+                        <option key={m} value={m}>{OUTLIER_METHOD_LABELS[m]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    {threshold !== null && (
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={threshold}
+                        onChange={(e) => updateRule(column, { detection: withThreshold(rule.detection, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                        className={`${selectClass} w-20`}
+                      />
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={rule.treatment}
+                      disabled={rule.detection.method === 'none'}
+                      onChange={(e) => updateRule(column, { treatment: e.target.value as OutlierTreatment })}
+                      className={selectClass}
+                    >
+                      {(Object.keys(TREATMENT_LABELS) as OutlierTreatment[]).map(t => (
+                        <option key={t} value={t}>{TREATMENT_LABELS[t]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className={`px-4 py-2 font-bold ${finding && finding.rows.length > 0 ? 'text-orange-600' : 'text-gray-400'}`}>
+                    {finding ? `${finding.rows.length} (${((finding.rows.length / data.length) * 100).toFixed(1)}%)` : '—'}
+                  </td>
+                  <td className="px-4 py-2 font-mono text-xs">
+                    {finding?.lower !== undefined && finding.upper !== undefined
+                      ? `${formatMetricValue(finding.lower)} to ${formatMetricValue(finding.upper)}`
+                      : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+        <label className="flex items-center gap-2 font-medium text-gray-800">
+          <input
+            type="checkbox"
+            checked={forest.enabled}
+            onChange={(e) => updateForest({ enabled: e.target.checked })}
+            className="form-checkbox h-4 w-4 text-blue-600"
+          />
+          Isolation forest across several columns
+        </label>
+        <p className="text-xs text-gray-500 mt-1">
+          Scores each row by how quickly random splits isolate it. Catches unusual combinations that look normal column by column.
+          Rows with a missing value in a chosen column are not scored.
+        </p>
+        {forest.enabled && (
+          <div className="mt-4 space-y-3">
+            <div className="flex flex-wrap gap-3">
+              {numericColumns.map(column => (
+                <label key={column} className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={forest.columns.includes(column)}
+                    onChange={(e) => updateForest({
+                      columns: e.target.checked ? [...forest.columns, column] : forest.columns.filter(c => c !== column),
+                    })}
+                    className="form-checkbox h-4 w-4 text-blue-600"
+                  />
+                  {column}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-6 text-sm text-gray-600">
+              <label className="flex items-center gap-2">
+                Contamination
+                <input
+                  type="number"
+                  min={0}
+                  max={0.5}
+                  step={0.01}
+                  value={forest.contamination}
+                  onChange={(e) => updateForest({ contamination: Math.min(0.5, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                  className={`${selectClass} w-20`}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                Treatment
+                <select
+                  value={forest.treatment}
+                  onChange={(e) => updateForest({ treatment: e.target.value as OutlierOptions['isolationForest']['treatment'] })}
+                  className={selectClass}
+                >
+                  <option value="flag">{TREATMENT_LABELS.flag}</option>
+                  <option value="remove">{TREATMENT_LABELS.remove}</option>
+                </select>
+              </label>
+              <span className={forestFinding ? 'font-bold text-orange-600' : 'text-gray-400'}>
+                {forestFinding ? `${forestFinding.rows.length} rows affected` : 'Choose at least one column'}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {removedRows > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          {removedRows} of {data.length} rows will be removed as outliers before missing values are handled.
+        </div>
+      )}
+    </div>
+  );
+}
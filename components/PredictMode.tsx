@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { ColumnStat, DataRow, ModelArtifact, SchemaIssue } from '../types';
+import { parseCSV, toCSV } from '../utils/csv';
+import { analyzeColumns } from '../utils/profiling';
+import { checkSchema, parseModelArtifact, scoreRows, ScoringResult } from '../utils/modelArtifact';
+import { formatMetricValue, METRIC_LABELS } from '../utils/metrics';
+import { downloadFile } from '../utils/download';
+
+const PREVIEW_ROWS = 20;
+
+const readFile = (file: File, onText: (text: string) => void) => {
+  const reader = new FileReader();
+  reader.onload = (evt) => onText(evt.target?.result as string);
+  reader.readAsText(file);
+};
+
+const formatCell = (value: string | number | null | undefined) =>
+  value === null || value === undefined ? '—' : typeof value === 'number' ? formatMetricValue(value) : value;
+
+export default function PredictMode({ artifact, onArtifactChange }: {
+  artifact: ModelArtifact | null;
+  onArtifactChange: (artifact: ModelArtifact | null) => void;
+}) {
+  const [dataset, setDataset] = useState<{ fileName: string; headers: string[]; rows: DataRow[]; stats: ColumnStat[]; rejected: number } | null>(null);
+  const [issues, setIssues] = useState<SchemaIssue[]>([]);
+  const [result, setResult] = useState<ScoringResult | null>(null);
+
+  const handleModelUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    readFile(file, text => {
+      try {
+        onArtifactChange(parseModelArtifact(text));
+        setDataset(null);
+        setIssues([]);
+        setResult(null);
+      } catch (err) {
+        console.error(err);
+        alert(err instanceof Error ? err.message : "Could not read the model file.");
+      }
+    });
+  };
+
+  const handleDataUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !artifact) return;
+    readFile(file, text => {
+      const { headers, rows, rejectedRows } = parseCSV(text);
+      if (rows.length === 0) {
+        alert("Could not parse CSV or file is empty.");
+        return;
+      }
+      const stats = analyzeColumns(rows);
+      const schemaIssues = checkSchema(artifact, stats);
+      setDataset({ fileName: file.name, headers, rows, stats, rejected: rejectedRows.length });
+      setIssues(schemaIssues);
+      setResult(null);
+      if (schemaIssues.length > 0) return;
+      try {
+        setResult(scoreRows(artifact, rows, stats));
+      } catch (err) {
+        console.error(err);
+        alert(err instanceof Error ? err.message : "Error scoring the file.");
+      }
+    });
+  };
+
+  const handleDownload = () => {
+    if (!dataset || !result) return;
+    const headers = [...dataset.headers.filter(h => !result.predictionColumns.includes(h)), ...result.predictionColumns];
+    downloadFile(`${dataset.fileName.replace(/\.[^.]+$/, '')}-predictions.csv`, toCSV(headers, result.rows), 'text/csv');
+  };
+
+  if (!artifact) {
+    return (
+      <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-200 max-w-2xl mx-auto text-center">
+        <h2 className="text-2xl font-bold mb-2 text-gray-800">Load a Model</h2>
+        <p className="text-gray-500 mb-6">Choose a model file exported from the Evaluation step to score new data.</p>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={handleModelUpload}
+          className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+      </div>
+    );
+  }
+
+  const { config, model } = artifact;
+  const previewColumns = result ? [...artifact.features.map(f => f.name), ...result.predictionColumns] : [];
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">Predicting {config.targetColumn}</h3>
+            <p className="text-sm text-gray-500">
+              {config.taskType} · {config.algorithm.replace(/_/g, ' ')} · trained on {model.trainingRows.toLocaleString()} rows · exported {new Date(artifact.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <label className="text-sm text-blue-600 hover:underline cursor-pointer">
+            Load a different model
+            <input type="file" accept=".json,application/json" onChange={handleModelUpload} className="hidden" />
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-4 mb-4">
+          {Object.entries(artifact.metrics).filter(([key]) => METRIC_LABELS[key]).map(([key, value]) => (
+            <div key={key} className="text-sm">
+              <span className="text-gray-400 mr-1">{METRIC_LABELS[key]}</span>
+              <span className="font-mono text-gray-800">{formatMetricValue(value)}</span>
+            </div>
+          ))}
+        </div>
+        <div className="text-sm text-gray-700">
+          <span className="font-medium">Required columns:</span>{' '}
+          {artifact.features.map(f => `${f.name} (${f.type === 'number' ? 'numeric' : 'any'})`).join(', ')}
+        </div>
+        {artifact.derivedColumns.length > 0 && (
+          <div className="text-sm text-gray-700 mt-1">
+            <span className="font-medium">Computed from them:</span>{' '}
+            <span className="font-mono text-xs">{artifact.derivedColumns.map(d => `${d.name} = ${d.expression}`).join('; ')}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <h3 className="text-lg font-bold mb-4">Score a CSV</h3>
+        <input
+          type="file"
+          accept=".csv"
+          onChange={handleDataUpload}
+          className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+
+        {dataset && dataset.rejected > 0 && (
+          <p className="mt-4 text-sm text-yellow-700">{dataset.rejected} malformed row(s) in {dataset.fileName} were skipped while parsing.</p>
+        )}
+
+        {issues.length > 0 && (
+          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            <div className="font-bold mb-1">{dataset?.fileName} does not match the model's schema</div>
+            <ul className="list-disc list-inside">
+              {issues.map(issue => <li key={issue.column}><span className="font-medium">{issue.column}</span>: {issue.message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {result && (
+          <div className="mt-6">
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-sm text-gray-600">
+                Scored {(result.rows.length - result.skipped).toLocaleString()} of {result.rows.length.toLocaleString()} rows
+                {result.skipped > 0 && <span className="text-orange-600"> ({result.skipped} skipped for missing numeric features)</span>}.
+              </p>
+              <button
+                onClick={handleDownload}
+                className="text-white bg-blue-700 hover:bg-blue-800 font-medium rounded-lg text-sm px-4 py-2"
+              >
+                Download Predictions
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left text-gray-500">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                  <tr>
+                    {previewColumns.map(col => (
+                      <th key={col} className={`px-4 py-2 ${result.predictionColumns.includes(col) ? 'text-blue-700' : ''}`}>{col}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                    <tr key={i} className="bg-white border-b">
+                      {previewColumns.map(col => (
+                        <td key={col} className={`px-4 py-2 ${result.predictionColumns.includes(col) ? 'font-mono text-gray-900' : ''}`}>{formatCell(row[col])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {result.rows.length > PREVIEW_ROWS && (
+              <p className="text-xs text-gray-400 mt-2">Showing the first {PREVIEW_ROWS} rows. The download has all of them.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
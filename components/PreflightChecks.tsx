@@ -0,0 +1,71 @@
+import React from 'react';
+import { PreflightCheck, PreflightFix, PreflightWarning } from '../types';
+
+const CHECK_LABELS: Record<PreflightCheck, string> = {
+  leakage: 'Possible target leakage',
+  multicollinearity: 'Multicollinearity',
+  constant: 'Constant feature',
+  id_like: 'ID-like feature',
+  rows_per_feature: 'Too few rows per feature',
+};
+
+const fixLabel = (fix: PreflightFix) => (fix.action === 'drop_feature' ? `Drop "${fix.column}"` : 'Back to cleaning');
+
+export default function PreflightChecks({ warnings, onFix, onContinue, onDismiss }: {
+  warnings: PreflightWarning[];
+  onFix: (fix: PreflightFix) => void;
+  onContinue: () => void;
+  onDismiss: () => void;
+}) {
+  const critical = warnings.filter(w => w.severity === 'critical').length;
+
+  return (
+    <div className="mb-6 text-left border border-gray-200 rounded-xl overflow-hidden">
+      <div className={`px-4 py-3 ${warnings.length === 0 ? 'bg-green-50 text-green-800' : critical > 0 ? 'bg-red-50 text-red-800' : 'bg-yellow-50 text-yellow-800'}`}>
+        <h3 className="font-bold">Pre-training Checks</h3>
+        <p className="text-sm">
+          {warnings.length === 0
+            ? 'All checks pass.'
+            : `${warnings.length} issue${warnings.length === 1 ? '' : 's'} found${critical > 0 ? `, ${critical} critical` : ''}. Fix them or train anyway.`}
+        </p>
+      </div>
+
+      {warnings.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {warnings.map((warning, i) => (
+            <li key={i} className="px-4 py-3 flex items-start justify-between gap-4">
+              <div>
+                <div className="text-sm font-medium text-gray-800">
+                  <span className={`inline-block w-2 h-2 rounded-full mr-2 ${warning.severity === 'critical' ? 'bg-red-500' : 'bg-yellow-400'}`} />
+                  {CHECK_LABELS[warning.check]}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{warning.message}</p>
+              </div>
+              <div className="flex flex-col gap-1 shrink-0">
+                {warning.fixes.map((fix, k) => (
+                  <button
+                    key={k}
+                    onClick={() => onFix(fix)}
+                    className="text-xs px-3 py-1 rounded-lg border border-blue-200 text-blue-700 hover:bg-blue-50"
+                  >
+                    {fixLabel(fix)}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="px-4 py-3 bg-gray-50 flex justify-end gap-3">
+        <button onClick={onDismiss} className="text-sm text-gray-600 hover:underline">Cancel</button>
+        <button
+          onClick={onContinue}
+          className={`text-sm text-white font-medium rounded-lg px-4 py-1.5 ${warnings.length === 0 ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-600 hover:bg-gray-700'}`}
+        >
+          {warnings.length === 0 ? 'Start training' : 'Train anyway'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React from 'react';
+import { AdvisorPrompt, LLMSettings } from '../types';
+import { ADVISOR_PROVIDERS } from '../services/advisorService';
+
+export default function PromptPreview({ prompt, settings, onSend, onCancel }: {
+  prompt: AdvisorPrompt;
+  settings: LLMSettings;
+  onSend: () => void;
+  onCancel: () => void;
+}) {
+  const provider = ADVISOR_PROVIDERS.find(p => p.id === settings.provider)!;
+  const placeholders = Object.entries(prompt.aliases);
+
+  return (
+    <div className="p-5 bg-white rounded-lg shadow-sm border border-amber-300 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="font-bold text-gray-800">Review the {prompt.kind === 'tips' ? 'tips' : 'chat'} prompt</h4>
+          <p className="text-sm text-gray-500 mt-1">
+            {settings.provider === 'mock'
+              ? 'The offline mock answers in the browser, so nothing below leaves this page.'
+              : `This is exactly what will be sent to ${provider.name} (${settings.model}).`}
+          </p>
+        </div>
+        <div className="text-right text-sm shrink-0">
+          <div className={`font-medium ${prompt.estimatedTokens > settings.tokenBudget ? 'text-red-600' : 'text-gray-700'}`}>
+            ~{prompt.estimatedTokens.toLocaleString()} tokens
+          </div>
+          <div className="text-xs text-gray-400">budget {settings.tokenBudget.toLocaleString()}</div>
+        </div>
+      </div>
+
+      {prompt.omitted.length > 0 && (
+        <div className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-2">
+          Left out to fit the budget: {prompt.omitted.join('; ')}
+        </div>
+      )}
+
+      {placeholders.length > 0 && (
+        <details className="text-xs text-gray-600">
+          <summary className="cursor-pointer">
+            Privacy mode: {placeholders.length} names replaced by placeholders. This table stays in the browser.
+          </summary>
+          <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 font-mono">
+            {placeholders.map(([placeholder, original]) => (
+              <div key={placeholder} className="truncate" title={original}>
+                {placeholder} = {original}
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        <div>
+          <div className="text-xs font-semibold text-gray-500 uppercase mb-1">System instruction</div>
+          <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-3 whitespace-pre-wrap font-mono text-gray-800">{prompt.systemInstruction}</pre>
+        </div>
+        {prompt.messages.map((message, i) => (
+          <div key={i}>
+            <div className="text-xs font-semibold text-gray-500 uppercase mb-1">{message.role === 'user' ? 'User' : 'Advisor'}</div>
+            <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-3 whitespace-pre-wrap font-mono text-gray-800">{message.text}</pre>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm">
+          Cancel
+        </button>
+        <button onClick={onSend} className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition text-sm">
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
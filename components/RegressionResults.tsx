@@ -0,0 +1,90 @@
+import React from 'react';
+import { RegressionMetrics } from '../types';
+import { formatMetricValue, generalizationGap, OVERFITTING_GAP } from '../utils/metrics';
+import { sampleEvenly } from '../utils/splitting';
+import {
+  CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer, ScatterChart, Scatter, LineChart, Line, XAxis, YAxis
+} from 'recharts';
+import MetricCard from './MetricCard';
+import ResidualDiagnostics from './ResidualDiagnostics';
+
+// Charts render an even sample of the full test set rather than its first rows
+const MAX_LINE_POINTS = 300;
+const MAX_SCATTER_POINTS = 1000;
+
+export default function RegressionResults({ metrics, algorithm, featureCount }: {
+  metrics: RegressionMetrics;
+  algorithm: string;
+  featureCount: number;
+}) {
+  const gap = generalizationGap(metrics);
+  const total = metrics.predictions.length;
+  const indexed = metrics.predictions.map((p, index) => ({ index, actual: p.actual, predicted: p.predicted }));
+  const lineData = sampleEvenly(indexed, MAX_LINE_POINTS);
+  const scatterData = sampleEvenly(indexed, MAX_SCATTER_POINTS);
+  const sampledNote = (shown: number) => (shown < total ? `${shown} of ${total} test rows` : `${total} test rows`);
+
+  return (
+    <div className="space-y-8">
+      {/* Metrics Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <MetricCard label="R² Score" value={metrics.r2.toFixed(4)} hint="1.0 is perfect correlation" highlight />
+        <MetricCard label="Adjusted R²" value={formatMetricValue(metrics.adjustedR2)} hint="Penalized for the number of predictors" />
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="text-sm text-gray-500 uppercase tracking-wide">Model Type</div>
+          <div className="text-lg font-bold text-gray-800 mt-2 capitalize">{algorithm.replace(/_/g, ' ')}</div>
+          <div className="text-xs text-gray-400 mt-1">{featureCount} Features</div>
+        </div>
+        <MetricCard label="RMSE" value={formatMetricValue(metrics.rmse)} hint="In target units, lower is better" />
+        <MetricCard label="Mean Squared Error" value={formatMetricValue(metrics.mse)} hint="Lower is better" />
+        <MetricCard label="MAE" value={formatMetricValue(metrics.mae)} hint="Mean absolute error" />
+        <MetricCard label="Median Abs. Error" value={formatMetricValue(metrics.medianAbsoluteError)} hint="Robust to a few large misses" />
+        <MetricCard
+          label="MAPE"
+          value={Number.isFinite(metrics.mape) ? `${metrics.mape.toFixed(2)}%` : '—'}
+          hint="Mean absolute percentage error, rows with a zero target skipped"
+        />
+        {gap && (
+          <MetricCard
+            label="Train − Test R²"
+            value={gap.gap.toFixed(4)}
+            hint={`Train ${gap.train.toFixed(4)} vs test ${gap.test.toFixed(4)}${gap.gap > OVERFITTING_GAP ? ': likely overfitting' : ''}`}
+            warning={gap.gap > OVERFITTING_GAP}
+          />
+        )}
+      </div>
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 h-96">
+          <h3 className="font-bold mb-4 text-gray-700">Actual vs Predicted ({sampledNote(lineData.length)})</h3>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={lineData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="index" hide />
+              <YAxis tickFormatter={(v: number) => formatMetricValue(v)} width={70} />
+              <RechartsTooltip formatter={(v: number) => formatMetricValue(v)} />
+              <Legend />
+              <Line type="monotone" dataKey="actual" stroke="#9ca3af" dot={false} strokeWidth={2} isAnimationActive={false} />
+              <Line type="monotone" dataKey="predicted" stroke="#2563eb" dot={false} strokeWidth={2} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 h-96">
+          <h3 className="font-bold mb-4 text-gray-700">Prediction Scatter Plot ({sampledNote(scatterData.length)})</h3>
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+              <CartesianGrid />
+              <XAxis type="number" dataKey="actual" name="Actual" tickFormatter={(v: number) => formatMetricValue(v)} label={{ value: 'Actual', position: 'insideBottom', offset: -10 }} />
+              <YAxis type="number" dataKey="predicted" name="Predicted" tickFormatter={(v: number) => formatMetricValue(v)} label={{ value: 'Predicted', angle: -90, position: 'insideLeft' }} />
+              <RechartsTooltip cursor={{ strokeDasharray: '3 3' }} formatter={(v: number) => formatMetricValue(v)} />
+              <Scatter name="Values" data={scatterData} fill="#3b82f6" fillOpacity={0.6} isAnimationActive={false} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <ResidualDiagnostics metrics={metrics} />
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import { RegressionMetrics } from '../types';
+import { computeResidualDiagnostics, formatMetricValue, ResidualSummary } from '../utils/metrics';
+import { sampleEvenly } from '../utils/splitting';
+import {
+  BarChart, Bar, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis,
+  ReferenceLine
+} from 'recharts';
+
+const MAX_SCATTER_POINTS = 1000;
+
+export default function ResidualDiagnostics({ metrics }: { metrics: RegressionMetrics }) {
+  const diagnostics: ResidualSummary = useMemo(() => computeResidualDiagnostics(metrics.predictions), [metrics.predictions]);
+  const residualPoints = sampleEvenly(diagnostics.residuals, MAX_SCATTER_POINTS);
+  const qqPoints = sampleEvenly(diagnostics.qq, MAX_SCATTER_POINTS);
+  const histogram = diagnostics.histogram.map(bin => ({ ...bin, label: formatMetricValue((bin.start + bin.end) / 2) }));
+  const qqRange = qqPoints.length > 0
+    ? [Math.min(qqPoints[0].theoretical, qqPoints[0].sample), Math.max(qqPoints[qqPoints.length - 1].theoretical, qqPoints[qqPoints.length - 1].sample)]
+    : [-3, 3];
+  const featureNames = Object.keys(metrics.largestErrors?.[0]?.features ?? {});
+  const sampledNote = (shown: number) =>
+    shown < metrics.predictions.length ? ` (${shown} of ${metrics.predictions.length} rows shown)` : '';
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 h-80">
+          <h3 className="font-bold mb-4 text-gray-700">Residuals vs Predicted{sampledNote(residualPoints.length)}</h3>
+          <ResponsiveContainer width="100%" height="90%">
+            <ScatterChart margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+              <CartesianGrid />
+              <XAxis type="number" dataKey="predicted" name="Predicted" tickFormatter={(v: number) => formatMetricValue(v)} />
+              <YAxis type="number" dataKey="residual" name="Residual" tickFormatter={(v: number) => formatMetricValue(v)} width={70} />
+              <RechartsTooltip cursor={{ strokeDasharray: '3 3' }} formatter={(v: number) => formatMetricValue(v)} />
+              <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
+              <Scatter data={residualPoints} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 h-80">
+          <h3 className="font-bold mb-4 text-gray-700">Residual Distribution</h3>
+          <ResponsiveContainer width="100%" height="90%">
+            <BarChart data={histogram} margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+              <YAxis allowDecimals={false} />
+              <RechartsTooltip
+                formatter={(v: number) => [v, 'Rows']}
+                labelFormatter={(_: string, payload: { payload?: { start: number; end: number } }[]) => {
+                  const bin = payload?.[0]?.payload;
+                  return bin ? `${formatMetricValue(bin.start)} to ${formatMetricValue(bin.end)}` : '';
+                }}
+              />
+              <Bar dataKey="count" fill="#6366f1" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 h-80">
+          <h3 className="font-bold mb-4 text-gray-700">Normal Q-Q Plot</h3>
+          <ResponsiveContainer width="100%" height="90%">
+            <ScatterChart margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+              <CartesianGrid />
+              <XAxis type="number" dataKey="theoretical" name="Theoretical" domain={['dataMin', 'dataMax']} tickFormatter={(v: number) => v.toFixed(1)} />
+              <YAxis type="number" dataKey="sample" name="Standardized residual" tickFormatter={(v: number) => v.toFixed(1)} />
+              <RechartsTooltip cursor={{ strokeDasharray: '3 3' }} formatter={(v: number) => v.toFixed(3)} />
+              <ReferenceLine segment={[{ x: qqRange[0], y: qqRange[0] }, { x: qqRange[1], y: qqRange[1] }]} stroke="#9ca3af" strokeDasharray="4 4" />
+              <Scatter data={qqPoints} fill="#10b981" fillOpacity={0.6} isAnimationActive={false} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {metrics.largestErrors && metrics.largestErrors.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+          <h3 className="font-bold mb-4 text-gray-700">Largest Errors</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-500">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-right">Actual</th>
+                  <th className="px-4 py-2 text-right">Predicted</th>
+                  <th className="px-4 py-2 text-right">Error</th>
+                  {featureNames.map(name => <th key={name} className="px-4 py-2">{name}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.largestErrors.map((row, i) => (
+                  <tr key={i} className="bg-white border-b">
+                    <td className="px-4 py-2 text-right font-mono">{formatMetricValue(row.actual)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{formatMetricValue(row.predicted)}</td>
+                    <td className="px-4 py-2 text-right font-mono text-red-600">{formatMetricValue(row.actual - row.predicted)}</td>
+                    {featureNames.map(name => (
+                      <td key={name} className="px-4 py-2">
+                        {typeof row.features[name] === 'number' ? formatMetricValue(row.features[name] as number) : row.features[name] ?? 'null'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { LossPoint, TrainingProgress } from '../types';
+import { CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, LineChart, Line, XAxis, YAxis } from 'recharts';
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+export default function TrainingProgressPanel({ progress, lossPoints, startedAt, onCancel }: {
+  progress: TrainingProgress | null;
+  lossPoints: LossPoint[]; // points for the current stage only
+  startedAt: number;
+  onCancel: () => void;
+}) {
+  // Re-render once a second so elapsed time keeps moving during long single-step fits
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const fraction = progress?.fraction ?? 0;
+  const elapsed = Math.max(now, Date.now()) - startedAt;
+  // Linear extrapolation from the work done so far
+  const eta = fraction > 0.01 ? (elapsed * (1 - fraction)) / fraction : null;
+
+  return (
+    <div className="mt-6 text-left space-y-4">
+      <div>
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span>{progress?.stage ?? 'Starting worker...'}</span>
+          <span>
+            {Math.round(fraction * 100)}% · elapsed {formatDuration(elapsed)}
+            {eta !== null && ` · ETA ${formatDuration(eta)}`}
+          </span>
+        </div>
+        <div className="w-full bg-gray-200 h-2 rounded-full overflow-hidden">
+          <div className="bg-blue-600 h-full transition-all duration-200" style={{ width: `${fraction * 100}%` }} />
+        </div>
+      </div>
+
+      {lossPoints.length > 1 && (
+        <div className="h-48">
+          <div className="text-xs font-medium text-gray-600 mb-1">
+            Training loss{progress?.loss !== undefined && `: ${progress.loss.toFixed(4)}`}
+          </div>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={lossPoints} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="epoch" type="number" domain={['dataMin', 'dataMax']} tick={{ fontSize: 10 }} />
+              <YAxis tick={{ fontSize: 10 }} tickFormatter={(v: number) => v.toFixed(3)} width={50} />
+              <RechartsTooltip formatter={(v: number) => v.toFixed(5)} labelFormatter={(v: number) => `Epoch ${v}`} />
+              <Line type="monotone" dataKey="loss" stroke="#2563eb" dot={false} strokeWidth={2} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <button
+          onClick={onCancel}
+          className="text-sm text-red-600 border border-red-300 hover:bg-red-50 rounded-lg px-4 py-2"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnStat, DataRow, FeatureContribution, ModelConfig, TrainedModel } from '../types';
+import { predictClassProbabilities, predictTargetValue } from '../utils/dataUtils';
+import { featureContributions } from '../utils/explain';
+import { formatMetricValue } from '../utils/metrics';
+import { createRng } from '../utils/random';
+import { BarChart, Bar, Cell, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+
+const sliderStep = (stat: ColumnStat): number => {
+  if (stat.semanticType === 'integer' || stat.semanticType === 'boolean') return 1;
+  const range = stat.numeric ? stat.numeric.max - stat.numeric.min : 0;
+  return range > 0 ? Number((range / 100).toPrecision(1)) : 1;
+};
+
+export default function WhatIfPanel({ model, config, stats }: {
+  model: TrainedModel;
+  config: ModelConfig;
+  stats: ColumnStat[];
+}) {
+  const features = config.featureColumns;
+  // Taken from the training rows, so the test split does not shape the reference prediction
+  const baseline = model.baseline;
+  const [row, setRow] = useState<DataRow>(baseline);
+
+  const classes = model.classes ?? [];
+  const positive = classes[classes.length - 1];
+  const outputLabel = config.taskType === 'classification' ? `P(${positive})` : `Predicted ${config.targetColumn}`;
+
+  // Contributions explain the regression prediction, or the positive-class probability
+  const predictValues = (rows: DataRow[]) => rows.map(r =>
+    config.taskType === 'classification'
+      ? predictClassProbabilities(model, r)[classes.length - 1]
+      : predictTargetValue(model, r)
+  );
+
+  const result: { prediction: number; baselinePrediction: number; probabilities: number[] | null; contributions: FeatureContribution[] } = useMemo(() => {
+    const [prediction, baselinePrediction] = predictValues([row, baseline]);
+    const contributions = featureContributions(row, baseline, features, predictValues, createRng(config.validation.seed))
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+    const probabilities = config.taskType === 'classification' ? predictClassProbabilities(model, row) : null;
+    return { prediction, baselinePrediction, probabilities, contributions };
+  }, [row, baseline, model, config]);
+
+  const predictedClass = result.probabilities
+    ? classes[result.probabilities.indexOf(Math.max(...result.probabilities))]
+    : null;
+
+  const setValue = (feature: string, value: string | number | null) => setRow({ ...row, [feature]: value });
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="font-bold text-gray-700">What-If Prediction</h3>
+          <p className="text-xs text-gray-400">
+            Change the inputs to see the model's prediction. Contributions are Shapley values relative to a typical row
+            (training-row medians and most frequent values), so they add up to the difference from its prediction.
+          </p>
+        </div>
+        <button onClick={() => setRow(baseline)} className="text-sm text-blue-600 hover:underline shrink-0 ml-4">Reset</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          {features.map(feature => {
+            const stat = stats.find(s => s.name === feature);
+            const value = row[feature];
+            if (stat?.numeric && !config.encodings[feature]) {
+              const step = sliderStep(stat);
+              return (
+                <div key={feature}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-medium text-gray-800">{feature}</span>
+                    <input
+                      type="number"
+                      step={step}
+                      value={typeof value === 'number' ? value : ''}
+                      onChange={(e) => {
+                        const parsed = parseFloat(e.target.value);
+                        if (Number.isFinite(parsed)) setValue(feature, parsed);
+                      }}
+                      className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg w-32 p-1 text-right"
+                    />
+                  </div>
+                  <input
+                    type="range"
+                    min={stat.numeric.min}
+                    max={stat.numeric.max}
+                    step={step}
+                    value={typeof value === 'number' ? value : stat.numeric.median}
+                    onChange={(e) => setValue(feature, parseFloat(e.target.value))}
+                    className="w-full"
+                  />
+                  <div className="flex justify-between text-xs text-gray-400">
+                    <span>{formatMetricValue(stat.numeric.min)}</span>
+                    <span>{formatMetricValue(stat.numeric.max)}</span>
+                  </div>
+                </div>
+              );
+            }
+            return (
+              <div key={feature} className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-800">{feature}</span>
+                <select
+                  value={value === null ? '' : String(value)}
+                  onChange={(e) => setValue(feature, e.target.value === '' ? null : e.target.value)}
+                  className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg w-48 p-1.5"
+                >
+                  {(stat?.topValues ?? []).map(v => <option key={v.value} value={v.value}>{v.value}</option>)}
+                  <option value="">(missing)</option>
+                </select>
+              </div>
+            );
+          })}
+        </div>
+
+        <div>
+          <div className="p-4 bg-blue-50 rounded-lg mb-4">
+            <div className="text-xs uppercase text-blue-700">{predictedClass !== null ? `Predicted ${config.targetColumn}` : outputLabel}</div>
+            <div className="text-3xl font-bold text-blue-900">
+              {predictedClass !== null ? predictedClass : formatMetricValue(result.prediction)}
+            </div>
+            {result.probabilities && (
+              <div className="text-xs text-blue-800 mt-1">
+                {classes.map((c, k) => `P(${c}) ${(result.probabilities![k] * 100).toFixed(1)}%`).join(' · ')}
+              </div>
+            )}
+            <div className="text-xs text-gray-500 mt-1">
+              Typical row: {config.taskType === 'classification' && `${outputLabel} `}{formatMetricValue(result.baselinePrediction)}
+            </div>
+          </div>
+
+          <div style={{ height: Math.max(160, result.contributions.length * 28 + 40) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={result.contributions} layout="vertical" margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                <XAxis type="number" tickFormatter={(v: number) => formatMetricValue(v)} />
+                <YAxis type="category" dataKey="feature" width={140} tick={{ fontSize: 11 }} />
+                <RechartsTooltip formatter={(v: number) => [formatMetricValue(v), `Contribution to ${outputLabel}`]} />
+                <Bar dataKey="contribution" isAnimationActive={false}>
+                  {result.contributions.map(c => (
+                    <Cell key={c.feature} fill={c.contribution >= 0 ? '#16a34a' : '#dc2626'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { createServer, request as httpRequest, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createAdvisorProxy } from "./advisorProxy.js";
+import { loadConfig, ProxyConfig } from "./config.js";
+import { createRateLimiter } from "./rateLimiter.js";
+import { createResponseCache } from "./responseCache.js";
+import { Upstream } from "./upstream.js";
+
+// The proxy runs on a real socket against an in-memory upstream and a clock the tests move
+
+const config: ProxyConfig = {
+  ...loadConfig({}),
+  apiKey: 'test-key',
+  maxBodyBytes: 4096,
+  maxPromptChars: 1000,
+  rateLimit: { requests: 2, windowMs: 60_000 },
+  cache: { maxEntries: 10, ttlMs: 10_000 },
+};
+
+const tipsBody = (prompt = 'How do I improve the model?') => ({
+  systemInstruction: 'You are a data science advisor.',
+  prompt,
+  responseSchema: { type: 'object', properties: {} },
+});
+
+const chatBody = { systemInstruction: 'You are a data science advisor.', messages: [{ role: 'user', text: 'Hello' }] };
+
+let server: Server;
+let baseUrl: string;
+let time: number;
+let upstreamCalls: number;
+let upstream: Upstream;
+
+const start = () =>
+  new Promise<void>(resolve => {
+    server = createServer(createAdvisorProxy({
+      config,
+      upstream,
+      rateLimiter: createRateLimiter(config.rateLimit.requests, config.rateLimit.windowMs, () => time),
+      cache: createResponseCache(config.cache.maxEntries, config.cache.ttlMs, () => time),
+    }));
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve();
+    });
+  });
+
+const post = (path: string, body: unknown) =>
+  fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+beforeEach(() => {
+  time = 0;
+  upstreamCalls = 0;
+  upstream = {
+    generateJSON: async () => {
+      upstreamCalls++;
+      return JSON.stringify({ tips: [], call: upstreamCalls });
+    },
+    stream: async (_request, onText) => {
+      upstreamCalls++;
+      onText('Hi');
+    },
+  };
+});
+
+afterEach(() => new Promise<void>(resolve => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+}));
+
+describe('tips cache', () => {
+  beforeEach(() => start());
+
+  it('answers a repeated request from the cache', async () => {
+    const first = await post('/advisor/tips', tipsBody());
+    expect(first.headers.get('x-cache')).toBe('MISS');
+    const second = await post('/advisor/tips', tipsBody());
+    expect(second.headers.get('x-cache')).toBe('HIT');
+    expect(await second.json()).toEqual(await first.json());
+    expect(upstreamCalls).toBe(1);
+  });
+
+  it('asks the upstream again once the entry has expired', async () => {
+    await post('/advisor/tips', tipsBody());
+    time += config.cache.ttlMs;
+    const response = await post('/advisor/tips', tipsBody());
+    expect(response.headers.get('x-cache')).toBe('MISS');
+    expect(upstreamCalls).toBe(2);
+  });
+});
+
+describe('rate limit', () => {
+  beforeEach(() => start());
+
+  it('returns 429 with Retry-After once the window is used up', async () => {
+    await post('/advisor/tips', tipsBody('first'));
+    await post('/advisor/tips', tipsBody('second'));
+    time += 15_000;
+    const limited = await post('/advisor/tips', tipsBody('third'));
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('45');
+    expect(upstreamCalls).toBe(2);
+  });
+
+  it('still serves cached answers to a limited client', async () => {
+    await post('/advisor/tips', tipsBody('first'));
+    await post('/advisor/tips', tipsBody('second'));
+    expect((await post('/advisor/tips', tipsBody('first'))).status).toBe(200);
+  });
+
+  it('allows requests again in the next window', async () => {
+    await post('/advisor/chat', chatBody);
+    await post('/advisor/chat', chatBody);
+    expect((await post('/advisor/chat', chatBody)).status).toBe(429);
+    time += config.rateLimit.windowMs;
+    expect((await post('/advisor/chat', chatBody)).status).toBe(200);
+  });
+});
+
+describe('validation', () => {
+  beforeEach(() => start());
+
+  it.each([
+    ['invalid JSON', '{"prompt":'],
+    ['a missing prompt', { ...tipsBody(), prompt: undefined }],
+    ['a model that is not allowed', { ...tipsBody(), model: 'some-other-model' }],
+    ['a schema that is not an object schema', { ...tipsBody(), responseSchema: { type: 'array' } }],
+  ])('rejects %s with 400', async (_case, body) => {
+    const response = await post('/advisor/tips', body);
+    expect(response.status).toBe(400);
+    expect(typeof (await response.json()).error).toBe('string');
+  });
+
+  it('rejects chat messages that do not alternate with 400', async () => {
+    const response = await post('/advisor/chat', { ...chatBody, messages: [{ role: 'user', text: 'a' }, { role: 'user', text: 'b' }] });
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects a body over the byte limit with 413', async () => {
+    const response = await post('/advisor/tips', tipsBody('x'.repeat(config.maxBodyBytes)));
+    expect(response.status).toBe(413);
+  });
+
+  it('rejects a prompt over the character limit with 413', async () => {
+    const response = await post('/advisor/tips', tipsBody('x'.repeat(config.maxPromptChars)));
+    expect(response.status).toBe(413);
+    expect(upstreamCalls).toBe(0);
+  });
+});
+
+describe('chat stream', () => {
+  it('streams the reply as server-sent events', async () => {
+    await start();
+    const response = await post('/advisor/chat', chatBody);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await response.text()).toBe('data: {"text":"Hi"}\n\ndata: [DONE]\n\n');
+  });
+
+  it('aborts the upstream request when the client disconnects', async () => {
+    const streamAborted = new Promise<void>(resolve => {
+      upstream.stream = (_request, onText, signal) => new Promise<void>((_resolve, reject) => {
+        onText('Hi');
+        signal.addEventListener('abort', () => {
+          resolve();
+          reject(signal.reason);
+        });
+      });
+    });
+    await start();
+
+    const client = httpRequest(`${baseUrl}/advisor/chat`, { method: 'POST', headers: { 'Content-Type': 'application/json' } });
+    client.on('error', () => {
+      // The socket is destroyed on purpose
+    });
+    client.on('response', response => response.once('data', () => client.destroy()));
+    client.end(JSON.stringify(chatBody));
+
+    await expect(streamAborted).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+import { createHash } from "node:crypto";
+import { IncomingMessage, RequestListener, ServerResponse } from "node:http";
+import { ProxyConfig } from "./config.js";
+import { RateLimiter } from "./rateLimiter.js";
+import { ResponseCache } from "./responseCache.js";
+import { Upstream } from "./upstream.js";
+import { parseChatRequest, parseTipsRequest, RequestError } from "./validation.js";
+
+// Routes:
+//   POST /advisor/tips  JSON-constrained tips; identical requests are answered from the cache
+//   POST /advisor/chat  a streamed chat reply as server-sent events: data: {"text": "..."} then data: [DONE]
+//   GET  /advisor/health
+// Cache hits are free; only requests that reach Gemini count against a client's rate limit.
+
+export interface AdvisorProxyOptions {
+  config: ProxyConfig;
+  upstream: Upstream;
+  rateLimiter: RateLimiter;
+  cache: ResponseCache;
+}
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Rejects oversized bodies as soon as they pass the limit instead of buffering them all
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    if (!(req.headers['content-type'] ?? '').startsWith('application/json')) {
+      reject(new RequestError(415, 'Send the request as application/json'));
+      return;
+    }
+    if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+      reject(new RequestError(413, `The request body must be under ${maxBytes} bytes`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new RequestError(413, `The request body must be under ${maxBytes} bytes`));
+        // Discard the rest so the 413 can still be sent on this connection
+        req.removeAllListeners('data');
+        req.resume();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new RequestError(400, 'The request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const clientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+};
+
+const cacheKey = (request: unknown): string =>
+  createHash('sha256').update(JSON.stringify(request)).digest('hex');
+
+export const createAdvisorProxy = ({ config, upstream, rateLimiter, cache }: AdvisorProxyOptions): RequestListener => {
+  const corsHeaders: Record<string, string> = config.allowedOrigin
+    ? {
+      'Access-Control-Allow-Origin': config.allowedOrigin,
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Vary': 'Origin',
+    }
+    : {};
+
+  const checkRateLimit = (req: IncomingMessage) => {
+    const decision = rateLimiter.take(clientId(req, config.trustProxy));
+    if (!decision.allowed) {
+      const seconds = Math.ceil(decision.retryAfterMs / 1000);
+      throw new RequestError(429, `Too many advisor requests. Try again in ${seconds} s.`, { 'Retry-After': String(seconds) });
+    }
+  };
+
+  const requireKey = () => {
+    if (!config.apiKey) throw new RequestError(503, 'The advisor proxy has no GEMINI_API_KEY configured');
+  };
+
+  const handleTips = async (req: IncomingMessage, res: ServerResponse) => {
+    const request = parseTipsRequest(await readBody(req, config.maxBodyBytes), config);
+    const key = cacheKey(request);
+    const cached = cache.get(key);
+    if (cached !== undefined) {
+      sendJSON(res, 200, { text: cached }, { ...corsHeaders, 'X-Cache': 'HIT' });
+      return;
+    }
+    requireKey();
+    checkRateLimit(req);
+    const text = await upstream.generateJSON(request);
+    if (text) cache.set(key, text);
+    sendJSON(res, 200, { text }, { ...corsHeaders, 'X-Cache': 'MISS' });
+  };
+
+  const handleChat = async (req: IncomingMessage, res: ServerResponse) => {
+    const request = parseChatRequest(await readBody(req, config.maxBodyBytes), config);
+    requireKey();
+    checkRateLimit(req);
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    // A client that goes away mid-stream should not keep spending upstream quota
+    const upstreamRequest = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) upstreamRequest.abort();
+    });
+    try {
+      await upstream.stream(request, delta => res.write(`data: ${JSON.stringify({ text: delta })}\n\n`), upstreamRequest.signal);
+      res.write('data: [DONE]\n\n');
+    } catch (err) {
+      if (upstreamRequest.signal.aborted) return;
+      // The status line is already sent, so the failure travels as an event
+      console.error('Upstream error:', err);
+      res.write(`data: ${JSON.stringify({ error: 'The upstream model request failed' })}\n\n`);
+    }
+    res.end();
+  };
+
+  return (req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const route = `${req.method} ${path}`;
+
+    const handled = (async () => {
+      switch (route) {
+        case 'OPTIONS /advisor/tips':
+        case 'OPTIONS /advisor/chat':
+          res.writeHead(204, corsHeaders);
+          res.end();
+          return;
+        case 'GET /advisor/health':
+          sendJSON(res, 200, { ok: true, keyConfigured: Boolean(config.apiKey), cachedResponses: cache.size() }, corsHeaders);
+          return;
+        case 'POST /advisor/tips':
+          return handleTips(req, res);
+        case 'POST /advisor/chat':
+          return handleChat(req, res);
+        default:
+          throw new RequestError(404, `No route for ${route}`);
+      }
+    })();
+
+    handled.catch(err => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (err instanceof RequestError) {
+        sendJSON(res, err.status, { error: err.message }, { ...corsHeaders, ...err.headers });
+        return;
+      }
+      console.error('Upstream error:', err);
+      sendJSON(res, 502, { error: 'The upstream model request failed' }, corsHeaders);
+    });
+  };
+};
@@ -0,0 +1,40 @@
+// The proxy is configured entirely through environment variables, so the key stays out of the repo.
+
+export interface ProxyConfig {
+  port: number;
+  apiKey: string; // GEMINI_API_KEY; requests fail with 503 while it is unset
+  upstreamBaseUrl: string | undefined; // point at a stub Gemini API for local testing
+  allowedModels: string[]; // the first is used when a request names none
+  allowedOrigin: string; // CORS origin, empty when the app is served from the same origin
+  trustProxy: boolean; // identify clients by X-Forwarded-For, only behind a trusted load balancer
+  maxBodyBytes: number;
+  maxPromptChars: number; // system instruction and messages together
+  maxOutputTokens: number;
+  rateLimit: { requests: number; windowMs: number }; // upstream calls per client
+  cache: { maxEntries: number; ttlMs: number };
+}
+
+const numberFromEnv = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ProxyConfig => ({
+  port: numberFromEnv(env.PORT, 8787),
+  apiKey: env.GEMINI_API_KEY ?? '',
+  upstreamBaseUrl: env.GEMINI_BASE_URL || undefined,
+  allowedModels: (env.ADVISOR_MODELS ?? 'gemini-2.5-flash').split(',').map(m => m.trim()).filter(Boolean),
+  allowedOrigin: env.ALLOWED_ORIGIN ?? '',
+  trustProxy: env.TRUST_PROXY === 'true',
+  maxBodyBytes: numberFromEnv(env.MAX_BODY_BYTES, 64 * 1024),
+  maxPromptChars: numberFromEnv(env.MAX_PROMPT_CHARS, 24000),
+  maxOutputTokens: numberFromEnv(env.MAX_OUTPUT_TOKENS, 8192),
+  rateLimit: {
+    requests: numberFromEnv(env.RATE_LIMIT_REQUESTS, 20),
+    windowMs: numberFromEnv(env.RATE_LIMIT_WINDOW_MS, 60_000),
+  },
+  cache: {
+    maxEntries: numberFromEnv(env.CACHE_MAX_ENTRIES, 200),
+    ttlMs: numberFromEnv(env.CACHE_TTL_MS, 10 * 60_000),
+  },
+});
@@ -0,0 +1,21 @@
+import { createServer } from "node:http";
+import { createAdvisorProxy } from "./advisorProxy.js";
+import { loadConfig } from "./config.js";
+import { createRateLimiter } from "./rateLimiter.js";
+import { createResponseCache } from "./responseCache.js";
+import { createGeminiUpstream } from "./upstream.js";
+
+const config = loadConfig();
+
+const proxy = createAdvisorProxy({
+  config,
+  upstream: createGeminiUpstream(config.apiKey, config.upstreamBaseUrl),
+  rateLimiter: createRateLimiter(config.rateLimit.requests, config.rateLimit.windowMs),
+  cache: createResponseCache(config.cache.maxEntries, config.cache.ttlMs),
+});
+
+createServer(proxy).listen(config.port, () => {
+  console.log(`Advisor proxy listening on http://localhost:${config.port}`);
+  console.log(`Upstream: ${config.upstreamBaseUrl ?? 'Gemini API'} · models: ${config.allowedModels.join(', ')}`);
+  if (!config.apiKey) console.warn('GEMINI_API_KEY is not set; advisor requests will fail with 503.');
+});
@@ -0,0 +1,39 @@
+// Fixed-window request counting per client. Windows are kept in memory, so limits reset
+// when the proxy restarts and are not shared between instances.
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterMs: number; // until the client's window resets; 0 when allowed
+}
+
+export interface RateLimiter {
+  take: (client: string) => RateLimitDecision;
+}
+
+export const createRateLimiter = (
+  requests: number,
+  windowMs: number,
+  now: () => number = Date.now
+): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const prune = (time: number) => {
+    windows.forEach((window, client) => {
+      if (time - window.start >= windowMs) windows.delete(client);
+    });
+  };
+
+  return {
+    take: (client) => {
+      const time = now();
+      prune(time);
+      const window = windows.get(client) ?? { start: time, count: 0 };
+      windows.set(client, window);
+      if (window.count >= requests) {
+        return { allowed: false, retryAfterMs: window.start + windowMs - time };
+      }
+      window.count++;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
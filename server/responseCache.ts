@@ -0,0 +1,35 @@
+// Least-recently-used cache with a time to live. A Map keeps insertion order, so
+// re-inserting on every hit leaves the oldest entry first.
+
+export interface ResponseCache {
+  get: (key: string) => string | undefined;
+  set: (key: string, value: string) => void;
+  size: () => number;
+}
+
+export const createResponseCache = (
+  maxEntries: number,
+  ttlMs: number,
+  now: () => number = Date.now
+): ResponseCache => {
+  const entries = new Map<string, { value: string; expires: number }>();
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expires <= now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, { value, expires: now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    size: () => entries.size,
+  };
+};
@@ -0,0 +1,82 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+
+// A stand-in for the Gemini REST API, for running the proxy without a key or network:
+//   STUB_PORT=8788 node server/dist/stubUpstream.js
+//   GEMINI_API_KEY=stub GEMINI_BASE_URL=http://localhost:8788 node server/dist/index.js
+// It answers generateContent with fixed tips and streamGenerateContent by echoing the question.
+
+const port = Number(process.env.STUB_PORT) || 8788;
+const WORD_DELAY_MS = 50;
+
+const STUB_TIPS = {
+  tips: [{
+    title: 'Stub tip from the local upstream',
+    category: 'model_selection',
+    rationale: 'This response comes from server/stubUpstream.ts, not from Gemini.',
+    expectedImpact: 'low',
+    action: { type: 'none' },
+  }],
+};
+
+const candidate = (text: string) => ({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readJSON = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const partText = (part: unknown): string =>
+  isObject(part) && typeof part.text === 'string' ? part.text : '';
+
+const lastUserText = (body: unknown): string => {
+  const contents = isObject(body) && Array.isArray(body.contents) ? body.contents : [];
+  const last = [...contents].reverse().find(c => isObject(c) && c.role === 'user');
+  return isObject(last) && Array.isArray(last.parts) ? last.parts.map(partText).join('') : '';
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const body = await readJSON(req);
+  console.log(`${req.method} ${path}`);
+
+  if (path.endsWith(':generateContent')) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(candidate(JSON.stringify(STUB_TIPS))));
+    return;
+  }
+  if (path.endsWith(':streamGenerateContent')) {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    const reply = `Stub reply. You asked: "${lastUserText(body)}"`;
+    // Word by word with a pause, so a client disconnect mid-stream can be observed
+    for (const word of reply.split(/(?<=\s)/)) {
+      if (res.destroyed) {
+        console.log('Stream aborted by the proxy');
+        return;
+      }
+      res.write(`data: ${JSON.stringify(candidate(word))}\r\n\r\n`);
+      await new Promise(resolve => setTimeout(resolve, WORD_DELAY_MS));
+    }
+    res.end();
+    return;
+  }
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: { code: 404, message: `Stub has no route for ${path}` } }));
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(err => {
+    console.error(err);
+    res.writeHead(500);
+    res.end();
+  });
+}).listen(port, () => console.log(`Stub Gemini upstream listening on http://localhost:${port}`));
@@ -0,0 +1,50 @@
+import { GoogleGenAI, GenerateContentParameters } from "@google/genai";
+import { ChatRequest, ChatTurn, TipsRequest } from "./validation.js";
+
+// The only module that talks to Gemini. Swapping the base URL points it at a stub server.
+
+export interface Upstream {
+  generateJSON: (request: TipsRequest) => Promise<string>;
+  // Aborting the signal stops reading and closes the upstream connection
+  stream: (request: ChatRequest, onText: (delta: string) => void, signal: AbortSignal) => Promise<void>;
+}
+
+const toContents = (turns: ChatTurn[]) =>
+  turns.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+
+export const createGeminiUpstream = (apiKey: string, baseUrl?: string): Upstream => {
+  const ai = new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+
+  return {
+    generateJSON: async (request) => {
+      const params: GenerateContentParameters = {
+        model: request.model,
+        contents: toContents([{ role: 'user', text: request.prompt }]),
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          responseMimeType: 'application/json',
+          responseJsonSchema: request.responseSchema,
+        },
+      };
+      const response = await ai.models.generateContent(params);
+      return response.text ?? '';
+    },
+    stream: async (request, onText, signal) => {
+      const stream = await ai.models.generateContentStream({
+        model: request.model,
+        contents: toContents(request.messages),
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          abortSignal: signal,
+        },
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) onText(chunk.text);
+      }
+    },
+  };
+};
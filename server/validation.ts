@@ -0,0 +1,107 @@
+import { ProxyConfig } from "./config.js";
+
+// Request bodies are checked field by field; anything unexpected is rejected rather than
+// forwarded, so the proxy cannot be used to send arbitrary requests with our key.
+
+export class RequestError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+interface GenerationOptions {
+  model: string;
+  systemInstruction: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export interface TipsRequest extends GenerationOptions {
+  prompt: string;
+  responseSchema: Record<string, unknown>;
+}
+
+export interface ChatRequest extends GenerationOptions {
+  messages: ChatTurn[]; // alternating, starting and ending with the user
+}
+
+const MAX_MESSAGES = 50;
+const MAX_SCHEMA_CHARS = 8000;
+const MAX_TEMPERATURE = 2;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim() === '') throw new RequestError(400, `"${field}" must be a non-empty string`);
+  return value;
+};
+
+const optionalNumber = (body: Record<string, unknown>, field: string, min: number, max: number, fallback: number): number => {
+  const value = body[field];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new RequestError(400, `"${field}" must be a number from ${min} to ${max}`);
+  }
+  return value;
+};
+
+const parseGenerationOptions = (body: Record<string, unknown>, config: ProxyConfig): GenerationOptions => {
+  const model = body.model === undefined ? config.allowedModels[0] : body.model;
+  if (typeof model !== 'string' || !config.allowedModels.includes(model)) {
+    throw new RequestError(400, `"model" must be one of: ${config.allowedModels.join(', ')}`);
+  }
+  return {
+    model,
+    systemInstruction: requireString(body, 'systemInstruction'),
+    temperature: optionalNumber(body, 'temperature', 0, MAX_TEMPERATURE, 0.7),
+    maxOutputTokens: Math.round(optionalNumber(body, 'maxOutputTokens', 1, config.maxOutputTokens, 2048)),
+  };
+};
+
+const checkPromptSize = (chars: number, config: ProxyConfig) => {
+  if (chars > config.maxPromptChars) {
+    throw new RequestError(413, `The prompt is ${chars} characters; the limit is ${config.maxPromptChars}`);
+  }
+};
+
+export const parseTipsRequest = (body: unknown, config: ProxyConfig): TipsRequest => {
+  if (!isObject(body)) throw new RequestError(400, 'The request body must be a JSON object');
+  const options = parseGenerationOptions(body, config);
+  const prompt = requireString(body, 'prompt');
+  checkPromptSize(options.systemInstruction.length + prompt.length, config);
+  const { responseSchema } = body;
+  if (!isObject(responseSchema) || responseSchema.type !== 'object') {
+    throw new RequestError(400, '"responseSchema" must be a JSON Schema for an object');
+  }
+  if (JSON.stringify(responseSchema).length > MAX_SCHEMA_CHARS) {
+    throw new RequestError(413, `"responseSchema" must be under ${MAX_SCHEMA_CHARS} characters`);
+  }
+  return { ...options, prompt, responseSchema };
+};
+
+export const parseChatRequest = (body: unknown, config: ProxyConfig): ChatRequest => {
+  if (!isObject(body)) throw new RequestError(400, 'The request body must be a JSON object');
+  const options = parseGenerationOptions(body, config);
+  const { messages } = body;
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_MESSAGES) {
+    throw new RequestError(400, `"messages" must hold 1 to ${MAX_MESSAGES} messages`);
+  }
+  const turns = messages.map((message, i): ChatTurn => {
+    const expected = i % 2 === 0 ? 'user' : 'model';
+    if (!isObject(message) || message.role !== expected || typeof message.text !== 'string') {
+      throw new RequestError(400, `Message ${i + 1} must be a ${expected} message with text`);
+    }
+    return { role: expected, text: message.text };
+  });
+  if (turns[turns.length - 1].role !== 'user') throw new RequestError(400, 'The last message must be from the user');
+  checkPromptSize(turns.reduce((total, turn) => total + turn.text.length, options.systemInstruction.length), config);
+  return { ...options, messages: turns };
+};
@@ -0,0 +1,66 @@
+import { AdvisorPrompt, AdvisorTip, ChatMessage, ModelMetrics } from "../types";
+import { ADVISOR_TIPS_SCHEMA, AdvisorContext, parseAdvisorTips } from "../utils/advisor";
+import { restoreAliases } from "../utils/advisorPrompt";
+
+// Every advisor backend answers the same two requests. LLM backends send the prompt exactly
+// as built by utils/advisorPrompt, through createLLMAdvisor; the mock answers from the data directly.
+
+export interface AdvisorProvider {
+  // Throws when the backend fails or the response cannot be parsed
+  generateTips: (prompt: AdvisorPrompt, metrics: ModelMetrics, context: AdvisorContext) => Promise<AdvisorTip[]>;
+  // Streams the reply to the last message in history, calling onText with the reply so far.
+  // Aborting the signal stops the request; the promise then rejects.
+  streamReply: (
+    prompt: AdvisorPrompt,
+    metrics: ModelMetrics,
+    context: AdvisorContext,
+    tips: AdvisorTip[] | null,
+    history: ChatMessage[],
+    onText: (text: string) => void,
+    signal: AbortSignal
+  ) => Promise<string>;
+}
+
+// A chat-completion transport. Messages alternate and start with the user.
+export interface LLMBackend {
+  complete: (systemInstruction: string, messages: ChatMessage[], jsonSchema: object) => Promise<string>;
+  stream: (systemInstruction: string, messages: ChatMessage[], onText: (text: string) => void, signal: AbortSignal) => Promise<string>;
+}
+
+// Calls onData with the payload of each "data:" line of a server-sent event stream
+export const readEventStream = async (response: Response, onData: (data: string) => void): Promise<void> => {
+  if (!response.body) throw new Error("The server returned an empty stream");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    lines
+      .map(line => line.trim())
+      .filter(line => line.startsWith('data:'))
+      .forEach(line => onData(line.slice(5).trim()));
+    if (done) return;
+  }
+};
+
+// Local models often wrap JSON in a Markdown code fence even when asked not to
+const stripCodeFence = (text: string): string =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Placeholders from privacy mode are swapped back before the tips are checked against the data
+export const createLLMAdvisor = (backend: LLMBackend): AdvisorProvider => ({
+  generateTips: async (prompt, _metrics, context) => {
+    const text = await backend.complete(prompt.systemInstruction, prompt.messages, ADVISOR_TIPS_SCHEMA);
+    if (!text) throw new Error("No tips could be generated at this time.");
+    const json = restoreAliases(stripCodeFence(text), prompt.aliases, name => JSON.stringify(name).slice(1, -1));
+    return parseAdvisorTips(json, context);
+  },
+  streamReply: async (prompt, _metrics, _context, _tips, _history, onText, signal) => {
+    const reply = await backend.stream(prompt.systemInstruction, prompt.messages, text => onText(restoreAliases(text, prompt.aliases)), signal);
+    if (!reply) throw new Error("The advisor did not reply. Please try again.");
+    return restoreAliases(reply, prompt.aliases);
+  },
+});
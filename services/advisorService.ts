@@ -0,0 +1,100 @@
+import { AdvisorPrompt, AdvisorProviderId, AdvisorTip, ChatMessage, LLMSettings, ModelMetrics } from "../types";
+import { AdvisorContext } from "../utils/advisor";
+import { AdvisorProvider, createLLMAdvisor } from "./advisorProvider";
+import { createGeminiBackend } from "./geminiProvider";
+import { createOpenAICompatibleBackend } from "./openAIProvider";
+import { createMockAdvisor } from "./mockProvider";
+
+export const ADVISOR_PROVIDERS: { id: AdvisorProviderId; name: string; desc: string; defaultModel: string }[] = [
+  { id: 'gemini', name: 'Google Gemini', desc: 'Through the advisor proxy (npm run proxy), which holds the API key.', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai_compatible', name: 'OpenAI-compatible', desc: 'Any /v1/chat/completions server, such as a local Ollama or llama.cpp.', defaultModel: 'llama3.1' },
+  { id: 'mock', name: 'Offline mock', desc: 'Deterministic rule-based tips. No network, for development and tests.', defaultModel: 'rules' },
+];
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2, step: 0.1 };
+export const MAX_OUTPUT_TOKENS_RANGE = { min: 256, max: 8192, step: 256 };
+// The top stays under the proxy's default prompt limit of 24,000 characters
+export const TOKEN_BUDGET_RANGE = { min: 500, max: 5000, step: 250 };
+
+export const defaultLLMSettings = (): LLMSettings => ({
+  provider: 'gemini',
+  model: ADVISOR_PROVIDERS[0].defaultModel,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  temperature: 0.7,
+  maxOutputTokens: 2048,
+  tokenBudget: 2000,
+  privacyMode: false,
+  reviewPrompts: true,
+});
+
+// --- Persistence ---
+
+const SETTINGS_KEY = 'automl-wizard:advisor-settings';
+
+// Unreadable or partial settings fall back to the defaults field by field
+export const loadLLMSettings = (): LLMSettings => {
+  const defaults = defaultLLMSettings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    return {
+      provider: ADVISOR_PROVIDERS.some(p => p.id === saved.provider) ? saved.provider : defaults.provider,
+      model: typeof saved.model === 'string' && saved.model ? saved.model : defaults.model,
+      baseUrl: typeof saved.baseUrl === 'string' && saved.baseUrl ? saved.baseUrl : defaults.baseUrl,
+      apiKey: '',
+      temperature: Number.isFinite(saved.temperature) ? saved.temperature : defaults.temperature,
+      maxOutputTokens: Number.isFinite(saved.maxOutputTokens) ? saved.maxOutputTokens : defaults.maxOutputTokens,
+      tokenBudget: Number.isFinite(saved.tokenBudget) ? saved.tokenBudget : defaults.tokenBudget,
+      privacyMode: typeof saved.privacyMode === 'boolean' ? saved.privacyMode : defaults.privacyMode,
+      reviewPrompts: typeof saved.reviewPrompts === 'boolean' ? saved.reviewPrompts : defaults.reviewPrompts,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+// The API key is left out so it never lands in storage
+export const saveLLMSettings = (settings: LLMSettings): void => {
+  const { apiKey: _apiKey, ...rest } = settings;
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(rest));
+  } catch (err) {
+    console.error(err);
+  }
+};
+
+// --- Advisor requests ---
+
+const createAdvisorProvider = (settings: LLMSettings): AdvisorProvider => {
+  switch (settings.provider) {
+    case 'openai_compatible':
+      return createLLMAdvisor(createOpenAICompatibleBackend(settings));
+    case 'mock':
+      return createMockAdvisor();
+    case 'gemini':
+    default:
+      return createLLMAdvisor(createGeminiBackend(settings));
+  }
+};
+
+// The prompt comes from buildTipsPrompt, so what was reviewed is what is sent.
+// Throws when the provider fails or the response cannot be parsed.
+export const generateMLTips = (
+  prompt: AdvisorPrompt,
+  metrics: ModelMetrics,
+  context: AdvisorContext,
+  settings: LLMSettings
+): Promise<AdvisorTip[]> => createAdvisorProvider(settings).generateTips(prompt, metrics, context);
+
+// Streams the advisor's reply to the last user message, calling onText with the reply so far.
+// The prompt comes from buildChatPrompt, which carries the whole history; the conversation lives with the caller.
+export const streamAdvisorReply = (
+  prompt: AdvisorPrompt,
+  metrics: ModelMetrics,
+  context: AdvisorContext,
+  tips: AdvisorTip[] | null,
+  history: ChatMessage[], // ends with the user's new message
+  settings: LLMSettings,
+  onText: (text: string) => void,
+  signal: AbortSignal
+): Promise<string> => createAdvisorProvider(settings).streamReply(prompt, metrics, context, tips, history, onText, signal);
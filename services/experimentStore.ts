@@ -0,0 +1,51 @@
+import { Experiment } from "../types";
+
+// Experiment history lives in IndexedDB so it survives reloads and is not limited
+// by localStorage's size cap.
+
+const DB_NAME = 'automl-wizard';
+const DB_VERSION = 1;
+const STORE = 'experiments';
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    database = requestResult(request);
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return requestResult(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+// Newest first
+export const listExperiments = async (): Promise<Experiment[]> => {
+  const experiments = await withStore<Experiment[]>('readonly', store => store.getAll());
+  return experiments.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const saveExperiment = async (experiment: Experiment): Promise<void> => {
+  await withStore('readwrite', store => store.put(experiment));
+};
+
+export const deleteExperiment = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const clearExperiments = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
@@ -0,0 +1,63 @@
+import { LLMSettings } from "../types";
+import { LLMBackend, readEventStream } from "./advisorProvider";
+
+// Gemini is reached through the advisor proxy in server/, which holds the API key, so the
+// key never ships in the browser bundle. The dev server forwards /advisor to it.
+
+const PROXY_URL = (process.env.ADVISOR_PROXY_URL || '/advisor').replace(/\/+$/, '');
+
+const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(`${PROXY_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error: unknown) {
+    if (signal?.aborted) throw error;
+    console.error("Advisor proxy error:", error);
+    throw new Error("Could not reach the advisor proxy. Start it with `npm run proxy`, or choose another provider in the advisor settings.");
+  }
+  if (!response.ok) {
+    // The proxy explains validation, rate-limit and key problems in an error field
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? `The advisor proxy returned ${response.status}`);
+  }
+  return response;
+};
+
+export const createGeminiBackend = (settings: LLMSettings): LLMBackend => {
+  const options = {
+    model: settings.model,
+    temperature: settings.temperature,
+    maxOutputTokens: settings.maxOutputTokens,
+  };
+
+  return {
+    // Tips requests are single-turn, so the prompt is the one user message
+    complete: async (systemInstruction, messages, jsonSchema) => {
+      const response = await post('/tips', {
+        ...options,
+        systemInstruction,
+        prompt: messages[messages.length - 1].text,
+        responseSchema: jsonSchema,
+      });
+      const data = await response.json().catch(() => null);
+      return typeof data?.text === 'string' ? data.text : '';
+    },
+    stream: async (systemInstruction, messages, onText, signal) => {
+      const response = await post('/chat', { ...options, systemInstruction, messages }, signal);
+      let reply = '';
+      await readEventStream(response, data => {
+        if (data === '[DONE]') return;
+        const event = JSON.parse(data);
+        if (event.error) throw new Error(event.error);
+        reply += event.text ?? '';
+        onText(reply);
+      });
+      return reply;
+    },
+  };
+};
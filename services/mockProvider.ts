@@ -0,0 +1,130 @@
+import { AdvisorTip, ModelMetrics } from "../types";
+import { AdvisorContext, advisorActionProblem, describeAdvisorAction } from "../utils/advisor";
+import { formatMetricValue, GAP_METRIC, generalizationGap, METRIC_LABELS, OVERFITTING_GAP, scalarMetrics } from "../utils/metrics";
+import { AdvisorProvider } from "./advisorProvider";
+
+// A rule-based stand-in for an LLM: the same inputs always give the same tips and replies,
+// so the advisor works offline and can be developed and tested without an API key.
+
+const MAX_TIPS = 4;
+const SKEWED = 1; // |skewness| above which a log transform is suggested
+const STREAM_DELAY_MS = 15;
+
+const mockTips = (metrics: ModelMetrics, context: AdvisorContext): AdvisorTip[] => {
+  const { config, stats, rawStats, cleaningOptions } = context;
+  const candidates: AdvisorTip[] = [];
+  const target = stats.find(s => s.name === config.targetColumn);
+
+  if (config.taskType === 'regression' && target?.numeric && Math.abs(target.numeric.skewness) > SKEWED) {
+    candidates.push({
+      title: `Log-transform ${config.targetColumn}`,
+      category: 'preprocessing',
+      rationale: `The target has skewness ${target.numeric.skewness.toFixed(2)}. Modelling log(1 + y) evens out the errors across its range.`,
+      expectedImpact: 'high',
+      action: { type: 'log_transform', column: config.targetColumn },
+    });
+  }
+
+  rawStats
+    .filter(raw => raw.missingCount > 0)
+    .filter(raw => ['none', 'drop_rows'].includes(cleaningOptions.columns[raw.name]?.strategy.method ?? 'none'))
+    .forEach(raw => candidates.push({
+      title: `Impute ${raw.name} instead of dropping it`,
+      category: 'data_quality',
+      rationale: `${raw.name} has ${raw.missingCount} missing values. Filling them keeps those rows for training.`,
+      expectedImpact: 'medium',
+      action: { type: 'set_cleaning', column: raw.name, method: raw.type === 'number' ? 'median' : 'mode' },
+    }));
+
+  const gap = generalizationGap(metrics);
+  if (gap && gap.gap > OVERFITTING_GAP) {
+    const algorithm = config.taskType === 'regression' ? 'ridge' : 'logistic_regression';
+    candidates.push({
+      title: 'Reduce overfitting with a simpler model',
+      category: 'model_selection',
+      rationale: `Training ${METRIC_LABELS[gap.metric] ?? gap.metric} is ${gap.gap.toFixed(3)} above the test score, so the model memorises the training rows.`,
+      expectedImpact: 'high',
+      action: { type: 'set_algorithm', algorithm },
+    });
+  } else if (['linear_regression', 'ridge', 'logistic_regression'].includes(config.algorithm)) {
+    candidates.push({
+      title: 'Try a random forest for non-linear effects',
+      category: 'model_selection',
+      rationale: 'A linear model cannot capture interactions or thresholds. A forest can, without much tuning.',
+      expectedImpact: 'medium',
+      action: { type: 'set_algorithm', algorithm: 'random_forest' },
+    });
+  }
+
+  stats
+    .filter(s => s.numeric && config.featureColumns.includes(s.name) && Math.abs(s.numeric.skewness) > SKEWED)
+    .forEach(s => candidates.push({
+      title: `Log-transform ${s.name}`,
+      category: 'feature_engineering',
+      rationale: `${s.name} has skewness ${s.numeric!.skewness.toFixed(2)}, so a few large values dominate its effect.`,
+      expectedImpact: 'medium',
+      action: { type: 'log_transform', column: s.name },
+    }));
+
+  stats
+    .filter(s => s.numeric && s.semanticType !== 'id' && s.name !== config.targetColumn && !config.featureColumns.includes(s.name))
+    .forEach(s => candidates.push({
+      title: `Add ${s.name} as a feature`,
+      category: 'feature_engineering',
+      rationale: `${s.name} is numeric but unused. It may carry signal the current features miss.`,
+      expectedImpact: 'medium',
+      action: { type: 'add_feature', column: s.name },
+    }));
+
+  const weakest = [...(metrics.explanations?.permutation ?? [])].sort((a, b) => a.importance - b.importance)[0];
+  if (weakest && weakest.importance <= 0) {
+    candidates.push({
+      title: `Drop ${weakest.feature}`,
+      category: 'feature_engineering',
+      rationale: `Shuffling ${weakest.feature} does not hurt the score, so it adds noise rather than signal.`,
+      expectedImpact: 'low',
+      action: { type: 'drop_feature', column: weakest.feature },
+    });
+  }
+
+  const tips = candidates.filter(tip => !advisorActionProblem(tip.action, context)).slice(0, MAX_TIPS);
+  return tips.length > 0 ? tips : [{
+    title: 'No obvious improvements',
+    category: 'model_selection',
+    rationale: 'The data and settings pass every rule this offline advisor checks. Compare algorithms with "Run all" to be sure.',
+    expectedImpact: 'low',
+    action: { type: 'none' },
+  }];
+};
+
+const mockReply = (metrics: ModelMetrics, context: AdvisorContext, tips: AdvisorTip[] | null, question: string): string => {
+  const { config } = context;
+  const metric = GAP_METRIC[metrics.task];
+  const score = scalarMetrics(metrics)[metric];
+  const suggestions = tips ?? mockTips(metrics, context);
+  return [
+    `(Offline mock advisor) You asked: "${question}"`,
+    `This ${config.algorithm.replace(/_/g, ' ')} model predicts ${config.targetColumn} from ${config.featureColumns.length} feature(s) with ${METRIC_LABELS[metric] ?? metric} ${formatMetricValue(score)}.`,
+    'Suggested next steps:',
+    ...suggestions.map(tip => `- ${tip.title}: ${describeAdvisorAction(tip.action)}`),
+  ].join('\n');
+};
+
+const pause = () => new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+
+export const createMockAdvisor = (): AdvisorProvider => ({
+  generateTips: async (_prompt, metrics, context) => mockTips(metrics, context),
+  streamReply: async (_prompt, metrics, context, tips, history, onText, signal) => {
+    const reply = mockReply(metrics, context, tips, history[history.length - 1]?.text ?? '');
+    // Word by word, like a real stream
+    const words = reply.split(/(?<=\s)/);
+    let sent = '';
+    for (const word of words) {
+      await pause();
+      signal.throwIfAborted();
+      sent += word;
+      onText(sent);
+    }
+    return reply;
+  },
+});
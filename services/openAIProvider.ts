@@ -0,0 +1,70 @@
+import { ChatMessage, LLMSettings } from "../types";
+import { LLMBackend, readEventStream } from "./advisorProvider";
+
+// Speaks the OpenAI chat-completions protocol, which Ollama, llama.cpp's server, vLLM and
+// LM Studio all serve. The server must allow cross-origin requests from this page.
+
+const toOpenAIMessages = (systemInstruction: string, messages: ChatMessage[]) => [
+  { role: 'system', content: systemInstruction },
+  ...messages.map(message => ({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text })),
+];
+
+export const createOpenAICompatibleBackend = (settings: LLMSettings): LLMBackend => {
+  const endpoint = `${settings.baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (body: object, signal?: AbortSignal): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: settings.temperature,
+          max_tokens: settings.maxOutputTokens,
+          ...body,
+        }),
+        signal,
+      });
+    } catch (error: unknown) {
+      if (signal?.aborted) throw error;
+      console.error("Advisor endpoint error:", error);
+      throw new Error(`Could not reach ${endpoint}. Check that the server is running and allows requests from this page.`);
+    }
+    if (!response.ok) {
+      console.error("Advisor endpoint error:", response.status, await response.text().catch(() => ''));
+      throw new Error(`${endpoint} returned ${response.status} ${response.statusText}`.trim());
+    }
+    return response;
+  };
+
+  return {
+    complete: async (systemInstruction, messages, jsonSchema) => {
+      const response = await post({
+        messages: toOpenAIMessages(systemInstruction, messages),
+        response_format: { type: 'json_schema', json_schema: { name: 'advisor_response', schema: jsonSchema } },
+      });
+      const data = await response.json().catch(() => null);
+      return data?.choices?.[0]?.message?.content ?? '';
+    },
+    stream: async (systemInstruction, messages, onText, signal) => {
+      const response = await post({ messages: toOpenAIMessages(systemInstruction, messages), stream: true }, signal);
+      let reply = '';
+      await readEventStream(response, data => {
+        if (data === '[DONE]') return;
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (typeof delta !== 'string' || delta === '') return;
+          reply += delta;
+          onText(reply);
+        } catch {
+          // Keep-alive comments and partial events carry no text
+        }
+      });
+      return reply;
+    },
+  };
+};
@@ -0,0 +1,85 @@
+import {
+  AutoMLOptions, DataRow, LeaderboardEntry, LossPoint, ModelConfig, ModelMetrics,
+  TrainingJob, TrainingProgress, TrainingWorkerMessage
+} from "../types";
+
+export class TrainingCancelledError extends Error {
+  constructor() {
+    super("Training was cancelled");
+    this.name = 'TrainingCancelledError';
+  }
+}
+
+export interface TrainingHandle<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export type ProgressListener = (progress: TrainingProgress, lossPoints: LossPoint[]) => void;
+
+// Each job gets its own worker, so cancelling is simply terminating it
+const runJob = <T>(
+  job: TrainingJob,
+  onProgress: ProgressListener,
+  pickResult: (message: TrainingWorkerMessage) => T | undefined
+): TrainingHandle<T> => {
+  const worker = new Worker(new URL('../workers/training.worker.ts', import.meta.url), { type: 'module' });
+  let rejectPromise: (reason: Error) => void = () => {};
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectPromise = reject;
+
+    worker.onmessage = (event: MessageEvent<TrainingWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress, message.lossPoints);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+      const result = pickResult(message);
+      if (result === undefined) {
+        reject(new Error(`Unexpected worker message: ${message.type}`));
+      } else {
+        resolve(result);
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Training worker crashed"));
+    };
+  });
+
+  worker.postMessage(job);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectPromise(new TrainingCancelledError());
+    },
+  };
+};
+
+export const trainInWorker = (
+  data: DataRow[],
+  config: ModelConfig,
+  onProgress: ProgressListener
+): TrainingHandle<ModelMetrics> =>
+  runJob({ type: 'train', data, config }, onProgress, message =>
+    message.type === 'result' ? message.metrics : undefined
+  );
+
+export const runAutoMLInWorker = (
+  data: DataRow[],
+  config: ModelConfig,
+  options: AutoMLOptions,
+  onProgress: ProgressListener
+): TrainingHandle<LeaderboardEntry[]> =>
+  runJob({ type: 'automl', data, config, options }, onProgress, message =>
+    message.type === 'leaderboard' ? message.entries : undefined
+  );
@@ -2,37 +2,560 @@ export interface DataRow {
   [key: string]: string | number | null;
 }
 
+export interface RejectedRow {
+  line: number; // 1-based line in the source file where the record starts
+  reason: string;
+  raw: string;
+}
+
+export interface ParseResult {
+  headers: string[];
+  rows: DataRow[];
+  rejectedRows: RejectedRow[];
+  delimiter: string;
+}
+
+// What the values mean, as opposed to how they are stored
+export type SemanticType = 'integer' | 'float' | 'boolean' | 'date' | 'categorical' | 'id' | 'text';
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface NumericSummary {
+  min: number;
+  max: number;
+  mean: number;
+  std: number; // sample standard deviation
+  skewness: number;
+  kurtosis: number; // excess kurtosis, 0 for a normal distribution
+  q1: number;
+  median: number;
+  q3: number;
+}
+
 export interface ColumnStat {
   name: string;
-  type: 'number' | 'string';
+  type: 'number' | 'string'; // storage type, drives encoding and imputation
+  semanticType: SemanticType;
   missingCount: number;
   uniqueCount: number;
   sample: (string | number | null)[];
+  numeric?: NumericSummary; // number columns only
+  histogram?: HistogramBin[]; // number columns only
+  topValues?: { value: string; count: number }[]; // most frequent values, most common first
+}
+
+export interface CorrelationMatrix {
+  method: 'pearson' | 'spearman';
+  columns: string[];
+  values: number[][]; // NaN where a column is constant
+}
+
+export type ImputationStrategy =
+  | { method: 'none' }
+  | { method: 'drop_rows' }
+  | { method: 'mean' } // numeric only
+  | { method: 'median' } // numeric only
+  | { method: 'mode' }
+  | { method: 'constant'; value: string } // parsed as a number for numeric columns
+  | { method: 'forward_fill' } // previous observed value; leading gaps take the first one
+  | { method: 'backward_fill' } // next observed value; trailing gaps take the last one
+  | { method: 'knn'; neighbors: number } // mean or majority of the nearest rows on the other numeric columns
+  | { method: 'regression' }; // numeric only, least squares on the other numeric columns
+
+export interface ColumnCleaning {
+  strategy: ImputationStrategy;
+  addIndicator: boolean; // add a 0/1 "<column>_was_missing" column
+}
+
+export type OutlierDetection =
+  | { method: 'none' }
+  | { method: 'iqr'; multiplier: number } // outside [Q1 - k*IQR, Q3 + k*IQR]
+  | { method: 'zscore'; threshold: number } // |x - mean| / std above the threshold
+  | { method: 'modified_zscore'; threshold: number }; // 0.6745 * |x - median| / MAD above the threshold
+
+export type OutlierTreatment = 'flag' | 'remove' | 'cap'; // cap = winsorize to the detection bounds
+
+export interface ColumnOutlierRule {
+  detection: OutlierDetection;
+  treatment: OutlierTreatment;
+}
+
+// Multivariate detection; rows with a missing value in any of the columns are not scored
+export interface IsolationForestRule {
+  enabled: boolean;
+  columns: string[];
+  contamination: number; // share of scored rows treated as outliers, e.g. 0.05
+  treatment: Exclude<OutlierTreatment, 'cap'>;
+}
+
+export interface OutlierOptions {
+  columns: Record<string, ColumnOutlierRule>; // numeric columns only
+  isolationForest: IsolationForestRule;
+}
+
+export interface OutlierFinding {
+  column: string | null; // the rule's column, or null for the isolation forest over several columns
+  treatment: OutlierTreatment;
+  rows: number[]; // indices into the data the rule was run on
+  lower?: number; // bounds of the per-column rules
+  upper?: number;
 }
 
 export interface CleaningOptions {
-  method: 'drop_rows' | 'fill_mean' | 'fill_median' | 'fill_mode';
-  targetColumns: string[];
+  columns: Record<string, ColumnCleaning>; // columns without an entry are left as they are
+  outliers: OutlierOptions;
+}
+
+export type CleaningOperation =
+  | 'outlier_cap'
+  | 'outlier_flag'
+  | 'outlier_remove'
+  | 'missing_indicator'
+  | 'drop_rows'
+  | 'impute'
+  | 'deduplicate';
+
+export interface CleaningAuditEntry {
+  operation: CleaningOperation;
+  column: string | null; // null for whole-row operations such as deduplication
+  method: string; // e.g. "median", "iqr", "isolation forest"
+  rows: number[]; // indices into the raw data
+  fillValue?: string | number; // when every affected row received the same value
+  addedColumn?: string; // indicator and flag columns
+  duplicateOf?: number[]; // for deduplicate: the kept raw row each removed row repeats
+  detail?: string;
+}
+
+export interface CleaningResult {
+  data: DataRow[];
+  audit: CleaningAuditEntry[];
+  sourceRows: number[]; // raw row index of each cleaned row
+}
+
+// A column computed from an expression over the cleaned columns and earlier derived ones
+export interface DerivedColumn {
+  name: string;
+  expression: string;
+}
+
+export type TaskType = 'regression' | 'classification';
+
+export type Algorithm = 'linear_regression' | 'ridge' | 'logistic_regression' | 'decision_tree' | 'random_forest';
+
+export interface RidgeParams {
+  alpha: number; // L2 penalty strength
+}
+
+export interface LogisticRegressionParams {
+  alpha: number; // L2 penalty strength
+  maxIterations: number;
+}
+
+export interface DecisionTreeParams {
+  maxDepth: number;
+  minSamplesSplit: number;
+  minSamplesLeaf: number;
+}
+
+export interface RandomForestParams extends DecisionTreeParams {
+  nEstimators: number;
+  maxFeatures: number; // fraction of features considered at each split
+  seed: number;
+}
+
+export interface Hyperparameters {
+  ridge: RidgeParams;
+  logisticRegression: LogisticRegressionParams;
+  decisionTree: DecisionTreeParams;
+  randomForest: RandomForestParams;
+}
+
+export type CategoricalEncoding =
+  | { method: 'one_hot'; minFrequency: number } // rarer categories share an "(other)" column
+  | { method: 'ordinal'; order: string[] } // listed categories first, the rest alphabetically
+  | { method: 'target'; smoothing: number; folds: number }; // out-of-fold mean target
+
+// Encoders fitted on a training split, stored as plain data
+export type FittedEncoder =
+  | { method: 'one_hot'; categories: string[]; hasOther: boolean }
+  | { method: 'ordinal'; mapping: Record<string, number> }
+  | { method: 'target'; mapping: Record<string, number>; prior: number };
+
+export interface FeatureEncoderState {
+  features: string[];
+  encoders: Record<string, FittedEncoder>; // only for categorical features
+  names: string[]; // expanded column names of the design matrix
+}
+
+export interface ValidationConfig {
+  method: 'holdout' | 'cross_validation';
+  folds: number; // used by cross_validation
+  shuffle: boolean;
+  stratify: boolean; // by class, or by target quantile bins for regression
+  seed: number;
+}
+
+// Applied to the encoded design matrix; trees are unaffected by feature scaling
+export type FeatureScaling = 'standard' | 'minmax' | 'robust' | 'none';
+
+// Regression only; predictions are mapped back to target units before scoring
+export type TargetTransform = 'none' | 'log1p' | 'box_cox';
+
+export interface PreprocessingConfig {
+  scaling: FeatureScaling;
+  targetTransform: TargetTransform;
 }
 
 export interface ModelConfig {
+  taskType: TaskType;
   targetColumn: string;
   featureColumns: string[];
   splitRatio: number; // 0.1 to 0.9
-  algorithm: 'linear_regression' | 'ridge' | 'decision_tree' | 'random_forest';
+  validation: ValidationConfig;
+  algorithm: Algorithm;
+  hyperparameters: Hyperparameters;
+  encodings: Record<string, CategoricalEncoding>; // keyed by feature column
+  preprocessing: PreprocessingConfig;
+}
+
+export type PreflightCheck = 'leakage' | 'multicollinearity' | 'constant' | 'id_like' | 'rows_per_feature';
+
+export type PreflightFix =
+  | { action: 'drop_feature'; column: string }
+  | { action: 'go_to_cleaning' };
+
+export interface PreflightWarning {
+  check: PreflightCheck;
+  severity: 'warning' | 'critical';
+  column: string | null; // null for checks on the whole configuration
+  message: string;
+  fixes: PreflightFix[];
+}
+
+export interface FoldResult {
+  fold: number; // 1-based
+  trainSize: number;
+  testSize: number;
+  metrics: Record<string, number>;
+}
+
+export interface CrossValidationSummary {
+  folds: FoldResult[];
+  mean: Record<string, number>;
+  std: Record<string, number>;
+}
+
+export type TreeNode =
+  | { type: 'leaf'; value: number; distribution?: number[]; samples: number }
+  | {
+      type: 'split';
+      feature: number; // index into the feature list
+      threshold: number; // rows with x <= threshold go left
+      gain: number; // reduction in sum of squared errors (regression) or Gini impurity (classification)
+      value: number;
+      distribution?: number[];
+      samples: number;
+      left: TreeNode;
+      right: TreeNode;
+    };
+
+// Least-squares fit statistics, indexed [intercept, ...features]
+export interface LinearInference {
+  observations: number;
+  rank: number; // number of non-aliased terms, including the intercept
+  aliased: boolean[]; // per feature: dropped as collinear with earlier terms
+  residualSumOfSquares: number;
+  unscaledCovariance: number[][]; // (X^T X)^-1
 }
 
-export interface ModelMetrics {
+// Fitted on scaled features (and a transformed, standardized target for regression)
+export type FittedModel =
+  | { kind: 'linear'; intercept: number; weights: number[]; inference?: LinearInference } // inference for OLS only
+  | { kind: 'logistic'; intercepts: number[]; weights: number[][] } // one row per class
+  | { kind: 'tree'; root: TreeNode }
+  | { kind: 'forest'; trees: TreeNode[] };
+
+export interface CoefficientRow {
+  term: string; // "(Intercept)" or a design-matrix column
+  coefficient: number; // per unit of the feature, in target units
+  standardized: number | null; // target standard deviations per feature standard deviation
+  standardError: number | null;
+  tStatistic: number | null;
+  pValue: number | null;
+  ciLower: number | null;
+  ciUpper: number | null;
+  aliased: boolean; // dropped for collinearity; coefficient is fixed at 0
+}
+
+export interface CoefficientTable {
+  rows: CoefficientRow[];
+  confidenceLevel: number; // e.g. 0.95
+  degreesOfFreedom: number; // residual degrees of freedom
+  residualStandardError: number | null;
+}
+
+// x' = (x - center) / scale
+export interface ScalingStats {
+  center: number;
+  scale: number;
+  std: number; // training standard deviation, to compare weights across scaling methods
+}
+
+export type FittedTargetTransform =
+  | { method: 'none' }
+  | { method: 'log1p' }
+  | { method: 'box_cox'; lambda: number };
+
+// Everything needed to map raw rows to model inputs and model outputs back to target units
+export interface FittedPreprocessing {
+  scaling: FeatureScaling;
+  featureScaling: ScalingStats[]; // aligned with featureNames
+  targetTransform: FittedTargetTransform | null; // regression only
+  targetScaling: ScalingStats | null; // regression only, standardizes the transformed target
+}
+
+// The model behind the reported metrics: the holdout fit, or a refit on all rows after k-fold
+export interface TrainedModel {
+  algorithm: Algorithm;
+  featureNames: string[]; // design-matrix columns after encoding
+  encoders: FeatureEncoderState;
+  preprocessing: FittedPreprocessing;
+  classes: string[] | null; // classification labels, indexed like the model's outputs
+  trainingRows: number;
+  baseline: DataRow; // typical row of the training rows, where what-if exploration starts
+  fitted: FittedModel;
+  coefficients?: CoefficientTable; // ordinary least squares only
+}
+
+export interface FeatureImportance {
+  feature: string;
+  importance: number; // mean drop in the score metric when the feature is shuffled
+  std: number;
+}
+
+// One feature's share of a single prediction, relative to a baseline row
+export interface FeatureContribution {
+  feature: string;
+  contribution: number; // in output units; contributions sum to prediction minus baseline prediction
+}
+
+// Importances read off the fitted model, per design-matrix column, normalized to sum to 1
+export interface NativeImportance {
+  method: 'gain' | 'coefficient'; // total split gain for trees, |standardized coefficient| for linear models
+  values: { feature: string; importance: number }[];
+}
+
+export interface PartialDependence {
+  feature: string;
+  numeric: boolean;
+  grid: (string | number)[];
+  average: number[]; // partial dependence, aligned with grid
+  ice: number[][]; // one curve per sampled row, aligned with grid
+}
+
+export interface ModelExplanations {
+  scoreMetric: string; // metric whose drop measures permutation importance
+  outputLabel: string; // what the dependence plots show, e.g. "P(yes)"
+  permutation: FeatureImportance[];
+  native: NativeImportance | null;
+  partialDependence: PartialDependence[];
+}
+
+interface MetricsBase {
+  crossValidation?: CrossValidationSummary; // set when trained with k-fold; headline metrics are then out-of-fold
+  model?: TrainedModel;
+  explanations?: ModelExplanations;
+  trainMetrics?: Record<string, number>; // scalar metrics on the training rows, averaged over folds for k-fold
+}
+
+export interface PredictionError {
+  actual: number;
+  predicted: number;
+  features: DataRow; // the row's feature values
+}
+
+export interface RegressionMetrics extends MetricsBase {
+  task: 'regression';
   mae: number;
   mse: number;
+  rmse: number;
+  medianAbsoluteError: number;
+  mape: number; // percent, over rows with a non-zero target; NaN if there are none
   r2: number;
+  adjustedR2: number; // NaN when there are too few rows for the predictor count
   predictions: { actual: number; predicted: number }[];
+  largestErrors?: PredictionError[]; // by absolute error, largest first
+}
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+  threshold: number;
+}
+
+export interface ClassificationMetrics extends MetricsBase {
+  task: 'classification';
+  classes: string[];
+  positiveClass: string; // class scored by the ROC / PR curves
+  averaging: 'binary' | 'macro'; // how precision, recall and F1 are aggregated
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  logLoss: number;
+  confusionMatrix: number[][]; // [actual][predicted], indexed like classes
+  rocCurve: CurvePoint[]; // x = false positive rate, y = true positive rate
+  rocAuc: number;
+  prCurve: CurvePoint[]; // x = recall, y = precision
+  averagePrecision: number;
+  predictions: { actual: string; predicted: string; probability: number }[]; // probability of positiveClass
+}
+
+export type ModelMetrics = RegressionMetrics | ClassificationMetrics;
+
+export interface TrainingProgress {
+  fraction: number; // overall completion, 0 to 1
+  stage: string; // e.g. "Fold 2/5" or "Candidate 3/19"
+  epoch?: number;
+  loss?: number; // training loss after this epoch, for iterative models
 }
 
+export interface AutoMLOptions {
+  search: 'none' | 'grid' | 'random'; // hyperparameter search per algorithm
+  randomTrials: number; // candidates per algorithm for random search
+}
+
+export interface LeaderboardEntry {
+  id: string;
+  algorithm: Algorithm;
+  hyperparameters: Hyperparameters;
+  label: string; // the searched hyperparameter values
+  config: ModelConfig; // the full settings this candidate was trained with
+  metrics: ModelMetrics;
+  scores: Record<string, number>;
+  durationMs: number;
+}
+
+// Metrics as kept in the experiment history: the fitted model and explanations are too large to store
+export type StoredMetrics = Omit<RegressionMetrics, 'model' | 'explanations'> | Omit<ClassificationMetrics, 'model' | 'explanations'>;
+
+// A recorded training run. The fitted model and explanations are left out to keep history small.
+export interface Experiment {
+  id: string;
+  createdAt: string; // ISO timestamp
+  label: string; // "Single run", or the AutoML candidate it came from
+  dataset: {
+    name: string;
+    fingerprint: string; // hash of the uploaded rows, so runs on different data are easy to spot
+    rows: number;
+    columns: number;
+  };
+  cleaningOptions: CleaningOptions;
+  derivedColumns: DerivedColumn[];
+  config: ModelConfig;
+  metrics: StoredMetrics;
+}
+
+export type AdvisorTipCategory = 'feature_engineering' | 'data_quality' | 'model_selection' | 'preprocessing';
+
+export type AdvisorImpact = 'high' | 'medium' | 'low';
+
+// A change the app can make for the user; 'none' marks advice that needs a person to act on it
+export type AdvisorAction =
+  | { type: 'drop_feature'; column: string }
+  | { type: 'add_feature'; column: string }
+  | { type: 'set_algorithm'; algorithm: Algorithm }
+  | { type: 'set_cleaning'; column: string; method: ImputationStrategy['method'] }
+  | { type: 'log_transform'; column: string } // the target gets log(1 + y), a feature is replaced by a log1p_ column
+  | { type: 'none' };
+
+export interface AdvisorTip {
+  title: string;
+  category: AdvisorTipCategory;
+  rationale: string;
+  expectedImpact: AdvisorImpact;
+  action: AdvisorAction;
+}
+
+export type AdvisorProviderId = 'gemini' | 'openai_compatible' | 'mock';
+
+export interface LLMSettings {
+  provider: AdvisorProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1 for Ollama
+  apiKey: string; // OpenAI-compatible servers only; kept in memory, never saved
+  temperature: number;
+  maxOutputTokens: number;
+  tokenBudget: number; // approximate size of each prompt, data summary included
+  privacyMode: boolean; // replace column names and class labels with placeholders and leave out raw values
+  reviewPrompts: boolean; // show the exact prompt and wait for approval before sending it
+}
+
+// One turn of the advisor chat; 'model' is the advisor, as the Gemini API names it
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// The exact request an advisor sends, built up front so it can be reviewed before sending
+export interface AdvisorPrompt {
+  kind: 'tips' | 'chat';
+  systemInstruction: string;
+  messages: ChatMessage[];
+  estimatedTokens: number;
+  omitted: string[]; // what the token budget left out, e.g. "Correlations: 12 of 20 lines"
+  aliases: Record<string, string>; // placeholder to original name; empty unless in privacy mode
+}
+
+export interface LossPoint {
+  stage: string;
+  epoch: number;
+  loss: number;
+}
+
+export interface ArtifactFeature {
+  name: string;
+  type: 'number' | 'string';
+}
+
+// Everything needed to score new rows without the training data
+export interface ModelArtifact {
+  format: string;
+  version: number;
+  createdAt: string; // ISO timestamp
+  config: ModelConfig;
+  derivedColumns: DerivedColumn[]; // recomputed on scored files before prediction
+  features: ArtifactFeature[]; // the feature columns, as they were typed at training time
+  model: TrainedModel;
+  metrics: Record<string, number>; // scalar evaluation metrics, out-of-fold for k-fold
+}
+
+export interface SchemaIssue {
+  column: string;
+  message: string;
+}
+
+// Messages exchanged with the training Web Worker
+export type TrainingJob =
+  | { type: 'train'; data: DataRow[]; config: ModelConfig }
+  | { type: 'automl'; data: DataRow[]; config: ModelConfig; options: AutoMLOptions };
+
+export type TrainingWorkerMessage =
+  | { type: 'progress'; progress: TrainingProgress; lossPoints: LossPoint[] } // loss points since the last message
+  | { type: 'result'; metrics: ModelMetrics }
+  | { type: 'leaderboard'; entries: LeaderboardEntry[] }
+  | { type: 'error'; message: string };
+
 export enum AppStep {
   UPLOAD = 0,
   CLEANING = 1,
-  CONFIGURATION = 2,
-  MODEL_SELECTION = 3,
-  RESULTS = 4,
+  FEATURE_ENGINEERING = 2,
+  CONFIGURATION = 3,
+  MODEL_SELECTION = 4,
+  RESULTS = 5,
 }
+
@@ -0,0 +1,241 @@
+import {
+  AdvisorAction, AdvisorImpact, AdvisorTip, AdvisorTipCategory, Algorithm, CleaningOptions, ColumnStat, CorrelationMatrix, DerivedColumn,
+  ImputationStrategy, ModelConfig
+} from "../types";
+import { TASK_ALGORITHMS } from "./automl";
+import { defaultColumnCleaning, defaultImputation, IMPUTATION_LABELS, imputationMethodsFor } from "./cleaning";
+import { defaultEncoding } from "./encoding";
+import { columnReference } from "./expressions";
+import { targetTransformAllowed } from "./preprocessing";
+
+// The advisor answers in JSON constrained by ADVISOR_TIPS_SCHEMA. Its actions are checked
+// against the current dataset and settings before they are offered, and again when applied,
+// so a tip that names a missing column or an unsupported method is shown as advice only.
+
+export const ADVISOR_CATEGORY_LABELS: Record<AdvisorTipCategory, string> = {
+  feature_engineering: 'Feature engineering',
+  data_quality: 'Data quality',
+  model_selection: 'Model selection',
+  preprocessing: 'Preprocessing',
+};
+
+export const ADVISOR_IMPACT_LABELS: Record<AdvisorImpact, string> = {
+  high: 'High impact',
+  medium: 'Medium impact',
+  low: 'Low impact',
+};
+
+const ACTION_TYPES: AdvisorAction['type'][] = ['drop_feature', 'add_feature', 'set_algorithm', 'set_cleaning', 'log_transform', 'none'];
+const ALGORITHMS = [...new Set(Object.values(TASK_ALGORITHMS).flat())];
+const IMPUTATION_METHODS = Object.keys(IMPUTATION_LABELS) as ImputationStrategy['method'][];
+
+// JSON Schema for the response. Actions are one flat object because the API's schema
+// support for unions is limited; parseAdvisorTips narrows them afterwards.
+export const ADVISOR_TIPS_SCHEMA = {
+  type: 'object',
+  properties: {
+    tips: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 5,
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'A short imperative headline' },
+          category: { type: 'string', enum: Object.keys(ADVISOR_CATEGORY_LABELS) },
+          rationale: { type: 'string', description: 'Why this should help, citing the metrics or data' },
+          expectedImpact: { type: 'string', enum: Object.keys(ADVISOR_IMPACT_LABELS) },
+          action: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ACTION_TYPES },
+              column: { type: 'string', description: 'Exact column name, for column actions' },
+              algorithm: { type: 'string', enum: ALGORITHMS },
+              method: { type: 'string', enum: IMPUTATION_METHODS },
+            },
+            required: ['type'],
+          },
+        },
+        required: ['title', 'category', 'rationale', 'expectedImpact', 'action'],
+      },
+    },
+  },
+  required: ['tips'],
+};
+
+// The settings an action can change
+export interface AdvisorSettings {
+  config: ModelConfig;
+  cleaningOptions: CleaningOptions;
+  derivedColumns: DerivedColumn[];
+}
+
+export interface AdvisorContext extends AdvisorSettings {
+  stats: ColumnStat[]; // the columns available to the model, derived ones included
+  rawStats: ColumnStat[]; // the uploaded columns, before cleaning
+  correlations: CorrelationMatrix | null; // between the numeric columns available to the model
+}
+
+const logColumnName = (column: string) => `log1p_${column}`;
+
+export const describeAdvisorAction = (action: AdvisorAction): string => {
+  switch (action.type) {
+    case 'drop_feature':
+      return `Remove ${action.column} from the features`;
+    case 'add_feature':
+      return `Add ${action.column} to the features`;
+    case 'set_algorithm':
+      return `Switch to ${action.algorithm.replace(/_/g, ' ')}`;
+    case 'set_cleaning':
+      return `Handle missing ${action.column} values: ${IMPUTATION_LABELS[action.method]}`;
+    case 'log_transform':
+      return `Log-transform ${action.column}`;
+    case 'none':
+    default:
+      return 'No automatic change';
+  }
+};
+
+// Why the action cannot be applied to the current settings, or null when it can
+export const advisorActionProblem = (action: AdvisorAction, context: AdvisorContext): string | null => {
+  const { config } = context;
+  const stat = 'column' in action ? context.stats.find(s => s.name === action.column) : undefined;
+  switch (action.type) {
+    case 'drop_feature':
+      if (!config.featureColumns.includes(action.column)) return `${action.column} is not a feature`;
+      if (config.featureColumns.length === 1) return 'The model needs at least one feature';
+      return null;
+    case 'add_feature':
+      if (!stat) return `There is no column named ${action.column}`;
+      if (action.column === config.targetColumn) return `${action.column} is the target`;
+      if (config.featureColumns.includes(action.column)) return `${action.column} is already a feature`;
+      return null;
+    case 'set_algorithm':
+      if (!TASK_ALGORITHMS[config.taskType].includes(action.algorithm)) {
+        return `${action.algorithm} is not available for ${config.taskType}`;
+      }
+      return action.algorithm === config.algorithm ? `${action.algorithm} is already selected` : null;
+    case 'set_cleaning': {
+      const raw = context.rawStats.find(s => s.name === action.column);
+      if (!raw) return `There is no uploaded column named ${action.column}`;
+      if (raw.missingCount === 0) return `${action.column} has no missing values`;
+      if (!imputationMethodsFor(raw.type).includes(action.method)) return `${action.method} does not apply to ${action.column}`;
+      return context.cleaningOptions.columns[action.column]?.strategy.method === action.method
+        ? `${action.column} already uses ${action.method}`
+        : null;
+    }
+    case 'log_transform':
+      if (!stat?.numeric) return `${action.column} is not a numeric column`;
+      if (action.column === config.targetColumn) {
+        if (config.taskType !== 'regression') return 'Only regression targets can be transformed';
+        if (config.preprocessing.targetTransform !== 'none') return 'The target is already transformed';
+        return targetTransformAllowed('log1p', stat.numeric.min) ? null : `${action.column} has values of -1 or below`;
+      }
+      if (stat.numeric.min <= -1) return `${action.column} has values of -1 or below`;
+      return config.featureColumns.includes(logColumnName(action.column)) ? `${logColumnName(action.column)} is already a feature` : null;
+    case 'none':
+    default:
+      return null;
+  }
+};
+
+// Throws when the action no longer fits the settings
+export const applyAdvisorAction = (action: AdvisorAction, context: AdvisorContext): AdvisorSettings => {
+  const problem = advisorActionProblem(action, context);
+  if (problem) throw new Error(`Cannot apply this tip: ${problem}`);
+  const { config, cleaningOptions, derivedColumns } = context;
+  const settings: AdvisorSettings = { config, cleaningOptions, derivedColumns };
+  switch (action.type) {
+    case 'drop_feature': {
+      const { [action.column]: _removed, ...encodings } = config.encodings;
+      return {
+        ...settings,
+        config: { ...config, featureColumns: config.featureColumns.filter(f => f !== action.column), encodings },
+      };
+    }
+    case 'add_feature': {
+      const stat = context.stats.find(s => s.name === action.column);
+      // String columns can only be used once they are encoded
+      const encodings = stat?.type === 'string' ? { ...config.encodings, [action.column]: defaultEncoding() } : config.encodings;
+      return { ...settings, config: { ...config, featureColumns: [...config.featureColumns, action.column], encodings } };
+    }
+    case 'set_algorithm':
+      return { ...settings, config: { ...config, algorithm: action.algorithm } };
+    case 'set_cleaning':
+      return {
+        ...settings,
+        cleaningOptions: {
+          ...cleaningOptions,
+          columns: {
+            ...cleaningOptions.columns,
+            [action.column]: { ...(cleaningOptions.columns[action.column] ?? defaultColumnCleaning()), strategy: defaultImputation(action.method) },
+          },
+        },
+      };
+    case 'log_transform': {
+      if (action.column === config.targetColumn) {
+        return { ...settings, config: { ...config, preprocessing: { ...config.preprocessing, targetTransform: 'log1p' } } };
+      }
+      const name = logColumnName(action.column);
+      const derived = derivedColumns.some(d => d.name === name)
+        ? derivedColumns
+        : [...derivedColumns, { name, expression: `log1p(${columnReference(action.column)})` }];
+      const featureColumns = config.featureColumns.includes(action.column)
+        ? config.featureColumns.map(f => (f === action.column ? name : f))
+        : [...config.featureColumns, name];
+      return { ...settings, derivedColumns: derived, config: { ...config, featureColumns } };
+    }
+    case 'none':
+    default:
+      return settings;
+  }
+};
+
+// --- Parsing ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+const parseAction = (value: unknown): AdvisorAction => {
+  if (!isObject(value)) return { type: 'none' };
+  const column = typeof value.column === 'string' ? value.column : '';
+  switch (value.type) {
+    case 'drop_feature':
+    case 'add_feature':
+    case 'log_transform':
+      return column ? { type: value.type, column } : { type: 'none' };
+    case 'set_algorithm':
+      return ALGORITHMS.includes(value.algorithm as Algorithm) ? { type: 'set_algorithm', algorithm: value.algorithm as Algorithm } : { type: 'none' };
+    case 'set_cleaning':
+      return column && IMPUTATION_METHODS.includes(value.method as ImputationStrategy['method'])
+        ? { type: 'set_cleaning', column, method: value.method as ImputationStrategy['method'] }
+        : { type: 'none' };
+    default:
+      return { type: 'none' };
+  }
+};
+
+// Tips without a title or rationale are dropped; actions that do not fit become 'none'
+export const parseAdvisorTips = (text: string, context: AdvisorContext): AdvisorTip[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The advisor's response was not valid JSON");
+  }
+  if (!isObject(parsed) || !Array.isArray(parsed.tips)) throw new Error("The advisor's response had no tips");
+  return parsed.tips.flatMap((tip): AdvisorTip[] => {
+    if (!isObject(tip) || typeof tip.title !== 'string' || typeof tip.rationale !== 'string') return [];
+    const action = parseAction(tip.action);
+    return [{
+      title: tip.title.trim(),
+      category: oneOf(tip.category, Object.keys(ADVISOR_CATEGORY_LABELS) as AdvisorTipCategory[], 'feature_engineering'),
+      rationale: tip.rationale.trim(),
+      expectedImpact: oneOf(tip.expectedImpact, Object.keys(ADVISOR_IMPACT_LABELS) as AdvisorImpact[], 'medium'),
+      action: advisorActionProblem(action, context) ? { type: 'none' } : action,
+    }];
+  });
+};
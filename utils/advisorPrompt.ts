@@ -0,0 +1,393 @@
+import { AdvisorPrompt, AdvisorTip, ChatMessage, ClassificationMetrics, LLMSettings, ModelMetrics, RegressionMetrics } from "../types";
+import { AdvisorContext, describeAdvisorAction } from "./advisor";
+import { IMPUTATION_LABELS } from "./cleaning";
+import { formatMetricValue, generalizationGap } from "./metrics";
+import { ISOLATION_FOREST_LABEL, OUTLIER_METHOD_LABELS } from "./outliers";
+import { pearsonCorrelation } from "./statistics";
+
+// Builds the exact prompts the LLM advisors send. The data summary is split into sections
+// whose lines are ordered by usefulness, and the sections are filled until the token budget
+// runs out, so a wide dataset loses its least useful lines instead of overflowing the model.
+// In privacy mode column names and class labels become placeholders (column_1, class_1) and
+// raw values are left out; restoreAliases swaps the real names back into the answers.
+
+export const CHARS_PER_TOKEN = 4; // a rough average for English text mixed with numbers
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export type PromptOptions = Pick<LLMSettings, 'tokenBudget' | 'privacyMode'>;
+
+// --- Redaction ---
+
+interface Redaction {
+  column: (name: string) => string;
+  label: (value: string) => string; // class labels
+  text: (text: string) => string; // free text, such as the user's questions
+  aliases: Record<string, string>;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Also inside derived names such as log1p_column_3
+const ALIAS_PATTERN = /(?<![A-Za-z0-9])(?:column|class)_\d+(?!\d)/g;
+
+const createRedaction = (metrics: ModelMetrics, context: AdvisorContext, privacyMode: boolean): Redaction => {
+  if (!privacyMode) return { column: name => name, label: value => value, text: text => text, aliases: {} };
+
+  const aliases: Record<string, string> = {};
+  const columns = new Map<string, string>();
+  const labels = new Map<string, string>();
+  const alias = (map: Map<string, string>, prefix: string, original: string) => {
+    if (!map.has(original)) {
+      const placeholder = `${prefix}_${map.size + 1}`;
+      map.set(original, placeholder);
+      aliases[placeholder] = original;
+    }
+    return map.get(original)!;
+  };
+
+  // Target first, then features, so the numbering hints at each column's role. Names not
+  // seen here, such as one-hot design columns, get the next free placeholder when used.
+  const { config } = context;
+  [config.targetColumn, ...config.featureColumns, ...context.stats.map(s => s.name), ...context.rawStats.map(s => s.name)]
+    .forEach(name => alias(columns, 'column', name));
+  if (metrics.task === 'classification') metrics.classes.forEach(c => alias(labels, 'class', c));
+
+  return {
+    column: name => alias(columns, 'column', name),
+    label: value => alias(labels, 'class', value),
+    // Column names only: class labels such as "yes" or "no" are too often ordinary words
+    text: text => [...columns.keys()]
+      .sort((a, b) => b.length - a.length)
+      .reduce((out, name) => out.replace(new RegExp(`(?<![\\w])${escapeRegExp(name)}(?![\\w])`, 'g'), columns.get(name)!), text),
+    aliases,
+  };
+};
+
+// encode adapts the original to where it lands, e.g. escaping it inside a JSON string
+export const restoreAliases = (text: string, aliases: Record<string, string>, encode = (original: string) => original): string =>
+  Object.keys(aliases).length === 0
+    ? text
+    : text.replace(ALIAS_PATTERN, placeholder => (placeholder in aliases ? encode(aliases[placeholder]) : placeholder));
+
+// --- Model summary ---
+
+// The setup and results are always sent in full; everything else is trimmed to the budget
+const describeModel = (metrics: ModelMetrics, context: AdvisorContext, r: Redaction, privacyMode: boolean): string => {
+  const { config } = context;
+
+  const results = metrics.task === 'classification'
+    ? [
+      `- Classes: ${metrics.classes.map(r.label).join(', ')}`,
+      `- Accuracy: ${metrics.accuracy.toFixed(4)}`,
+      `- Precision / Recall / F1 (${metrics.averaging}): ${metrics.precision.toFixed(4)} / ${metrics.recall.toFixed(4)} / ${metrics.f1.toFixed(4)}`,
+      `- Log Loss: ${metrics.logLoss.toFixed(4)}`,
+      `- ROC AUC (${r.label(metrics.positiveClass)} vs rest): ${metrics.rocAuc.toFixed(4)}`,
+    ]
+    : [
+      `- R2 Score: ${metrics.r2.toFixed(4)} (adjusted ${metrics.adjustedR2.toFixed(4)})`,
+      `- Mean Squared Error: ${metrics.mse.toFixed(4)}`,
+      `- RMSE / MAE / Median Absolute Error: ${metrics.rmse.toFixed(4)} / ${metrics.mae.toFixed(4)} / ${metrics.medianAbsoluteError.toFixed(4)}`,
+    ];
+
+  const gap = generalizationGap(metrics);
+  if (gap) results.push(`- Training ${gap.metric}: ${gap.train.toFixed(4)} (train minus test gap ${gap.gap.toFixed(4)})`);
+
+  const derived = context.derivedColumns.length > 0
+    ? context.derivedColumns
+      .map(d => (privacyMode ? `${r.column(d.name)} (formula hidden)` : `${d.name} = ${d.expression}`))
+      .join('; ')
+    : 'none';
+
+  const validation = config.validation.method === 'cross_validation'
+    ? `${config.validation.folds}-fold cross-validation (metrics are out-of-fold)`
+    : `${Math.round(config.splitRatio * 100)}% Train / ${Math.round((1 - config.splitRatio) * 100)}% Test`;
+
+  return [
+    `I have trained a ${metrics.task} model using the Auto ML Wizard.`,
+    '',
+    'Context:',
+    `- Algorithm: ${config.algorithm}`,
+    `- Target Variable: ${r.column(config.targetColumn)}`,
+    `- Features Used: ${config.featureColumns.map(r.column).join(', ')}`,
+    `- Derived Columns: ${derived}`,
+    `- Preprocessing: ${config.preprocessing.scaling} feature scaling${config.taskType === 'regression' && config.preprocessing.targetTransform !== 'none' ? `, ${config.preprocessing.targetTransform} target transform` : ''}`,
+    `- Validation: ${validation}${config.validation.shuffle ? `, shuffled (seed ${config.validation.seed})` : ''}${config.validation.stratify ? ', stratified' : ''}`,
+    '',
+    'Results:',
+    ...results,
+  ].join('\n');
+};
+
+// --- Data summary sections ---
+
+interface PromptSection {
+  title: string;
+  lines: string[]; // most useful first; the budget drops lines from the end
+}
+
+// The target, then the features, then unused columns. Privacy mode replaces the range and
+// most common values, which are raw values, with what the tip actions need to know.
+const columnSection = (context: AdvisorContext, r: Redaction, privacyMode: boolean): PromptSection => {
+  const { config } = context;
+  const role = (name: string) =>
+    name === config.targetColumn ? 'target' : config.featureColumns.includes(name) ? 'feature' : 'unused';
+  const rank = { target: 0, feature: 1, unused: 2 };
+  const ordered = [...context.stats].sort((a, b) => rank[role(a.name)] - rank[role(b.name)]);
+
+  return {
+    title: 'Columns',
+    lines: ordered.map(stat => {
+      let profile: string;
+      if (stat.numeric) {
+        const { min, max, mean, median, std, skewness } = stat.numeric;
+        const range = privacyMode
+          ? `values ${min >= 0 ? 'non-negative' : min > -1 ? 'all above -1' : 'include -1 or below'}`
+          : `range ${formatMetricValue(min)} to ${formatMetricValue(max)}, median ${formatMetricValue(median)}`;
+        profile = `${range}, mean ${formatMetricValue(mean)}, std ${formatMetricValue(std)}, skewness ${skewness.toFixed(2)}`;
+      } else {
+        const top = stat.topValues?.slice(0, 3) ?? [];
+        const common = top.length === 0
+          ? ''
+          : privacyMode
+            ? ` (the ${top.length} most common cover ${top.reduce((sum, v) => sum + v.count, 0)} rows)`
+            : ` (most common: ${top.map(v => `${v.value} x${v.count}`).join(', ')})`;
+        profile = `${stat.uniqueCount} distinct values${common}`;
+      }
+      const raw = context.rawStats.find(s => s.name === stat.name);
+      const missing = raw && raw.missingCount > 0 ? `, ${raw.missingCount} missing before cleaning` : '';
+      return `- ${r.column(stat.name)} (${role(stat.name)}): ${stat.type} (${stat.semanticType}), ${profile}${missing}`;
+    }),
+  };
+};
+
+const cleaningSection = (context: AdvisorContext, r: Redaction, privacyMode: boolean): PromptSection => {
+  const { cleaningOptions } = context;
+  const lines: string[] = [];
+
+  Object.entries(cleaningOptions.columns).forEach(([column, cleaning]) => {
+    const { strategy } = cleaning;
+    if (strategy.method === 'none' && !cleaning.addIndicator) return;
+    const value = strategy.method === 'constant' && !privacyMode ? ` (${strategy.value})` : '';
+    lines.push(`- ${r.column(column)}: missing values handled by ${IMPUTATION_LABELS[strategy.method]}${value}${cleaning.addIndicator ? ', with a was-missing indicator column' : ''}`);
+  });
+
+  Object.entries(cleaningOptions.outliers.columns).forEach(([column, rule]) => {
+    if (rule.detection.method === 'none') return;
+    lines.push(`- ${r.column(column)}: outliers found by ${OUTLIER_METHOD_LABELS[rule.detection.method]} are ${rule.treatment === 'cap' ? 'capped' : rule.treatment === 'remove' ? 'removed' : 'flagged'}`);
+  });
+
+  const forest = cleaningOptions.outliers.isolationForest;
+  if (forest.enabled && forest.columns.length > 0) {
+    lines.push(`- ${ISOLATION_FOREST_LABEL} over ${forest.columns.map(r.column).join(', ')} (contamination ${forest.contamination}): outliers are ${forest.treatment === 'remove' ? 'removed' : 'flagged'}`);
+  }
+
+  return { title: 'Cleaning decisions', lines: lines.length > 0 ? lines : ['- None; the data is used as uploaded'] };
+};
+
+const importanceSection = (metrics: ModelMetrics, r: Redaction): PromptSection => {
+  const explanations = metrics.explanations;
+  if (!explanations) return { title: 'Feature importance', lines: [] };
+
+  const permutation = [...explanations.permutation]
+    .sort((a, b) => b.importance - a.importance)
+    .map(f => `- ${r.column(f.feature)}: ${formatMetricValue(f.importance)} ± ${formatMetricValue(f.std)} drop in ${explanations.scoreMetric} when shuffled`);
+  const native = explanations.native
+    ? [...explanations.native.values]
+      .sort((a, b) => b.importance - a.importance)
+      .map(v => `- ${r.column(v.feature)}: ${(v.importance * 100).toFixed(1)}% of the model's ${explanations.native!.method === 'gain' ? 'split gain' : 'standardized coefficient weight'}`)
+    : [];
+
+  return { title: 'Feature importance', lines: [...permutation, ...native] };
+};
+
+const MAX_RESIDUAL_EXAMPLES = 3;
+const TAIL_SHARE = 0.05; // the largest errors whose share of the total error is reported
+
+const regressionErrorLines = (metrics: RegressionMetrics, privacyMode: boolean): string[] => {
+  const residuals = metrics.predictions.map(p => p.actual - p.predicted);
+  const n = residuals.length;
+  if (n < 3) return [];
+
+  const mean = residuals.reduce((a, b) => a + b, 0) / n;
+  const std = Math.sqrt(residuals.reduce((a, v) => a + (v - mean) ** 2, 0) / (n - 1));
+  const skewness = std > 0 ? residuals.reduce((a, v) => a + ((v - mean) / std) ** 3, 0) / n : 0;
+  const predicted = metrics.predictions.map(p => p.predicted);
+  const trend = pearsonCorrelation(predicted, residuals);
+  const spread = pearsonCorrelation(predicted, residuals.map(Math.abs));
+  const absolute = residuals.map(Math.abs).sort((a, b) => b - a);
+  const tail = Math.max(1, Math.round(n * TAIL_SHARE));
+  const tailShare = absolute.slice(0, tail).reduce((a, b) => a + b, 0) / (absolute.reduce((a, b) => a + b, 0) || 1);
+
+  const lines = [
+    `- Mean residual (actual minus predicted): ${formatMetricValue(mean)}, std ${formatMetricValue(std)}, skewness ${skewness.toFixed(2)}`,
+    `- Correlation of residuals with predictions: ${Number.isNaN(trend) ? 'n/a' : trend.toFixed(2)} (non-zero means systematic under- or over-prediction across the range)`,
+    `- Correlation of absolute residuals with predictions: ${Number.isNaN(spread) ? 'n/a' : spread.toFixed(2)} (positive means errors grow with the prediction)`,
+    `- The largest ${Math.round(TAIL_SHARE * 100)}% of errors make up ${(tailShare * 100).toFixed(1)}% of the total absolute error`,
+  ];
+  if (!privacyMode) {
+    (metrics.largestErrors ?? []).slice(0, MAX_RESIDUAL_EXAMPLES).forEach(e => {
+      lines.push(`- Large error: actual ${formatMetricValue(e.actual)}, predicted ${formatMetricValue(e.predicted)}`);
+    });
+  }
+  return lines;
+};
+
+// Class balance first, then the most frequent confusions
+const classificationErrorLines = (metrics: ClassificationMetrics, r: Redaction): string[] => {
+  const { classes, confusionMatrix } = metrics;
+  const totals = confusionMatrix.map(row => row.reduce((a, b) => a + b, 0));
+  const all = totals.reduce((a, b) => a + b, 0) || 1;
+  const balance = `- Test rows per class: ${classes.map((c, i) => `${r.label(c)} ${totals[i]} (${(totals[i] / all * 100).toFixed(1)}%)`).join(', ')}`;
+
+  const confusions: { actual: number; predicted: number; count: number }[] = [];
+  confusionMatrix.forEach((row, i) => row.forEach((count, j) => {
+    if (i !== j && count > 0) confusions.push({ actual: i, predicted: j, count });
+  }));
+  return [
+    balance,
+    ...confusions
+      .sort((a, b) => b.count - a.count)
+      .map(c => `- ${r.label(classes[c.actual])} predicted as ${r.label(classes[c.predicted])}: ${c.count} rows (${(c.count / (totals[c.actual] || 1) * 100).toFixed(1)}% of ${r.label(classes[c.actual])})`),
+  ];
+};
+
+const errorSection = (metrics: ModelMetrics, r: Redaction, privacyMode: boolean): PromptSection => ({
+  title: metrics.task === 'regression' ? 'Residual patterns' : 'Error patterns',
+  lines: metrics.task === 'regression' ? regressionErrorLines(metrics, privacyMode) : classificationErrorLines(metrics, r),
+});
+
+const STRONG_CORRELATION = 0.5; // feature pairs at or above this |r| are listed
+
+// Each feature against the target, strongest first, then strongly correlated feature pairs
+const correlationSection = (context: AdvisorContext, r: Redaction): PromptSection => {
+  const matrix = context.correlations;
+  if (!matrix) return { title: 'Correlations', lines: [] };
+  const { config } = context;
+  const index = (name: string) => matrix.columns.indexOf(name);
+  const target = index(config.targetColumn);
+  const features = config.featureColumns.filter(f => index(f) >= 0);
+
+  const withTarget = target < 0 ? [] : features
+    .map(f => ({ a: config.targetColumn, b: f, value: matrix.values[target][index(f)] }));
+  const pairs: { a: string; b: string; value: number }[] = [];
+  features.forEach((a, i) => features.slice(i + 1).forEach(b => {
+    const value = matrix.values[index(a)][index(b)];
+    if (Math.abs(value) >= STRONG_CORRELATION) pairs.push({ a, b, value });
+  }));
+
+  const byStrength = (list: typeof pairs) => list
+    .filter(p => !Number.isNaN(p.value))
+    .sort((x, y) => Math.abs(y.value) - Math.abs(x.value))
+    .map(p => `- ${r.column(p.a)} ~ ${r.column(p.b)}: ${p.value.toFixed(2)}`);
+
+  return { title: `Correlations (${matrix.method})`, lines: [...byStrength(withTarget), ...byStrength(pairs)] };
+};
+
+// --- Budget ---
+
+const HEAD_LINES = 3; // every section gets this many lines before any gets more
+
+// Fills the sections in two passes, a few lines each and then the rest in order, so one long
+// section cannot crowd out the others
+const fitSections = (sections: PromptSection[], budgetChars: number): { text: string; omitted: string[] } => {
+  const kept = sections.map(() => 0);
+  let used = 0;
+  const take = (limit: (s: PromptSection) => number) => sections.forEach((section, i) => {
+    while (kept[i] < Math.min(section.lines.length, limit(section))) {
+      const cost = section.lines[kept[i]].length + 1 + (kept[i] === 0 ? section.title.length + 3 : 0);
+      if (used + cost > budgetChars) return;
+      used += cost;
+      kept[i]++;
+    }
+  });
+  take(() => HEAD_LINES);
+  take(section => section.lines.length);
+
+  const omitted: string[] = [];
+  const blocks: string[] = [];
+  sections.forEach((section, i) => {
+    if (section.lines.length === 0) return;
+    if (kept[i] < section.lines.length) omitted.push(`${section.title}: ${section.lines.length - kept[i]} of ${section.lines.length} lines`);
+    if (kept[i] === 0) return;
+    const dropped = section.lines.length - kept[i];
+    blocks.push([
+      `${section.title}:`,
+      ...section.lines.slice(0, kept[i]),
+      ...(dropped > 0 ? [`- (${dropped} more left out to fit the prompt budget)`] : []),
+    ].join('\n'));
+  });
+  return { text: blocks.join('\n\n'), omitted };
+};
+
+const dataSummary = (
+  metrics: ModelMetrics,
+  context: AdvisorContext,
+  r: Redaction,
+  options: PromptOptions,
+  budgetChars: number
+) => fitSections([
+  columnSection(context, r, options.privacyMode),
+  cleaningSection(context, r, options.privacyMode),
+  importanceSection(metrics, r),
+  errorSection(metrics, r, options.privacyMode),
+  correlationSection(context, r),
+], budgetChars);
+
+const finishPrompt = (
+  kind: AdvisorPrompt['kind'],
+  systemInstruction: string,
+  messages: ChatMessage[],
+  omitted: string[],
+  r: Redaction
+): AdvisorPrompt => ({
+  kind,
+  systemInstruction,
+  messages,
+  estimatedTokens: estimateTokens(systemInstruction + messages.map(m => m.text).join('')),
+  omitted,
+  aliases: r.aliases,
+});
+
+// --- Prompts ---
+
+const TIPS_SYSTEM_INSTRUCTION = "You are an expert Senior Data Scientist helping a user improve their machine learning model. Respond only with JSON matching the given schema.";
+
+const TIPS_REQUEST = `Please provide 3-4 specific, high-impact data science tips to improve this model based on the metrics and feature context.
+Focus on feature engineering, data quality, or model selection. Keep it professional but encouraging.
+Give each tip one action the app can apply: drop_feature or add_feature (column), set_algorithm (algorithm),
+set_cleaning (column and imputation method, only for columns with missing values) or log_transform (column, the target or a feature).
+Use the exact column names listed above. Use action type "none" when no single action fits.`;
+
+export const buildTipsPrompt = (metrics: ModelMetrics, context: AdvisorContext, options: PromptOptions): AdvisorPrompt => {
+  const r = createRedaction(metrics, context, options.privacyMode);
+  const model = describeModel(metrics, context, r, options.privacyMode);
+  const fixed = TIPS_SYSTEM_INSTRUCTION.length + model.length + TIPS_REQUEST.length;
+  const summary = dataSummary(metrics, context, r, options, options.tokenBudget * CHARS_PER_TOKEN - fixed);
+  const text = [model, summary.text, TIPS_REQUEST].filter(Boolean).join('\n\n');
+  return finishPrompt('tips', TIPS_SYSTEM_INSTRUCTION, [{ role: 'user', text }], summary.omitted, r);
+};
+
+const CHAT_INSTRUCTION = `You are an expert Senior Data Scientist helping a user improve their machine learning model.
+Answer follow-up questions about this model concisely, referring to its actual columns and metrics. Use plain text or short Markdown lists.`;
+
+// The whole history is sent each time and counts against the budget before the data summary
+export const buildChatPrompt = (
+  metrics: ModelMetrics,
+  context: AdvisorContext,
+  tips: AdvisorTip[] | null,
+  history: ChatMessage[], // ends with the user's new message
+  options: PromptOptions
+): AdvisorPrompt => {
+  const r = createRedaction(metrics, context, options.privacyMode);
+  const model = describeModel(metrics, context, r, options.privacyMode);
+  const suggested = tips && tips.length > 0
+    ? ['Tips you already suggested:', ...tips.map(tip => r.text(`- ${tip.title} (${describeAdvisorAction(tip.action)}): ${tip.rationale}`))].join('\n')
+    : '';
+  const messages = history.map(message => ({ ...message, text: r.text(message.text) }));
+
+  const fixed = CHAT_INSTRUCTION.length + model.length + suggested.length + messages.reduce((sum, m) => sum + m.text.length, 0);
+  const summary = dataSummary(metrics, context, r, options, options.tokenBudget * CHARS_PER_TOKEN - fixed);
+  const systemInstruction = [CHAT_INSTRUCTION, model, summary.text, suggested].filter(Boolean).join('\n\n');
+  return finishPrompt('chat', systemInstruction, messages, summary.omitted, r);
+};
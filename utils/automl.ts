@@ -0,0 +1,142 @@
+import { Algorithm, AutoMLOptions, DataRow, Hyperparameters, LeaderboardEntry, ModelConfig, TaskType, TrainingProgress } from "../types";
+import { trainModel } from "./dataUtils";
+import { LOWER_IS_BETTER, scalarMetrics } from "./metrics";
+import { createRng, Rng } from "./random";
+
+// Every candidate is trained through trainModel with the same validation config,
+// so the seeded split (or folds) is identical across the whole leaderboard.
+
+export const TASK_ALGORITHMS: Record<TaskType, Algorithm[]> = {
+  regression: ['linear_regression', 'ridge', 'decision_tree', 'random_forest'],
+  classification: ['logistic_regression', 'decision_tree', 'random_forest'],
+};
+
+// The metric each task ranks by when nothing else is chosen
+export const DEFAULT_RANKING_METRIC: Record<TaskType, string> = {
+  regression: 'r2',
+  classification: 'f1',
+};
+
+type Candidate = { algorithm: Algorithm; hyperparameters: Hyperparameters; label: string };
+type ParamSpace = { group: keyof Hyperparameters; values: Record<string, number[]> };
+
+const PARAM_SPACES: Partial<Record<Algorithm, ParamSpace>> = {
+  ridge: { group: 'ridge', values: { alpha: [0.01, 0.1, 1, 10, 100] } },
+  logistic_regression: { group: 'logisticRegression', values: { alpha: [0, 0.001, 0.01, 0.1] } },
+  decision_tree: { group: 'decisionTree', values: { maxDepth: [3, 6, 10], minSamplesLeaf: [1, 5, 20] } },
+  random_forest: { group: 'randomForest', values: { maxDepth: [6, 10], maxFeatures: [0.4, 0.8] } },
+};
+
+const cartesian = (values: Record<string, number[]>): Record<string, number>[] =>
+  Object.keys(values).reduce<Record<string, number>[]>(
+    (combos, key) => combos.flatMap(combo => values[key].map(v => ({ ...combo, [key]: v }))),
+    [{}]
+  );
+
+const sampleCombos = (values: Record<string, number[]>, trials: number, rng: Rng): Record<string, number>[] => {
+  const seen = new Set<string>();
+  const combos: Record<string, number>[] = [];
+  const total = cartesian(values).length;
+  while (combos.length < Math.min(trials, total)) {
+    const combo: Record<string, number> = {};
+    Object.keys(values).forEach(key => {
+      combo[key] = values[key][Math.floor(rng() * values[key].length)];
+    });
+    const id = JSON.stringify(combo);
+    if (!seen.has(id)) {
+      seen.add(id);
+      combos.push(combo);
+    }
+  }
+  return combos;
+};
+
+const describe = (combo: Record<string, number>): string =>
+  Object.keys(combo).map(key => `${key}=${combo[key]}`).join(', ');
+
+export const buildCandidates = (
+  taskType: TaskType,
+  base: Hyperparameters,
+  options: AutoMLOptions,
+  seed: number
+): Candidate[] => {
+  const rng = createRng(seed);
+
+  return TASK_ALGORITHMS[taskType].flatMap(algorithm => {
+    const space = PARAM_SPACES[algorithm];
+    if (!space || options.search === 'none') {
+      return [{ algorithm, hyperparameters: base, label: space ? 'current settings' : '' }];
+    }
+
+    const combos = options.search === 'grid'
+      ? cartesian(space.values)
+      : sampleCombos(space.values, options.randomTrials, rng);
+
+    return combos.map(combo => ({
+      algorithm,
+      hyperparameters: { ...base, [space.group]: { ...base[space.group], ...combo } },
+      label: describe(combo),
+    }));
+  });
+};
+
+export const runAutoML = (
+  data: DataRow[],
+  config: ModelConfig,
+  options: AutoMLOptions,
+  onProgress?: (progress: TrainingProgress) => void
+): LeaderboardEntry[] => {
+  const candidates = buildCandidates(config.taskType, config.hyperparameters, options, config.validation.seed);
+
+  const entries: LeaderboardEntry[] = [];
+
+  candidates.forEach((candidate, index) => {
+    const started = Date.now();
+    try {
+      const stage = `Candidate ${index + 1}/${candidates.length}: ${candidate.algorithm.replace(/_/g, ' ')}`;
+      const candidateConfig = { ...config, algorithm: candidate.algorithm, hyperparameters: candidate.hyperparameters };
+      const metrics = trainModel(
+        data,
+        candidateConfig,
+        onProgress && (progress => onProgress({
+          ...progress,
+          fraction: (index + progress.fraction) / candidates.length,
+          stage: `${stage} (${progress.stage})`,
+        }))
+      );
+      entries.push({
+        id: `${candidate.algorithm}-${index}`,
+        algorithm: candidate.algorithm,
+        hyperparameters: candidate.hyperparameters,
+        label: candidate.label,
+        config: candidateConfig,
+        metrics,
+        scores: scalarMetrics(metrics),
+        durationMs: Date.now() - started,
+      });
+    } catch (err) {
+      // One failing candidate (e.g. a singular system) should not sink the whole run
+      console.error(`AutoML candidate ${candidate.algorithm} (${candidate.label}) failed:`, err);
+    }
+  });
+
+  return entries;
+};
+
+// The metric a leaderboard ranks by: the chosen one when the entries report it, else the task's default
+export const rankingMetric = (entries: LeaderboardEntry[], chosen: string | null): string => {
+  const metricKeys = Object.keys(entries[0]?.scores ?? {});
+  const preferred = chosen ?? (entries[0] ? DEFAULT_RANKING_METRIC[entries[0].config.taskType] : '');
+  return metricKeys.includes(preferred) ? preferred : metricKeys[0];
+};
+
+// Highest-ranked entry by one metric; entries that did not produce it never win
+export const bestEntry = (entries: LeaderboardEntry[], metric: string): LeaderboardEntry | undefined => {
+  const sign = LOWER_IS_BETTER.has(metric) ? -1 : 1;
+  return entries
+    .filter(entry => Number.isFinite(entry.scores[metric]))
+    .reduce<LeaderboardEntry | undefined>(
+      (best, entry) => (!best || sign * entry.scores[metric] > sign * best.scores[metric] ? entry : best),
+      undefined
+    );
+};
@@ -0,0 +1,371 @@
+import { DataRow, ColumnStat, CleaningOptions, CleaningAuditEntry, CleaningOperation, CleaningResult, ColumnCleaning, ImputationStrategy } from "../types";
+import { leastSquaresQR } from "./linalg";
+import { detectOutliers, ISOLATION_FOREST_LABEL } from "./outliers";
+
+// Cleaning runs in a fixed order so strategies don't depend on column order:
+// 1. outliers are detected on the raw data, then capped, flagged or removed,
+// 2. "was missing" indicators are recorded from the raw missingness,
+// 3. rows are dropped for columns that use drop_rows,
+// 4. simple fills (statistics, constants, forward/backward fill) run per column,
+// 5. KNN and regression imputers all read the table as it stands after step 4.
+
+export const DEFAULT_KNN_NEIGHBORS = 5;
+
+// Methods that need a numeric column
+const NUMERIC_ONLY = new Set<ImputationStrategy['method']>(['mean', 'median', 'regression']);
+
+export const IMPUTATION_LABELS: Record<ImputationStrategy['method'], string> = {
+  none: 'Leave as is',
+  drop_rows: 'Remove rows',
+  mean: 'Mean',
+  median: 'Median',
+  mode: 'Mode (most frequent)',
+  constant: 'Constant value',
+  forward_fill: 'Forward fill',
+  backward_fill: 'Backward fill',
+  knn: 'KNN (nearest rows)',
+  regression: 'Regression on other columns',
+};
+
+export const imputationMethodsFor = (type: ColumnStat['type']): ImputationStrategy['method'][] =>
+  (Object.keys(IMPUTATION_LABELS) as ImputationStrategy['method'][]).filter(m => type === 'number' || !NUMERIC_ONLY.has(m));
+
+export const defaultImputation = (method: ImputationStrategy['method']): ImputationStrategy => {
+  switch (method) {
+    case 'constant':
+      return { method: 'constant', value: '' };
+    case 'knn':
+      return { method: 'knn', neighbors: DEFAULT_KNN_NEIGHBORS };
+    default:
+      return { method };
+  }
+};
+
+export const defaultColumnCleaning = (): ColumnCleaning => ({ strategy: defaultImputation('none'), addIndicator: false });
+
+const isMissing = (value: string | number | null | undefined): boolean =>
+  value === null || value === undefined || value === '';
+
+const calculateMean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+const calculateMedian = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const calculateMode = <T extends string | number>(values: T[]): T | null => {
+  const counts: Record<string, number> = {};
+  let maxCount = 0;
+  let mode: T | null = null;
+  for (const v of values) {
+    const k = String(v);
+    counts[k] = (counts[k] || 0) + 1;
+    if (counts[k] > maxCount) {
+      maxCount = counts[k];
+      mode = v;
+    }
+  }
+  return mode;
+};
+
+const uniqueColumnName = (base: string, taken: Set<string>): string => {
+  let name = base;
+  for (let i = 2; taken.has(name); i++) name = `${base}_${i}`;
+  return name;
+};
+
+// --- Simple fills ---
+
+const carryFill = (rows: DataRow[], column: string) => {
+  // Leading gaps take the first observed value
+  let last = rows.find(row => !isMissing(row[column]))?.[column];
+  if (last === undefined) return;
+  rows.forEach(row => {
+    if (isMissing(row[column])) row[column] = last as string | number;
+    else last = row[column];
+  });
+};
+
+const simpleFillValue = (observed: (string | number)[], stat: ColumnStat, strategy: ImputationStrategy): string | number | null => {
+  switch (strategy.method) {
+    case 'mean':
+      return calculateMean(observed as number[]);
+    case 'median':
+      return calculateMedian(observed as number[]);
+    case 'mode':
+      return calculateMode(observed);
+    case 'constant': {
+      if (stat.type === 'string') return strategy.value;
+      const value = Number(strategy.value);
+      if (strategy.value.trim() === '' || !Number.isFinite(value)) {
+        throw new Error(`Constant "${strategy.value}" is not a number, but column "${stat.name}" is numeric`);
+      }
+      return value;
+    }
+    default:
+      return null;
+  }
+};
+
+// --- Model-based imputers ---
+
+// Other numeric columns, standardized, with missing entries left as null
+const predictorMatrix = (rows: DataRow[], predictors: string[]): (number | null)[][] => {
+  const scaling = predictors.map(col => {
+    const values = rows.map(row => row[col]).filter((v): v is number => typeof v === 'number');
+    const mean = values.length ? calculateMean(values) : 0;
+    const std = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / Math.max(1, values.length)) || 1;
+    return { mean, std };
+  });
+  return rows.map(row => predictors.map((col, j) => {
+    const value = row[col];
+    return typeof value === 'number' ? (value - scaling[j].mean) / scaling[j].std : null;
+  }));
+};
+
+// Root mean squared difference over the predictors both rows have
+const partialDistance = (a: (number | null)[], b: (number | null)[]): number => {
+  let sum = 0;
+  let count = 0;
+  for (let j = 0; j < a.length; j++) {
+    const x = a[j];
+    const y = b[j];
+    if (x === null || y === null) continue;
+    sum += (x - y) ** 2;
+    count++;
+  }
+  return count === 0 ? Infinity : Math.sqrt(sum / count);
+};
+
+const knnImpute = (rows: DataRow[], column: string, stat: ColumnStat, predictors: string[], neighbors: number): Map<number, string | number> => {
+  const X = predictorMatrix(rows, predictors);
+  const donors = rows.map((_, i) => i).filter(i => !isMissing(rows[i][column]));
+  const updates = new Map<number, string | number>();
+
+  rows.forEach((row, i) => {
+    if (!isMissing(row[column])) return;
+    const nearest = donors
+      .map(d => ({ d, distance: partialDistance(X[i], X[d]) }))
+      .filter(n => Number.isFinite(n.distance))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, Math.max(1, neighbors))
+      .map(n => rows[n.d][column] as string | number);
+    if (nearest.length === 0) return;
+    const value = stat.type === 'number' ? calculateMean(nearest as number[]) : calculateMode(nearest);
+    if (value !== null) updates.set(i, value);
+  });
+  return updates;
+};
+
+const regressionImpute = (rows: DataRow[], column: string, predictors: string[]): Map<number, number> => {
+  // Missing predictor values count as the column mean (0 after standardizing)
+  const X = predictorMatrix(rows, predictors).map(x => [1, ...x.map(v => v ?? 0)]);
+  const observed = rows.map((_, i) => i).filter(i => typeof rows[i][column] === 'number');
+  const updates = new Map<number, number>();
+  if (observed.length < 2) return updates;
+
+  const { coefficients } = leastSquaresQR(observed.map(i => X[i]), observed.map(i => rows[i][column] as number));
+  rows.forEach((row, i) => {
+    if (isMissing(row[column])) updates.set(i, X[i].reduce((acc, x, j) => acc + x * coefficients[j], 0));
+  });
+  return updates;
+};
+
+// --- Pipeline ---
+
+// Raw indices of the rows that are missing a value in the column
+const missingRows = (rows: DataRow[], sourceRows: number[], column: string): number[] =>
+  sourceRows.filter((_, i) => isMissing(rows[i][column]));
+
+export const cleanData = (data: DataRow[], stats: ColumnStat[], options: CleaningOptions): CleaningResult => {
+  const plans = stats
+    .filter(stat => {
+      const plan = options.columns[stat.name];
+      return plan && (plan.strategy.method !== 'none' || plan.addIndicator);
+    })
+    .map(stat => ({ stat, ...options.columns[stat.name] }));
+
+  plans.forEach(({ stat, strategy }) => {
+    if (stat.type !== 'number' && NUMERIC_ONLY.has(strategy.method)) {
+      throw new Error(`${IMPUTATION_LABELS[strategy.method]} imputation needs a numeric column, but "${stat.name}" holds text`);
+    }
+  });
+
+  const audit: CleaningAuditEntry[] = [];
+  const taken = new Set(stats.map(s => s.name));
+  let cleaned = data.map(row => ({ ...row }));
+  let sourceRows = data.map((_, i) => i);
+  const keepRows = (keep: (row: DataRow, i: number) => boolean) => {
+    const kept = cleaned.map((row, i) => keep(row, i));
+    cleaned = cleaned.filter((_, i) => kept[i]);
+    sourceRows = sourceRows.filter((_, i) => kept[i]);
+  };
+
+  // 1. Outliers, on the raw data so row indices are still raw indices
+  const removed = new Set<number>();
+  detectOutliers(data, stats, options.outliers).forEach(finding => {
+    const { column } = finding;
+    const method = column === null ? ISOLATION_FOREST_LABEL : options.outliers.columns[column].detection.method;
+    const bounds = finding.lower !== undefined && finding.upper !== undefined
+      ? `bounds ${finding.lower.toPrecision(6)} to ${finding.upper.toPrecision(6)}`
+      : undefined;
+    if (finding.treatment === 'remove') {
+      finding.rows.forEach(i => removed.add(i));
+      audit.push({ operation: 'outlier_remove', column, method, rows: finding.rows, detail: bounds });
+    } else if (finding.treatment === 'flag') {
+      const name = uniqueColumnName(column === null ? 'is_anomaly' : `${column}_is_outlier`, taken);
+      taken.add(name);
+      const flagged = new Set(finding.rows);
+      cleaned.forEach((row, i) => { row[name] = flagged.has(i) ? 1 : 0; });
+      audit.push({ operation: 'outlier_flag', column, method, rows: finding.rows, addedColumn: name, detail: bounds });
+    } else if (column !== null && finding.lower !== undefined && finding.upper !== undefined) {
+      const { lower, upper } = finding;
+      finding.rows.forEach(i => {
+        cleaned[i][column] = Math.min(upper, Math.max(lower, cleaned[i][column] as number));
+      });
+      audit.push({ operation: 'outlier_cap', column, method, rows: finding.rows, detail: bounds });
+    }
+  });
+  keepRows((_, i) => !removed.has(i));
+
+  // 2. Indicators, from the raw missingness
+  plans.filter(plan => plan.addIndicator).forEach(({ stat }) => {
+    const name = uniqueColumnName(`${stat.name}_was_missing`, taken);
+    taken.add(name);
+    const rows = missingRows(cleaned, sourceRows, stat.name);
+    cleaned.forEach(row => { row[name] = isMissing(row[stat.name]) ? 1 : 0; });
+    audit.push({ operation: 'missing_indicator', column: stat.name, method: 'indicator', rows, addedColumn: name });
+  });
+
+  // 3. Row removal
+  const dropColumns = plans.filter(plan => plan.strategy.method === 'drop_rows').map(plan => plan.stat.name);
+  dropColumns.forEach(column => {
+    // Rows already counted by an earlier column are not repeated
+    const earlier = dropColumns.slice(0, dropColumns.indexOf(column));
+    const rows = sourceRows.filter((_, i) => isMissing(cleaned[i][column]) && !earlier.some(col => isMissing(cleaned[i][col])));
+    audit.push({ operation: 'drop_rows', column, method: 'drop_rows', rows });
+  });
+  keepRows(row => !dropColumns.some(col => isMissing(row[col])));
+
+  // 4. Simple fills
+  plans.forEach(({ stat, strategy }) => {
+    const column = stat.name;
+    const before = cleaned.map(row => isMissing(row[column]));
+    let fillValue: string | number | undefined;
+    if (strategy.method === 'forward_fill') {
+      carryFill(cleaned, column);
+    } else if (strategy.method === 'backward_fill') {
+      // Trailing gaps take the last observed value
+      const reversed = [...cleaned].reverse();
+      carryFill(reversed, column);
+    } else {
+      const observed = cleaned.map(row => row[column]).filter(v => !isMissing(v)) as (string | number)[];
+      if (observed.length === 0 && strategy.method !== 'constant') return;
+      const value = simpleFillValue(observed, stat, strategy);
+      if (value === null) return;
+      fillValue = value;
+      cleaned.forEach(row => {
+        if (isMissing(row[column])) row[column] = value;
+      });
+    }
+    const rows = sourceRows.filter((_, i) => before[i] && !isMissing(cleaned[i][column]));
+    audit.push({ operation: 'impute', column, method: strategy.method, rows, fillValue });
+  });
+
+  // 5. Model-based imputation, all computed from the same table before any is applied
+  const numericColumns = stats.filter(s => s.type === 'number').map(s => s.name);
+  const modelUpdates = plans.map(({ stat, strategy }) => {
+    if (strategy.method !== 'knn' && strategy.method !== 'regression') return null;
+    const predictors = numericColumns.filter(col => col !== stat.name);
+    if (predictors.length === 0) {
+      throw new Error(`${IMPUTATION_LABELS[strategy.method]} imputation for "${stat.name}" needs at least one other numeric column`);
+    }
+    return {
+      column: stat.name,
+      method: strategy.method,
+      detail: strategy.method === 'knn' ? `${strategy.neighbors} neighbors` : `fitted on ${predictors.join(', ')}`,
+      updates: strategy.method === 'knn'
+        ? knnImpute(cleaned, stat.name, stat, predictors, strategy.neighbors)
+        : regressionImpute(cleaned, stat.name, predictors),
+    };
+  });
+  modelUpdates.forEach(update => {
+    if (!update) return;
+    update.updates.forEach((value, i) => { cleaned[i][update.column] = value; });
+    const rows = Array.from(update.updates.keys()).sort((a, b) => a - b).map(i => sourceRows[i]);
+    audit.push({ operation: 'impute', column: update.column, method: update.method, rows, detail: update.detail });
+  });
+
+  // Always remove exact full-row duplicates for basic hygiene
+  const firstSeen = new Map<string, number>();
+  const duplicates: number[] = [];
+  const duplicateOf: number[] = [];
+  cleaned.forEach((row, i) => {
+    const s = JSON.stringify(row);
+    const kept = firstSeen.get(s);
+    if (kept === undefined) {
+      firstSeen.set(s, sourceRows[i]);
+    } else {
+      duplicates.push(sourceRows[i]);
+      duplicateOf.push(kept);
+    }
+  });
+  if (duplicates.length > 0) {
+    const removedDuplicates = new Set(duplicates);
+    keepRows((_, i) => !removedDuplicates.has(sourceRows[i]));
+  }
+  audit.push({ operation: 'deduplicate', column: null, method: 'exact match', rows: duplicates, duplicateOf });
+
+  return { data: cleaned, audit, sourceRows };
+};
+
+// --- Audit ---
+
+export const CLEANING_OPERATION_LABELS: Record<CleaningOperation, string> = {
+  outlier_cap: 'Capped outliers',
+  outlier_flag: 'Flagged outliers',
+  outlier_remove: 'Removed outliers',
+  missing_indicator: 'Added missing indicator',
+  drop_rows: 'Removed rows with missing values',
+  impute: 'Filled missing values',
+  deduplicate: 'Removed duplicate rows',
+};
+
+export interface RowDiff {
+  source: number; // raw row index
+  status: 'removed' | 'modified';
+  before: DataRow;
+  after: DataRow | null;
+  changedColumns: string[]; // columns of the raw data whose value changed
+  reason: string | null; // for removed rows
+}
+
+// Rows that were removed or had a raw column changed, in raw order
+export const diffCleaning = (raw: DataRow[], result: CleaningResult): RowDiff[] => {
+  const columns = Object.keys(raw[0] ?? {});
+  const cleanedBySource = new Map(result.sourceRows.map((source, i) => [source, result.data[i]]));
+  const removalReasons = new Map<number, string>();
+  result.audit.forEach(entry => {
+    if (entry.operation !== 'outlier_remove' && entry.operation !== 'drop_rows' && entry.operation !== 'deduplicate') return;
+    entry.rows.forEach((row, k) => {
+      const reason = entry.operation === 'deduplicate'
+        ? `Duplicate of row ${(entry.duplicateOf?.[k] ?? 0) + 1}`
+        : `${CLEANING_OPERATION_LABELS[entry.operation]}${entry.column ? ` (${entry.column})` : ` (${entry.method})`}`;
+      if (!removalReasons.has(row)) removalReasons.set(row, reason);
+    });
+  });
+
+  const diffs: RowDiff[] = [];
+  raw.forEach((before, source) => {
+    const after = cleanedBySource.get(source);
+    if (!after) {
+      diffs.push({ source, status: 'removed', before, after: null, changedColumns: [], reason: removalReasons.get(source) ?? null });
+      return;
+    }
+    const changedColumns = columns.filter(col => (before[col] ?? null) !== (after[col] ?? null));
+    if (changedColumns.length > 0) diffs.push({ source, status: 'modified', before, after, changedColumns, reason: null });
+  });
+  return diffs;
+};
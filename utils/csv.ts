@@ -0,0 +1,181 @@
+import { DataRow, ParseResult, RejectedRow } from "../types";
+
+// --- RFC 4180 Tokenizer ---
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const DETECTION_SAMPLE_CHARS = 64 * 1024;
+const DETECTION_SAMPLE_RECORDS = 20;
+
+interface RawRecord {
+  fields: string[];
+  line: number; // 1-based line where the record starts
+  raw: string;
+  unterminated: boolean;
+}
+
+const tokenize = (text: string, delimiter: string, maxRecords = Infinity): RawRecord[] => {
+  const records: RawRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let recordStart = 0;
+  let i = 0;
+
+  const endRecord = (end: number) => {
+    fields.push(field);
+    records.push({ fields, line: recordLine, raw: text.slice(recordStart, end), unterminated: false });
+    fields = [];
+    field = '';
+  };
+
+  while (i < text.length && records.length < maxRecords) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === '') {
+      // Opening quote; leading whitespace before it is not part of the value
+      field = '';
+      inQuotes = true;
+      i++;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = '';
+      i++;
+    } else if (ch === '\r' || ch === '\n') {
+      endRecord(i);
+      i += ch === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      line++;
+      recordLine = line;
+      recordStart = i;
+    } else {
+      field += ch;
+      i++;
+    }
+  }
+
+  if (records.length < maxRecords && (field !== '' || fields.length > 0 || inQuotes)) {
+    fields.push(field);
+    records.push({ fields, line: recordLine, raw: text.slice(recordStart), unterminated: inQuotes });
+  }
+
+  return records;
+};
+
+const isBlankRecord = (record: RawRecord): boolean =>
+  record.fields.length === 1 && record.fields[0].trim() === '';
+
+export const detectDelimiter = (text: string): string => {
+  const sample = text.slice(0, DETECTION_SAMPLE_CHARS);
+  let best = ',';
+  let bestScore = -1;
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const records = tokenize(sample, delimiter, DETECTION_SAMPLE_RECORDS + 1)
+      .filter(r => !isBlankRecord(r) && !r.unterminated);
+    if (records.length === 0) return;
+
+    const headerCount = records[0].fields.length;
+    if (headerCount < 2) return;
+
+    // Prefer delimiters that give a consistent field count, then more columns
+    const body = records.slice(1);
+    const consistent = body.length === 0
+      ? 1
+      : body.filter(r => r.fields.length === headerCount).length / body.length;
+    const score = consistent * 1000 + headerCount;
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  });
+
+  return best;
+};
+
+// --- Value Conversion ---
+
+const NUMERIC_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+const parseValue = (value: string): string | number | null => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  return NUMERIC_PATTERN.test(trimmed) ? parseFloat(trimmed) : trimmed;
+};
+
+const normalizeHeaders = (fields: string[]): string[] => {
+  const seen: Record<string, number> = {};
+  return fields.map((field, index) => {
+    const base = field.trim() || `column_${index + 1}`;
+    seen[base] = (seen[base] || 0) + 1;
+    return seen[base] > 1 ? `${base}_${seen[base]}` : base;
+  });
+};
+
+// --- Parsing ---
+
+export const parseCSV = (csvText: string): ParseResult => {
+  const text = csvText.charCodeAt(0) === 0xfeff ? csvText.slice(1) : csvText;
+  const delimiter = detectDelimiter(text);
+  const records = tokenize(text, delimiter).filter(r => !isBlankRecord(r));
+
+  const rows: DataRow[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  if (records.length === 0) return { headers: [], rows, rejectedRows, delimiter };
+
+  const headers = normalizeHeaders(records[0].fields);
+
+  records.slice(1).forEach(record => {
+    if (record.unterminated) {
+      rejectedRows.push({ line: record.line, reason: 'Unterminated quoted field', raw: record.raw });
+      return;
+    }
+    if (record.fields.length !== headers.length) {
+      rejectedRows.push({
+        line: record.line,
+        reason: `Expected ${headers.length} fields but found ${record.fields.length}`,
+        raw: record.raw,
+      });
+      return;
+    }
+
+    const row: DataRow = {};
+    headers.forEach((header, index) => {
+      row[header] = parseValue(record.fields[index]);
+    });
+    rows.push(row);
+  });
+
+  return { headers, rows, rejectedRows, delimiter };
+};
+
+// --- Writing ---
+
+const formatField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Comma-delimited with CRLF line endings; missing values are written as empty fields
+export const toCSV = (headers: string[], rows: DataRow[]): string =>
+  [headers, ...rows.map(row => headers.map(h => row[h]))]
+    .map(fields => fields.map(formatField).join(','))
+    .join('\r\n');
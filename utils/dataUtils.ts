@@ -1,249 +1,355 @@
-import { DataRow, ColumnStat, CleaningOptions, ModelMetrics } from "../types";
-
-// --- Parsing ---
-
-export const parseCSV = (csvText: string): DataRow[] => {
-  const lines = csvText.trim().split('\n');
-  if (lines.length < 2) return [];
-
-  const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-  const data: DataRow[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const rowStr = lines[i].trim();
-    if (!rowStr) continue;
-    
-    // Basic CSV split respecting quotes (simplified for demo)
-    const values = rowStr.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-    
-    if (values.length === headers.length) {
-      const row: DataRow = {};
-      headers.forEach((header, index) => {
-        const val = values[index];
-        // Attempt to parse number
-        const numVal = parseFloat(val);
-        row[header] = isNaN(numVal) ? (val === '' ? null : val) : numVal;
-      });
-      data.push(row);
-    }
-  }
-  return data;
+import {
+  DataRow, ColumnStat, ModelConfig, ModelMetrics, TaskType, FoldResult, TrainingProgress, TrainedModel,
+  FeatureImportance, ModelExplanations, PredictionError, FittedPreprocessing, FeatureEncoderState
+} from "../types";
+import { fitModel, fitClassifier, predictRow, predictProba, EpochCallback } from "./models";
+import { fitFeatureEncoders, encodeRow, encodeTrainingRows, categoryOf } from "./encoding";
+import { computeRegressionMetrics, computeClassificationMetrics, scalarMetrics, summarizeFolds } from "./metrics";
+import { createRng, Rng } from "./random";
+import { holdoutSplit, kFoldSplits, quantileBins, sampleEvenly } from "./splitting";
+import { buildCoefficientTable, quantile } from "./statistics";
+import {
+  defaultPreprocessing, fitScaling, scaleVector, fitTargetScaling, fitTargetTransform,
+  transformTarget, inverseTransformTarget
+} from "./preprocessing";
+import {
+  permutationImportance, averageImportances, partialDependence, nativeImportance,
+  MAX_PERMUTATION_ROWS, MAX_DEPENDENCE_ROWS
+} from "./explain";
+
+// --- Model Training ---
+
+// Low-cardinality or non-numeric targets are most likely class labels
+export const MAX_SUGGESTED_CLASSES = 10;
+
+export const suggestTaskType = (stat: ColumnStat): TaskType =>
+  stat.type === 'string' || stat.uniqueCount <= MAX_SUGGESTED_CLASSES ? 'classification' : 'regression';
+
+// Raw test-set outputs of one fitted model, pooled across folds before scoring
+type SplitPredictions =
+  | { task: 'regression'; predictions: { actual: number; predicted: number }[] }
+  | { task: 'classification'; actual: number[]; probabilities: number[][] };
+
+// --- Prediction from a trained model ---
+// Used both during evaluation and when scoring new files with an exported model.
+
+const modelInputs = (model: TrainedModel, row: DataRow): number[] =>
+  scaleVector(encodeRow(model.encoders, row), model.preprocessing.featureScaling);
+
+// Regression prediction in the target's own units
+export const predictTargetValue = (model: TrainedModel, row: DataRow): number => {
+  const { targetTransform, targetScaling } = model.preprocessing;
+  const scaled = predictRow(model.fitted, modelInputs(model, row));
+  const transformed = targetScaling ? scaled * targetScaling.scale + targetScaling.center : scaled;
+  return targetTransform ? inverseTransformTarget(targetTransform, transformed) : transformed;
 };
 
-// --- Analysis ---
-
-export const analyzeColumns = (data: DataRow[]): ColumnStat[] => {
-  if (data.length === 0) return [];
-  const keys = Object.keys(data[0]);
-  
-  return keys.map(key => {
-    let missing = 0;
-    const values: any[] = [];
-    let numberCount = 0;
-
-    data.forEach(row => {
-      const val = row[key];
-      if (val === null || val === undefined || val === '') {
-        missing++;
-      } else {
-        values.push(val);
-        if (typeof val === 'number') numberCount++;
-      }
-    });
-
-    const uniqueCount = new Set(values).size;
-    // Heuristic: if > 80% are numbers, treat as number column
-    const type = (numberCount / values.length > 0.8) ? 'number' : 'string';
+// Class probabilities, indexed like model.classes
+export const predictClassProbabilities = (model: TrainedModel, row: DataRow): number[] =>
+  predictProba(model.fitted, modelInputs(model, row));
+
+// Median of each numeric feature and the most frequent value of each categorical one
+const typicalRow = (rows: DataRow[], encoderState: FeatureEncoderState): DataRow =>
+  Object.fromEntries(encoderState.features.map(feature => {
+    const values = rows.map(row => row[feature]).filter(v => v !== null && v !== undefined && v !== '');
+    if (!encoderState.encoders[feature]) {
+      const sorted = values.filter((v): v is number => typeof v === 'number').sort((a, b) => a - b);
+      return [feature, sorted.length > 0 ? quantile(sorted, 0.5) : null];
+    }
+    const counts = new Map<string | number, number>();
+    values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+    let mode: string | number | null = null;
+    counts.forEach((count, value) => { if (mode === null || count > counts.get(mode)!) mode = value; });
+    return [feature, mode];
+  }));
+
+// A fitted model plus the encoders and preprocessing it was trained with
+interface FittedPipeline {
+  model: TrainedModel;
+  predict: (rows: DataRow[]) => SplitPredictions;
+}
+
+const fitPipeline = (
+  trainData: DataRow[],
+  config: ModelConfig,
+  classes: string[],
+  onEpoch?: EpochCallback
+): FittedPipeline => {
+  const { targetColumn: target, featureColumns: features } = config;
+  const encodings = config.encodings ?? {};
+  const preprocessing = config.preprocessing ?? defaultPreprocessing();
+  const isClassification = config.taskType === 'classification';
+
+  const classIndex = (row: DataRow) => classes.indexOf(categoryOf(row[target]));
+  if (isClassification && new Set(trainData.map(classIndex)).size < 2) {
+    throw new Error("Classification needs at least two classes in the training split");
+  }
 
+  // Target encoders use the raw target, or the positive (last) class rate for classification
+  const encoderTargets = trainData.map(row =>
+    isClassification ? (classIndex(row) === classes.length - 1 ? 1 : 0) : (row[target] as number)
+  );
+
+  // Encoders see the training split only
+  const encoderState = fitFeatureEncoders(trainData, features, encodings, encoderTargets);
+  const trainMatrix = encodeTrainingRows(encoderState, trainData, encodings, encoderTargets);
+
+  // Scale with training statistics only; trees are unaffected, linear models need it
+  const featureScaling = fitScaling(trainMatrix, encoderState.names.length, preprocessing.scaling);
+  const describe = (fitted: TrainedModel['fitted'], target: Pick<FittedPreprocessing, 'targetTransform' | 'targetScaling'>): TrainedModel => ({
+    algorithm: config.algorithm,
+    featureNames: encoderState.names,
+    encoders: encoderState,
+    preprocessing: { scaling: preprocessing.scaling, featureScaling, ...target },
+    classes: isClassification ? classes : null,
+    trainingRows: trainData.length,
+    baseline: typicalRow(trainData, encoderState),
+    fitted,
+  });
+  const scaledTrain = trainMatrix.map(x => scaleVector(x, featureScaling));
+
+  if (isClassification) {
+    const model = fitClassifier(
+      config.algorithm,
+      scaledTrain,
+      trainData.map(classIndex),
+      classes.length,
+      config.hyperparameters,
+      onEpoch
+    );
+    const trained = describe(model, { targetTransform: null, targetScaling: null });
     return {
-      name: key,
-      type,
-      missingCount: missing,
-      uniqueCount,
-      sample: values.slice(0, 5)
+      model: trained,
+      predict: rows => ({
+        task: 'classification',
+        actual: rows.map(classIndex),
+        probabilities: rows.map(row => predictClassProbabilities(trained, row)),
+      }),
     };
-  });
-};
-
-// --- Cleaning ---
-
-const calculateMedian = (values: number[]): number => {
-  if (values.length === 0) return 0;
-  const sorted = [...values].sort((a, b) => a - b);
-  const mid = Math.floor(sorted.length / 2);
-  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
-};
+  }
 
-const calculateMode = (values: any[]): any => {
-  const counts: Record<string, number> = {};
-  let maxCount = 0;
-  let mode = values[0];
-  for (const v of values) {
-    const k = String(v);
-    counts[k] = (counts[k] || 0) + 1;
-    if (counts[k] > maxCount) {
-      maxCount = counts[k];
-      mode = v;
-    }
+  // The model sees the transformed, standardized target; predictions are mapped back to target units
+  const targetTransform = fitTargetTransform(trainData.map(row => row[target] as number), preprocessing.targetTransform);
+  const transformedTarget = trainData.map(row => transformTarget(targetTransform, row[target] as number));
+  const targetScaling = fitTargetScaling(transformedTarget);
+
+  const model = fitModel(
+    config.algorithm,
+    scaledTrain,
+    transformedTarget.map(y => (y - targetScaling.center) / targetScaling.scale),
+    config.hyperparameters,
+    onEpoch
+  );
+
+  const trained = describe(model, { targetTransform, targetScaling });
+  if (model.kind === 'linear' && model.inference) {
+    trained.coefficients = buildCoefficientTable(
+      model.intercept, model.weights, model.inference, encoderState.names, featureScaling, targetScaling
+    );
   }
-  return mode;
+
+  return {
+    model: trained,
+    predict: rows => ({
+      task: 'regression',
+      predictions: rows.map(row => ({
+        actual: row[target] as number,
+        predicted: predictTargetValue(trained, row),
+      })),
+    }),
+  };
 };
 
-export const cleanData = (data: DataRow[], stats: ColumnStat[], options: CleaningOptions): DataRow[] => {
-  let cleaned = [...data];
-
-  if (options.method === 'drop_rows') {
-    cleaned = cleaned.filter(row => {
-      return !options.targetColumns.some(col => row[col] === null || row[col] === '');
-    });
-  } else {
-    // Fill methods
-    options.targetColumns.forEach(col => {
-      const stat = stats.find(s => s.name === col);
-      if (!stat) return;
-
-      const validValues = cleaned
-        .map(r => r[col])
-        .filter(v => v !== null && v !== '') as any[];
-
-      let fillValue: any;
-      
-      if (stat.type === 'number') {
-        const nums = validValues as number[];
-        if (options.method === 'fill_mean') {
-          const sum = nums.reduce((a, b) => a + b, 0);
-          fillValue = sum / nums.length;
-        } else if (options.method === 'fill_median') {
-          fillValue = calculateMedian(nums);
-        } else {
-          fillValue = calculateMode(nums);
-        }
-      } else {
-        // For strings, always use mode
-        fillValue = calculateMode(validValues);
-      }
+const scorePredictions = (output: SplitPredictions, classes: string[], predictorCount = 0): ModelMetrics =>
+  output.task === 'classification'
+    ? computeClassificationMetrics(classes, output.actual, output.probabilities)
+    : computeRegressionMetrics(output.predictions, predictorCount);
 
-      cleaned = cleaned.map(row => {
-        if (row[col] === null || row[col] === '') {
-          return { ...row, [col]: fillValue };
-        }
-        return row;
-      });
-    });
-  }
+// Scalar metrics of a pipeline on the rows it was trained on, to compare against the test score
+const trainingScores = (pipeline: FittedPipeline, trainRows: DataRow[], classes: string[]): Record<string, number> =>
+  scalarMetrics(scorePredictions(pipeline.predict(trainRows), classes, pipeline.model.featureNames.length));
 
-  // Always remove exact full-row duplicates for basic hygiene
-  const uniqueSet = new Set();
-  const deduped: DataRow[] = [];
-  cleaned.forEach(row => {
-    const s = JSON.stringify(row);
-    if (!uniqueSet.has(s)) {
-      uniqueSet.add(s);
-      deduped.push(row);
-    }
+const averageScores = (scores: Record<string, number>[]): Record<string, number> => {
+  const result: Record<string, number> = {};
+  Object.keys(scores[0] ?? {}).forEach(key => {
+    result[key] = scores.reduce((acc, s) => acc + s[key], 0) / scores.length;
   });
+  return result;
+};
+
+const MAX_LARGEST_ERRORS = 10;
+
+// rows must be aligned with the predictions
+const largestErrors = (output: SplitPredictions, rows: DataRow[], features: string[]): PredictionError[] | undefined => {
+  if (output.task !== 'regression') return undefined;
+  return output.predictions
+    .map((p, i) => ({ ...p, index: i }))
+    .sort((a, b) => Math.abs(b.actual - b.predicted) - Math.abs(a.actual - a.predicted))
+    .slice(0, MAX_LARGEST_ERRORS)
+    .map(({ actual, predicted, index }) => ({
+      actual,
+      predicted,
+      features: Object.fromEntries(features.map(f => [f, rows[index][f]])),
+    }));
+};
 
-  return deduped;
+// Extras that only apply to regression results
+const withRegressionDetails = (metrics: ModelMetrics, output: SplitPredictions, rows: DataRow[], features: string[]): ModelMetrics =>
+  metrics.task === 'regression' ? { ...metrics, largestErrors: largestErrors(output, rows, features) } : metrics;
+
+const STRATIFICATION_BINS = 5;
+
+// Higher-is-better metric whose drop measures permutation importance
+const IMPORTANCE_METRIC: Record<TaskType, string> = { regression: 'r2', classification: 'accuracy' };
+
+const importanceOnRows = (
+  pipeline: FittedPipeline,
+  rows: DataRow[],
+  config: ModelConfig,
+  classes: string[],
+  rng: Rng
+): FeatureImportance[] =>
+  permutationImportance(
+    sampleEvenly(rows, MAX_PERMUTATION_ROWS),
+    config.featureColumns,
+    sample => scalarMetrics(scorePredictions(pipeline.predict(sample), classes))[IMPORTANCE_METRIC[config.taskType]],
+    rng
+  );
+
+// Dependence plots show the prediction, or the positive-class probability for classification
+const explainModel = (
+  pipeline: FittedPipeline,
+  rows: DataRow[],
+  permutation: FeatureImportance[],
+  config: ModelConfig,
+  classes: string[]
+): ModelExplanations => {
+  const encodings = config.encodings ?? {};
+  const positive = classes.length - 1;
+  const predictValues = (sample: DataRow[]) => {
+    const output = pipeline.predict(sample);
+    return output.task === 'classification'
+      ? output.probabilities.map(p => p[positive])
+      : output.predictions.map(p => p.predicted);
+  };
+  const sample = sampleEvenly(rows, MAX_DEPENDENCE_ROWS);
+
+  return {
+    scoreMetric: IMPORTANCE_METRIC[config.taskType],
+    outputLabel: config.taskType === 'classification' ? `P(${classes[positive]})` : `Predicted ${config.targetColumn}`,
+    permutation,
+    native: nativeImportance(pipeline.model),
+    partialDependence: config.featureColumns.map(f => partialDependence(sample, f, !encodings[f], predictValues)),
+  };
 };
 
-// --- Simple ML Implementation (Linear Regression) ---
+// Maps one fit's epochs onto its slice of the overall progress
+const fitProgress = (
+  onProgress: ((progress: TrainingProgress) => void) | undefined,
+  fitIndex: number,
+  fitCount: number,
+  stage: string
+): EpochCallback | undefined =>
+  onProgress && ((completed, total, loss) => onProgress({
+    fraction: (fitIndex + completed / total) / fitCount,
+    stage,
+    epoch: completed,
+    loss,
+  }));
 
 export const trainModel = (
-  data: DataRow[], 
-  target: string, 
-  features: string[], 
-  splitRatio: number
+  data: DataRow[],
+  config: ModelConfig,
+  onProgress?: (progress: TrainingProgress) => void
 ): ModelMetrics => {
-  
+  const { targetColumn: target, featureColumns: features, splitRatio, validation } = config;
+  const encodings = config.encodings ?? {};
+  const isClassification = config.taskType === 'classification';
+
   // 1. Prepare Matrices
-  // Filter for valid numbers
+  // Numeric features must be numbers; encoded features may hold any value (nulls become a category).
+  // Regression needs a numeric target, classification any non-missing label.
   const validData = data.filter(row => {
-    return typeof row[target] === 'number' && 
-           features.every(f => typeof row[f] === 'number');
-  });
-
-  const splitIndex = Math.floor(validData.length * splitRatio);
-  const trainData = validData.slice(0, splitIndex);
-  const testData = validData.slice(splitIndex);
-
-  // Simple Ordinary Least Squares (Single variable or simplified multi-var approach for demo)
-  // For a truly robust app, we'd use a Matrix library. Here we implement basic logic.
-  // We will normalize features to simple means for a heuristic "mock" of complex algorithms 
-  // if user selects Random Forest, BUT actually perform Linear Regression math for accuracy.
-  
-  // Let's implement Simple Linear Regression for the first feature to keep it real, 
-  // or a basic multi-variate accumulation.
-  
-  // Weights initialization
-  const weights: Record<string, number> = {};
-  features.forEach(f => weights[f] = 0);
-  let bias = 0;
-  
-  // Very simple Gradient Descent for Multivariate Linear Regression
-  const learningRate = 0.0001; // Careful with this on unscaled data
-  const epochs = 500; // Keep it fast for browser
-
-  // Normalize data helps GD significantly
-  const means: Record<string, number> = {};
-  const stds: Record<string, number> = {};
-  
-  [...features, target].forEach(col => {
-    const vals = trainData.map(r => r[col] as number);
-    const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
-    const variance = vals.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / vals.length;
-    means[col] = mean;
-    stds[col] = Math.sqrt(variance) || 1;
+    const y = row[target];
+    const validTarget = isClassification ? (y !== null && y !== undefined && y !== '') : typeof y === 'number';
+    return validTarget && features.every(f => encodings[f] || typeof row[f] === 'number');
   });
 
-  const normalize = (val: number, col: string) => (val - means[col]) / stds[col];
-  const denormalize = (val: number, col: string) => (val * stds[col]) + means[col];
-
-  // Training Loop (SGD)
-  for (let i = 0; i < epochs; i++) {
-    trainData.forEach(row => {
-      let prediction = bias;
-      features.forEach(f => {
-        prediction += weights[f] * normalize(row[f] as number, f);
-      });
-      
-      const actual = normalize(row[target] as number, target);
-      const error = prediction - actual;
-
-      bias -= learningRate * error;
-      features.forEach(f => {
-        weights[f] -= learningRate * error * normalize(row[f] as number, f);
-      });
-    });
+  const classes = isClassification ? [...new Set(validData.map(row => categoryOf(row[target])))].sort() : [];
+
+  // 2. Split: seeded shuffle, optionally stratified by class or target quantile
+  const strata = !validation.stratify
+    ? null
+    : isClassification
+      ? validData.map(row => categoryOf(row[target]))
+      : quantileBins(validData.map(row => row[target] as number), STRATIFICATION_BINS);
+  const splitOptions = { shuffle: validation.shuffle, rng: createRng(validation.seed), strata };
+  const pick = (indices: number[]) => indices.map(i => validData[i]);
+
+  if (validation.method !== 'cross_validation') {
+    const { train, test } = holdoutSplit(validData.length, splitRatio, splitOptions);
+    const trainRows = pick(train);
+    const testRows = pick(test);
+    const pipeline = fitPipeline(trainRows, config, classes, fitProgress(onProgress, 0, 1, 'Training'));
+    const permutation = importanceOnRows(pipeline, testRows, config, classes, createRng(validation.seed));
+    const output = pipeline.predict(testRows);
+    return {
+      ...withRegressionDetails(scorePredictions(output, classes, pipeline.model.featureNames.length), output, testRows, features),
+      trainMetrics: trainingScores(pipeline, trainRows, classes),
+      model: pipeline.model,
+      explanations: explainModel(pipeline, testRows, permutation, config, classes),
+    };
   }
 
-  // Evaluation on Test Data
-  let sumSquaredError = 0;
-  let sumAbsError = 0;
-  const predictions: { actual: number; predicted: number }[] = [];
-
-  testData.forEach(row => {
-    let normalizedPred = bias;
-    features.forEach(f => {
-      normalizedPred += weights[f] * normalize(row[f] as number, f);
-    });
-    
-    const predicted = denormalize(normalizedPred, target);
-    const actual = row[target] as number;
-    
-    predictions.push({ actual, predicted });
-    
-    sumSquaredError += Math.pow(actual - predicted, 2);
-    sumAbsError += Math.abs(actual - predicted);
+  // 3. K-fold: score each fold, then score the pooled out-of-fold predictions.
+  // Permutation importance is averaged over the folds' test sets; the model kept
+  // with the result, and its dependence plots, come from a refit on every row.
+  const folds = Math.max(2, Math.min(validation.folds, validData.length));
+  const importanceRng = createRng(validation.seed);
+  const outputs = kFoldSplits(validData.length, folds, splitOptions).map(({ train, test }, f) => {
+    const trainRows = pick(train);
+    const testRows = pick(test);
+    const pipeline = fitPipeline(trainRows, config, classes, fitProgress(onProgress, f, folds + 1, `Fold ${f + 1}/${folds}`));
+    return {
+      trainSize: train.length,
+      testRows,
+      predictorCount: pipeline.model.featureNames.length,
+      output: pipeline.predict(testRows),
+      trainScores: trainingScores(pipeline, trainRows, classes),
+      importance: importanceOnRows(pipeline, testRows, config, classes, importanceRng),
+    };
   });
-
-  const n = testData.length;
-  const mse = sumSquaredError / n;
-  const mae = sumAbsError / n;
-
-  // R2 Score
-  const targetMean = testData.reduce((a, r) => a + (r[target] as number), 0) / n;
-  const totalVariance = testData.reduce((a, r) => a + Math.pow((r[target] as number) - targetMean, 2), 0);
-  const r2 = 1 - (sumSquaredError / totalVariance);
-
-  return { mse, mae, r2, predictions };
+  const final = fitPipeline(validData, config, classes, fitProgress(onProgress, folds, folds + 1, 'Final fit'));
+  const permutation = averageImportances(outputs.map(o => o.importance));
+
+  const foldResults: FoldResult[] = outputs.map(({ trainSize, output, predictorCount }, f) => ({
+    fold: f + 1,
+    trainSize,
+    testSize: output.task === 'classification' ? output.actual.length : output.predictions.length,
+    metrics: scalarMetrics(scorePredictions(output, classes, predictorCount)),
+  }));
+
+  const pooled: SplitPredictions = isClassification
+    ? {
+        task: 'classification',
+        actual: outputs.flatMap(o => (o.output.task === 'classification' ? o.output.actual : [])),
+        probabilities: outputs.flatMap(o => (o.output.task === 'classification' ? o.output.probabilities : [])),
+      }
+    : {
+        task: 'regression',
+        predictions: outputs.flatMap(o => (o.output.task === 'regression' ? o.output.predictions : [])),
+      };
+
+  return {
+    ...withRegressionDetails(
+      scorePredictions(pooled, classes, final.model.featureNames.length),
+      pooled,
+      outputs.flatMap(o => o.testRows),
+      features
+    ),
+    crossValidation: summarizeFolds(foldResults),
+    trainMetrics: averageScores(outputs.map(o => o.trainScores)),
+    model: final.model,
+    explanations: explainModel(final, validData, permutation, config, classes),
+  };
 };
@@ -0,0 +1,176 @@
+import { DataRow, CategoricalEncoding, FeatureEncoderState, FittedEncoder } from "../types";
+
+// Encoders are fitted on the training split only and stored as plain data,
+// so exactly the same mapping is applied at evaluation time. Target encoders
+// receive a numeric target aligned with the rows: the raw value for regression,
+// a 0/1 positive-class indicator for classification.
+
+export const MISSING_CATEGORY = '(missing)';
+export const OTHER_CATEGORY = '(other)';
+
+export const defaultEncoding = (method: CategoricalEncoding['method'] = 'one_hot'): CategoricalEncoding => {
+  switch (method) {
+    case 'ordinal':
+      return { method: 'ordinal', order: [] };
+    case 'target':
+      return { method: 'target', smoothing: 10, folds: 5 };
+    case 'one_hot':
+    default:
+      return { method: 'one_hot', minFrequency: 5 };
+  }
+};
+
+export const categoryOf = (value: string | number | null | undefined): string =>
+  value === null || value === undefined || value === '' ? MISSING_CATEGORY : String(value);
+
+const countCategories = (rows: DataRow[], column: string): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  rows.forEach(row => {
+    const cat = categoryOf(row[column]);
+    counts[cat] = (counts[cat] || 0) + 1;
+  });
+  return counts;
+};
+
+const fitTargetMapping = (
+  rows: DataRow[],
+  column: string,
+  targetValues: number[],
+  smoothing: number,
+  prior: number
+): Record<string, number> => {
+  const sums: Record<string, number> = {};
+  const counts: Record<string, number> = {};
+  rows.forEach((row, i) => {
+    const cat = categoryOf(row[column]);
+    sums[cat] = (sums[cat] || 0) + targetValues[i];
+    counts[cat] = (counts[cat] || 0) + 1;
+  });
+
+  // Shrink small categories towards the global mean
+  const mapping: Record<string, number> = {};
+  Object.keys(counts).forEach(cat => {
+    mapping[cat] = (sums[cat] + smoothing * prior) / (counts[cat] + smoothing);
+  });
+  return mapping;
+};
+
+const targetMean = (targetValues: number[]): number =>
+  targetValues.length === 0 ? 0 : targetValues.reduce((a, b) => a + b, 0) / targetValues.length;
+
+const fitEncoder = (rows: DataRow[], column: string, encoding: CategoricalEncoding, targetValues: number[]): FittedEncoder => {
+  const counts = countCategories(rows, column);
+
+  switch (encoding.method) {
+    case 'one_hot': {
+      const all = Object.keys(counts).sort();
+      const categories = all.filter(cat => counts[cat] >= encoding.minFrequency);
+      return { method: 'one_hot', categories, hasOther: categories.length < all.length };
+    }
+    case 'ordinal': {
+      // Explicit order first, then any remaining training categories alphabetically
+      const explicit = encoding.order.filter(cat => cat in counts);
+      const rest = Object.keys(counts).filter(cat => !explicit.includes(cat)).sort();
+      const mapping: Record<string, number> = {};
+      [...explicit, ...rest].forEach((cat, index) => { mapping[cat] = index; });
+      return { method: 'ordinal', mapping };
+    }
+    case 'target': {
+      const prior = targetMean(targetValues);
+      return { method: 'target', mapping: fitTargetMapping(rows, column, targetValues, encoding.smoothing, prior), prior };
+    }
+  }
+};
+
+const encoderNames = (column: string, encoder: FittedEncoder): string[] => {
+  if (encoder.method !== 'one_hot') return [column];
+  const names = encoder.categories.map(cat => `${column}=${cat}`);
+  return encoder.hasOther ? [...names, `${column}=${OTHER_CATEGORY}`] : names;
+};
+
+const encodeValue = (encoder: FittedEncoder, value: string | number | null | undefined): number[] => {
+  const cat = categoryOf(value);
+  switch (encoder.method) {
+    case 'one_hot': {
+      const vector = encoder.categories.map(c => (c === cat ? 1 : 0));
+      if (encoder.hasOther) vector.push(encoder.categories.includes(cat) ? 0 : 1);
+      return vector;
+    }
+    case 'ordinal':
+      return [cat in encoder.mapping ? encoder.mapping[cat] : -1];
+    case 'target':
+      return [cat in encoder.mapping ? encoder.mapping[cat] : encoder.prior];
+  }
+};
+
+// --- Public API ---
+
+export const fitFeatureEncoders = (
+  trainRows: DataRow[],
+  features: string[],
+  encodings: Record<string, CategoricalEncoding>,
+  targetValues: number[]
+): FeatureEncoderState => {
+  const encoders: Record<string, FittedEncoder> = {};
+  const names: string[] = [];
+
+  features.forEach(feature => {
+    const encoding = encodings[feature];
+    if (encoding) {
+      encoders[feature] = fitEncoder(trainRows, feature, encoding, targetValues);
+      names.push(...encoderNames(feature, encoders[feature]));
+    } else {
+      names.push(feature);
+    }
+  });
+
+  return { features, encoders, names };
+};
+
+export const encodeRow = (state: FeatureEncoderState, row: DataRow): number[] => {
+  const vector: number[] = [];
+  state.features.forEach(feature => {
+    const encoder = state.encoders[feature];
+    if (encoder) {
+      vector.push(...encodeValue(encoder, row[feature]));
+    } else {
+      vector.push(row[feature] as number);
+    }
+  });
+  return vector;
+};
+
+// Training rows get out-of-fold target encodings so a row never sees its own target
+export const encodeTrainingRows = (
+  state: FeatureEncoderState,
+  trainRows: DataRow[],
+  encodings: Record<string, CategoricalEncoding>,
+  targetValues: number[]
+): number[][] => {
+  const matrix = trainRows.map(row => encodeRow(state, row));
+
+  let offset = 0;
+  state.features.forEach(feature => {
+    const encoder = state.encoders[feature];
+    const encoding = encodings[feature];
+    const width = encoder ? encoderNames(feature, encoder).length : 1;
+
+    if (encoder?.method === 'target' && encoding?.method === 'target') {
+      const folds = Math.max(2, Math.min(encoding.folds, trainRows.length));
+      for (let fold = 0; fold < folds; fold++) {
+        const outOfFold = trainRows.filter((_, i) => i % folds !== fold);
+        const outOfFoldTargets = targetValues.filter((_, i) => i % folds !== fold);
+        const prior = targetMean(outOfFoldTargets);
+        const mapping = fitTargetMapping(outOfFold, feature, outOfFoldTargets, encoding.smoothing, prior);
+        trainRows.forEach((row, i) => {
+          if (i % folds !== fold) return;
+          const cat = categoryOf(row[feature]);
+          matrix[i][offset] = cat in mapping ? mapping[cat] : prior;
+        });
+      }
+    }
+    offset += width;
+  });
+
+  return matrix;
+};
@@ -0,0 +1,105 @@
+import { CleaningOptions, DataRow, DerivedColumn, Experiment, ModelConfig, ModelMetrics, StoredMetrics } from "../types";
+
+// --- Dataset fingerprint ---
+
+// Two 32-bit FNV-1a hashes with different offsets; fast, and collisions are not a security concern
+export const datasetFingerprint = (rows: DataRow[]): string => {
+  let a = 0x811c9dc5;
+  let b = 0x01000193 ^ 0x9e3779b9;
+  const feed = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const c = text.charCodeAt(i);
+      a = Math.imul(a ^ c, 0x01000193);
+      b = Math.imul(b ^ c, 0x01000193);
+    }
+  };
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  feed(headers.join('\u0001'));
+  rows.forEach(row => {
+    feed('\u0002');
+    headers.forEach(h => feed(`${row[h] ?? ''}\u0001`));
+  });
+  return (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0');
+};
+
+// --- Recording ---
+
+// Keeps the scores but drops per-row predictions and curves, which dominate the stored size
+const summaryOnly = (metrics: StoredMetrics): StoredMetrics => {
+  if (metrics.task === 'regression') {
+    const { largestErrors: _largestErrors, ...rest } = metrics;
+    return { ...rest, predictions: [] };
+  }
+  return { ...metrics, predictions: [], rocCurve: [], prCurve: [] };
+};
+
+export const createExperiment = (
+  run: {
+    label: string;
+    dataset: Experiment['dataset'];
+    cleaningOptions: CleaningOptions;
+    derivedColumns: DerivedColumn[];
+    config: ModelConfig;
+    metrics: ModelMetrics;
+  },
+  keepRows = true
+): Experiment => {
+  const { model: _model, explanations: _explanations, ...metrics } = run.metrics;
+  return {
+    ...run,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    metrics: keepRows ? metrics : summaryOnly(metrics),
+  };
+};
+
+// --- Comparison ---
+
+// Flattens nested settings into "path: value" pairs; arrays of names are compared as sets
+const flatten = (value: unknown, path: string, into: Record<string, string>): Record<string, string> => {
+  if (Array.isArray(value) && value.every(v => typeof v !== 'object' || v === null)) {
+    into[path] = [...value].map(String).sort().join(', ') || '(none)';
+  } else if (Array.isArray(value)) {
+    value.forEach((v, i) => flatten(v, `${path}[${i}]`, into));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.entries(value).forEach(([key, v]) => flatten(v, path ? `${path}.${key}` : key, into));
+  } else {
+    into[path] = value === undefined || value === null ? '—' : String(value);
+  }
+  return into;
+};
+
+// Hyperparameter group of each algorithm; ordinary least squares has none
+const HYPERPARAMETER_GROUP: Record<ModelConfig['algorithm'], string> = {
+  linear_regression: '',
+  ridge: 'ridge',
+  logistic_regression: 'logisticRegression',
+  decision_tree: 'decisionTree',
+  random_forest: 'randomForest',
+};
+
+const experimentSettings = (experiment: Experiment): Record<string, string> => {
+  const settings = flatten(experiment.config, '', {});
+  // Only the selected algorithm's hyperparameters matter
+  Object.keys(settings)
+    .filter(key => key.startsWith('hyperparameters.') && !key.startsWith(`hyperparameters.${HYPERPARAMETER_GROUP[experiment.config.algorithm]}.`))
+    .forEach(key => { delete settings[key]; });
+  flatten(experiment.cleaningOptions, 'cleaning', settings);
+  flatten(experiment.derivedColumns.map(d => `${d.name} = ${d.expression}`), 'derivedColumns', settings);
+  settings.dataset = `${experiment.dataset.name} (${experiment.dataset.fingerprint.slice(0, 8)})`;
+  return settings;
+};
+
+export interface SettingDifference {
+  setting: string;
+  values: string[]; // aligned with the compared experiments
+}
+
+// Settings whose values are not the same across every experiment
+export const settingDifferences = (experiments: Experiment[]): SettingDifference[] => {
+  const settings = experiments.map(experimentSettings);
+  const keys = [...new Set(settings.flatMap(s => Object.keys(s)))].sort();
+  return keys
+    .map(setting => ({ setting, values: settings.map(s => s[setting] ?? '—') }))
+    .filter(diff => new Set(diff.values).size > 1);
+};
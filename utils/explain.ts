@@ -0,0 +1,184 @@
+import { DataRow, FeatureContribution, FeatureImportance, NativeImportance, PartialDependence, TrainedModel, TreeNode } from "../types";
+import { Rng } from "./random";
+import { shuffleInPlace } from "./splitting";
+
+// Model-agnostic explanations work on raw rows, so an encoded categorical feature is
+// shuffled or varied as a whole rather than one design-matrix column at a time.
+
+const PERMUTATION_REPEATS = 5;
+export const MAX_PERMUTATION_ROWS = 500;
+export const MAX_DEPENDENCE_ROWS = 200;
+export const MAX_ICE_CURVES = 30;
+const NUMERIC_GRID_SIZE = 20;
+const MAX_CATEGORIES = 12;
+
+const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+// --- Permutation importance ---
+
+// score must be higher-is-better
+export const permutationImportance = (
+  rows: DataRow[],
+  features: string[],
+  score: (rows: DataRow[]) => number,
+  rng: Rng,
+  repeats = PERMUTATION_REPEATS
+): FeatureImportance[] => {
+  const baseline = score(rows);
+
+  return features.map(feature => {
+    const drops = Array.from({ length: repeats }, () => {
+      const shuffled = shuffleInPlace(rows.map(row => row[feature]), rng);
+      return baseline - score(rows.map((row, i) => ({ ...row, [feature]: shuffled[i] })));
+    });
+    const importance = mean(drops);
+    const std = Math.sqrt(mean(drops.map(d => (d - importance) ** 2)));
+    return { feature, importance, std };
+  });
+};
+
+// Combines per-fold importances for the same features
+export const averageImportances = (perFold: FeatureImportance[][]): FeatureImportance[] =>
+  (perFold[0] ?? []).map((first, j) => ({
+    feature: first.feature,
+    importance: mean(perFold.map(fold => fold[j].importance)),
+    std: mean(perFold.map(fold => fold[j].std)),
+  }));
+
+// --- Partial dependence and ICE ---
+
+const dependenceGrid = (rows: DataRow[], feature: string, numeric: boolean): (string | number)[] => {
+  if (numeric) {
+    const values = [...new Set(rows.map(row => row[feature]).filter((v): v is number => typeof v === 'number'))]
+      .sort((a, b) => a - b);
+    if (values.length <= NUMERIC_GRID_SIZE) return values;
+    // Quantiles, so the grid follows where the data actually is
+    return [...new Set(Array.from({ length: NUMERIC_GRID_SIZE }, (_, i) =>
+      values[Math.round((i / (NUMERIC_GRID_SIZE - 1)) * (values.length - 1))]
+    ))];
+  }
+
+  const counts = new Map<string | number, number>();
+  rows.forEach(row => {
+    const value = row[feature];
+    if (value !== null && value !== '') counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CATEGORIES)
+    .map(([value]) => value);
+};
+
+export const partialDependence = (
+  rows: DataRow[],
+  feature: string,
+  numeric: boolean,
+  predict: (rows: DataRow[]) => number[]
+): PartialDependence => {
+  const grid = dependenceGrid(rows, feature, numeric);
+  const iceCount = Math.min(rows.length, MAX_ICE_CURVES);
+  const ice: number[][] = Array.from({ length: iceCount }, () => []);
+
+  const average = grid.map(value => {
+    const outputs = predict(rows.map(row => ({ ...row, [feature]: value })));
+    for (let i = 0; i < iceCount; i++) ice[i].push(outputs[i]);
+    return mean(outputs);
+  });
+
+  return { feature, numeric, grid, average, ice };
+};
+
+// --- Single-prediction contributions ---
+
+const EXACT_SHAPLEY_FEATURES = 10;
+const SHAPLEY_PERMUTATIONS = 200;
+
+// Shapley values for moving from the baseline row to the given row, one feature at a time.
+// Exact (2^k predictions) up to EXACT_SHAPLEY_FEATURES features, averaged over random
+// feature orders beyond that; either way they sum to predict(row) - predict(baseline).
+export const featureContributions = (
+  row: DataRow,
+  baseline: DataRow,
+  features: string[],
+  predict: (rows: DataRow[]) => number[],
+  rng: Rng
+): FeatureContribution[] => {
+  const k = features.length;
+  const totals = new Array(k).fill(0);
+  const mix = (included: (j: number) => boolean): DataRow => {
+    const mixed = { ...baseline };
+    features.forEach((f, j) => { if (included(j)) mixed[f] = row[f]; });
+    return mixed;
+  };
+
+  if (k <= EXACT_SHAPLEY_FEATURES) {
+    const subsets = 1 << k;
+    const values = predict(Array.from({ length: subsets }, (_, mask) => mix(j => (mask & (1 << j)) !== 0)));
+    // Weight of a subset of size s: s! (k - s - 1)! / k!
+    const factorial = [1];
+    for (let i = 1; i <= k; i++) factorial[i] = factorial[i - 1] * i;
+    for (let mask = 0; mask < subsets; mask++) {
+      let size = 0;
+      for (let j = 0; j < k; j++) if (mask & (1 << j)) size++;
+      const weight = factorial[size] * factorial[k - size - 1] / factorial[k];
+      for (let j = 0; j < k; j++) {
+        if (mask & (1 << j)) continue;
+        totals[j] += weight * (values[mask | (1 << j)] - values[mask]);
+      }
+    }
+  } else {
+    for (let p = 0; p < SHAPLEY_PERMUTATIONS; p++) {
+      const order = shuffleInPlace(features.map((_, j) => j), rng);
+      const switched = new Set<number>();
+      const path = [mix(() => false), ...order.map(j => { switched.add(j); return mix(i => switched.has(i)); })];
+      const values = predict(path);
+      order.forEach((j, step) => { totals[j] += (values[step + 1] - values[step]) / SHAPLEY_PERMUTATIONS; });
+    }
+  }
+
+  return features.map((feature, j) => ({ feature, contribution: totals[j] }));
+};
+
+// --- Native importances ---
+
+const accumulateGain = (node: TreeNode, totals: number[]) => {
+  if (node.type === 'leaf') return;
+  totals[node.feature] += node.gain;
+  accumulateGain(node.left, totals);
+  accumulateGain(node.right, totals);
+};
+
+export const nativeImportance = (model: TrainedModel): NativeImportance => {
+  const { fitted, featureNames } = model;
+  const totals = new Array(featureNames.length).fill(0);
+  let method: NativeImportance['method'] = 'gain';
+  // Weights per feature standard deviation are comparable whichever scaling was used
+  const perStd = (w: number, j: number) => {
+    const scaling = model.preprocessing.featureScaling[j];
+    return Math.abs(w) * scaling.std / scaling.scale;
+  };
+
+  switch (fitted.kind) {
+    case 'linear':
+      method = 'coefficient';
+      fitted.weights.forEach((w, j) => { totals[j] = perStd(w, j); });
+      break;
+    case 'logistic':
+      method = 'coefficient';
+      fitted.weights.forEach(classWeights => classWeights.forEach((w, j) => { totals[j] += perStd(w, j) / fitted.weights.length; }));
+      break;
+    case 'tree':
+      accumulateGain(fitted.root, totals);
+      break;
+    case 'forest':
+      fitted.trees.forEach(tree => accumulateGain(tree, totals));
+      break;
+  }
+
+  const sum = totals.reduce((a, b) => a + b, 0) || 1;
+  return {
+    method,
+    values: featureNames.map((feature, j) => ({ feature, importance: totals[j] / sum })),
+  };
+};
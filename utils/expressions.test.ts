@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { columnReference, compileExpression, ExpressionError, expressionColumns } from './expressions';
+import { compileDerivedColumns } from './featureEngineering';
+
+const columns = { price: 'number', city: 'string' } as const;
+
+describe('compileExpression', () => {
+  it('evaluates columns and built-in functions', () => {
+    const expression = compileExpression('log1p(price) + 1', columns);
+    expect(expression.type).toBe('number');
+    expect(expression.evaluate({ price: 0, city: 'Oslo' })).toBe(1);
+  });
+
+  it.each(['constructor', 'toString', 'hasOwnProperty', '__proto__', 'valueOf'])(
+    'rejects %s as a function',
+    name => {
+      expect(() => compileExpression(`${name}()`, columns)).toThrow(ExpressionError);
+      expect(() => compileExpression(`${name}(price)`, columns)).toThrow(`Unknown function "${name.toLowerCase()}"`);
+    }
+  );
+
+  it.each(['toString', '__proto__', 'constructor', 'hasOwnProperty'])(
+    'rejects %s as a column',
+    name => {
+      expect(() => compileExpression(name, columns)).toThrow(`Unknown column "${name}"`);
+      expect(() => compileExpression(`[${name}] + 1`, columns)).toThrow(`Unknown column "${name}"`);
+    }
+  );
+
+  it('reads only the row\'s own values', () => {
+    const expression = compileExpression('isnull(toString)', { toString: 'number' } as const);
+    expect(expression.evaluate({})).toBe(1);
+  });
+});
+
+describe('columnReference', () => {
+  it.each(['price', 'sale price', 'price [USD]', 'a]b`c', 'weird ``]', '[x]'])(
+    'round-trips %s',
+    name => {
+      const expression = `${columnReference(name)} * 2`;
+      expect(expressionColumns(expression)).toEqual([name]);
+      expect(compileExpression(expression, { [name]: 'number' }).evaluate({ [name]: 3 })).toBe(6);
+    }
+  );
+});
+
+describe('compileDerivedColumns', () => {
+  it('allows a derived column named after an Object.prototype member', () => {
+    const stats = [{ name: 'price', type: 'number' as const, semanticType: 'float' as const, missingCount: 0, uniqueCount: 1, sample: [] }];
+    expect(() => compileDerivedColumns(stats, [{ name: 'toString', expression: 'price * 2' }])).not.toThrow();
+  });
+
+  it.each(['__proto__', 'constructor', 'prototype'])('rejects the reserved name %s', name => {
+    const stats = [{ name: 'price', type: 'number' as const, semanticType: 'float' as const, missingCount: 0, uniqueCount: 1, sample: [] }];
+    expect(() => compileDerivedColumns(stats, [{ name, expression: 'price * 2' }])).toThrow('reserved');
+  });
+});
@@ -0,0 +1,426 @@
+import { DataRow } from "../types";
+
+// A small arithmetic language for derived columns. Expressions are parsed into a tree
+// and interpreted; nothing is ever passed to eval or Function.
+//
+//   price / sqft_living            columns by name, or [any name] / `any name` (`` is a literal `)
+//   log1p(lot_size_sqft) ^ 2       numbers, + - * / % ^, comparisons, && || !
+//   bin(age, 18, 40, 65)           built-in functions, see FUNCTIONS
+//
+// Missing values propagate: any missing input, division by zero or a result outside a
+// function's domain (log of a negative number) gives a missing value.
+
+export type Value = number | string | null;
+export type ValueType = 'number' | 'string';
+
+export class ExpressionError extends Error {
+  position: number; // character offset in the source
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type Node =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'column'; name: string; position: number }
+  | { kind: 'unary'; op: '-' | '!'; arg: Node; position: number }
+  | { kind: 'binary'; op: string; left: Node; right: Node; position: number }
+  | { kind: 'call'; name: string; args: Node[]; position: number };
+
+// --- Tokenizer ---
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'column'; value: string; position: number } // [bracketed] or `quoted` name
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '(', ')', ','];
+const NUMBER = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    if (/^\s/.test(rest)) {
+      i++;
+      continue;
+    }
+    const number = NUMBER.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+    const identifier = IDENTIFIER.exec(rest);
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+    const quote = rest[0];
+    if (quote === '`') {
+      // A doubled backtick stands for one, so every column name can be written this way
+      let end = i + 1;
+      let value = '';
+      for (;;) {
+        const close = source.indexOf('`', end);
+        if (close === -1) throw new ExpressionError('Missing closing `', i);
+        value += source.slice(end, close);
+        if (source[close + 1] !== '`') {
+          end = close;
+          break;
+        }
+        value += '`';
+        end = close + 2;
+      }
+      tokens.push({ type: 'column', value, position: i });
+      i = end + 1;
+      continue;
+    }
+    if (quote === '"' || quote === "'" || quote === '[') {
+      const close = quote === '[' ? ']' : quote;
+      const end = source.indexOf(close, i + 1);
+      if (end === -1) throw new ExpressionError(`Missing closing ${close}`, i);
+      const value = source.slice(i + 1, end);
+      tokens.push(quote === '[' ? { type: 'column', value, position: i } : { type: 'string', value, position: i });
+      i = end + 1;
+      continue;
+    }
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (!operator) throw new ExpressionError(`Unexpected character "${rest[0]}"`, i);
+    tokens.push({ type: 'operator', value: operator, position: i });
+    i += operator.length;
+  }
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+};
+
+// --- Parser ---
+
+// Lowest to highest precedence; ^ and unary operators are handled below these
+const BINARY_LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token.type === 'operator' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new ExpressionError(`Expected "${value}"`, peek().position);
+    index++;
+  };
+
+  const parseLevel = (level: number): Node => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    for (;;) {
+      const token = peek();
+      if (token.type !== 'operator' || !BINARY_LEVELS[level].includes(token.value)) return left;
+      index++;
+      left = { kind: 'binary', op: token.value, left, right: parseLevel(level + 1), position: token.position };
+    }
+  };
+
+  // -x ^ 2 is -(x ^ 2)
+  const parseUnary = (): Node => {
+    const token = peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '!')) {
+      index++;
+      return { kind: 'unary', op: token.value, arg: parseUnary(), position: token.position };
+    }
+    if (token.type === 'operator' && token.value === '+') {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Right associative: 2 ^ 3 ^ 2 is 2 ^ 9
+  const parsePower = (): Node => {
+    const base = parsePrimary();
+    const token = peek();
+    if (token.type === 'operator' && token.value === '^') {
+      index++;
+      return { kind: 'binary', op: '^', left: base, right: parseUnary(), position: token.position };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = peek();
+    index++;
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: token.value, position: token.position };
+      case 'string':
+        return { kind: 'string', value: token.value, position: token.position };
+      case 'column':
+        return { kind: 'column', name: token.value, position: token.position };
+      case 'identifier': {
+        if (!isOperator('(')) return { kind: 'column', name: token.value, position: token.position };
+        index++;
+        const args: Node[] = [];
+        if (!isOperator(')')) {
+          args.push(parseLevel(0));
+          while (isOperator(',')) {
+            index++;
+            args.push(parseLevel(0));
+          }
+        }
+        expect(')');
+        return { kind: 'call', name: token.value.toLowerCase(), args, position: token.position };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseLevel(0);
+          expect(')');
+          return inner;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+      case 'end':
+        throw new ExpressionError('Unexpected end of expression', token.position);
+    }
+  };
+
+  const tree = parseLevel(0);
+  if (peek().type !== 'end') throw new ExpressionError('Unexpected input after the expression', peek().position);
+  return tree;
+};
+
+// --- Built-in functions ---
+
+const num = (value: Value): number | null => (typeof value === 'number' ? value : null);
+
+// Wraps a numeric function so missing inputs and non-finite results become null
+const numeric = (fn: (...args: number[]) => number) => (args: Value[]): Value => {
+  const numbers = args.map(num);
+  if (numbers.some(n => n === null)) return null;
+  const result = fn(...(numbers as number[]));
+  return Number.isFinite(result) ? result : null;
+};
+
+// ISO dates (2024-03-01) are read as calendar dates; anything else Date.parse accepts is local time
+const datePart = (part: (date: Date, utc: boolean) => number) => ([value]: Value[]): Value => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  const time = Date.parse(trimmed);
+  if (Number.isNaN(time)) return null;
+  return part(new Date(time), /^\d{4}-\d{2}-\d{2}$/.test(trimmed));
+};
+
+const formatEdge = (edge: number) => String(Number(edge.toPrecision(6)));
+
+interface FunctionSpec {
+  signature: string;
+  description: string;
+  minArgs: number;
+  maxArgs: number;
+  argTypes: ValueType | 'any'; // all arguments, checked against column types
+  returns: ValueType | 'first'; // 'first': the type of the first (value) argument
+  apply: (args: Value[]) => Value;
+}
+
+export const FUNCTIONS: Record<string, FunctionSpec> = {
+  log: { signature: 'log(x)', description: 'Natural logarithm', minArgs: 1, maxArgs: 1, argTypes: 'number', returns: 'number', apply: numeric(x => (x > 0 ? Math.log(x) : NaN)) },
+  log10: { signature: 'log10(x)', description: 'Base-10 logarithm', minArgs: 1, maxArgs: 1, argTypes: 'number', returns: 'number', apply: numeric(x => (x > 0 ? Math.log10(x) : NaN)) },
+  log1p: { signature: 'log1p(x)', description: 'log(1 + x), safe for zeros', minArgs: 1, maxArgs: 1, argTypes: 'number', returns: 'number', apply: numeric(x => (x > -1 ? Math.log1p(x) : NaN)) },
+  exp: { signature: 'exp(x)', description: 'e to the power x', minArgs: 1, maxArgs: 1, argTypes: 'number', returns: 'number', apply: numeric(Math.exp) },
+  sqrt: { signature: 'sqrt(x)', description: 'Square root', minArgs: 1, maxArgs: 1, argTypes: 'number', returns: 'number', apply: numeric(x => (x >= 0 ? Math.sqrt(x) : NaN)) },
+  abs: { signature: 'abs(x)', description: 'Absolute value', minArgs: 1, maxArgs: 1, argTypes: 'number', returns: 'number', apply: numeric(Math.abs) },
+  pow: { signature: 'pow(x, n)', description: 'x to the power n, same as x ^ n', minArgs: 2, maxArgs: 2, argTypes: 'number', returns: 'number', apply: numeric(Math.pow) },
+  round: {
+    signature: 'round(x, digits)', description: 'Round to a number of decimals (default 0)', minArgs: 1, maxArgs: 2, argTypes: 'number', returns: 'number',
+    apply: numeric((x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits),
+  },
+  floor: { signature: 'floor(x)', description: 'Round down', minArgs: 1, maxArgs: 1, argTypes: 'number', returns: 'number', apply: numeric(Math.floor) },
+  ceil: { signature: 'ceil(x)', description: 'Round up', minArgs: 1, maxArgs: 1, argTypes: 'number', returns: 'number', apply: numeric(Math.ceil) },
+  min: { signature: 'min(a, b, ...)', description: 'Smallest argument', minArgs: 1, maxArgs: Infinity, argTypes: 'number', returns: 'number', apply: numeric(Math.min) },
+  max: { signature: 'max(a, b, ...)', description: 'Largest argument', minArgs: 1, maxArgs: Infinity, argTypes: 'number', returns: 'number', apply: numeric(Math.max) },
+  clip: {
+    signature: 'clip(x, low, high)', description: 'Limit x to [low, high]', minArgs: 3, maxArgs: 3, argTypes: 'number', returns: 'number',
+    apply: numeric((x, low, high) => Math.min(high, Math.max(low, x))),
+  },
+  bin: {
+    signature: 'bin(x, edge1, edge2, ...)', description: 'Bucket label such as "18–40" for ascending edges', minArgs: 2, maxArgs: Infinity, argTypes: 'number', returns: 'string',
+    apply: ([x, ...edges]) => {
+      const value = num(x);
+      if (value === null || edges.some(e => num(e) === null)) return null;
+      const sorted = (edges as number[]).slice().sort((a, b) => a - b);
+      if (value < sorted[0]) return `< ${formatEdge(sorted[0])}`;
+      const upper = sorted.findIndex(edge => value < edge);
+      if (upper === -1) return `≥ ${formatEdge(sorted[sorted.length - 1])}`;
+      return `${formatEdge(sorted[upper - 1])}–${formatEdge(sorted[upper])}`;
+    },
+  },
+  if: {
+    signature: 'if(condition, a, b)', description: 'a where the condition is non-zero, otherwise b', minArgs: 3, maxArgs: 3, argTypes: 'any', returns: 'number',
+    apply: ([condition, a, b]) => (condition === null ? null : condition !== 0 && condition !== '' ? a : b),
+  },
+  isnull: {
+    signature: 'isnull(x)', description: '1 if x is missing, else 0', minArgs: 1, maxArgs: 1, argTypes: 'any', returns: 'number',
+    apply: ([x]) => (x === null ? 1 : 0),
+  },
+  coalesce: {
+    signature: 'coalesce(a, b, ...)', description: 'First argument that is not missing', minArgs: 1, maxArgs: Infinity, argTypes: 'any', returns: 'first',
+    apply: args => args.find(a => a !== null) ?? null,
+  },
+  year: { signature: 'year(date)', description: 'Calendar year of a date column', minArgs: 1, maxArgs: 1, argTypes: 'string', returns: 'number', apply: datePart((d, utc) => (utc ? d.getUTCFullYear() : d.getFullYear())) },
+  month: { signature: 'month(date)', description: 'Month, 1 to 12', minArgs: 1, maxArgs: 1, argTypes: 'string', returns: 'number', apply: datePart((d, utc) => (utc ? d.getUTCMonth() : d.getMonth()) + 1) },
+  day: { signature: 'day(date)', description: 'Day of the month', minArgs: 1, maxArgs: 1, argTypes: 'string', returns: 'number', apply: datePart((d, utc) => (utc ? d.getUTCDate() : d.getDate())) },
+  weekday: {
+    signature: 'weekday(date)', description: 'Day of the week, 1 (Monday) to 7 (Sunday)', minArgs: 1, maxArgs: 1, argTypes: 'string', returns: 'number',
+    apply: datePart((d, utc) => ((utc ? d.getUTCDay() : d.getDay()) + 6) % 7 + 1),
+  },
+  hour: { signature: 'hour(date)', description: 'Hour of the day, 0 to 23', minArgs: 1, maxArgs: 1, argTypes: 'string', returns: 'number', apply: datePart((d, utc) => (utc ? d.getUTCHours() : d.getHours())) },
+};
+
+// --- Type checking ---
+
+const typeOf = (node: Node, columns: Record<string, ValueType>): ValueType => {
+  switch (node.kind) {
+    case 'number':
+      return 'number';
+    case 'string':
+      return 'string';
+    case 'column':
+      if (!Object.hasOwn(columns, node.name)) throw new ExpressionError(`Unknown column "${node.name}"`, node.position);
+      return columns[node.name];
+    case 'unary':
+      if (typeOf(node.arg, columns) !== 'number' && node.op === '-') {
+        throw new ExpressionError('Cannot negate text', node.position);
+      }
+      return 'number';
+    case 'binary': {
+      const left = typeOf(node.left, columns);
+      const right = typeOf(node.right, columns);
+      const comparison = ['==', '!=', '&&', '||'].includes(node.op);
+      if (!comparison && (left !== 'number' || right !== 'number')) {
+        throw new ExpressionError(`"${node.op}" needs numbers, but one side is text`, node.position);
+      }
+      return 'number';
+    }
+    case 'call': {
+      // Own keys only, so names such as constructor or toString are not found on the prototype
+      const spec = Object.hasOwn(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!spec) throw new ExpressionError(`Unknown function "${node.name}"`, node.position);
+      if (node.args.length < spec.minArgs || node.args.length > spec.maxArgs) {
+        throw new ExpressionError(`${spec.signature} takes ${spec.minArgs === spec.maxArgs ? spec.minArgs : `${spec.minArgs} or more`} argument(s)`, node.position);
+      }
+      const types = node.args.map(arg => typeOf(arg, columns));
+      types.forEach((type, i) => {
+        if (spec.argTypes !== 'any' && type !== spec.argTypes) {
+          throw new ExpressionError(`Argument ${i + 1} of ${node.name}() must be ${spec.argTypes === 'number' ? 'a number' : 'text'}`, node.args[i].position);
+        }
+      });
+      if (node.name === 'if') {
+        if (types[1] !== types[2]) throw new ExpressionError('Both branches of if() must have the same type', node.position);
+        return types[1];
+      }
+      return spec.returns === 'first' ? types[0] : spec.returns;
+    }
+  }
+};
+
+// --- Evaluation ---
+
+const evaluate = (node: Node, row: DataRow): Value => {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+      return node.value;
+    case 'column': {
+      const value = Object.hasOwn(row, node.name) ? row[node.name] : undefined;
+      return value === undefined || value === '' ? null : value;
+    }
+    case 'unary': {
+      const value = evaluate(node.arg, row);
+      if (value === null) return null;
+      return node.op === '-' ? (typeof value === 'number' ? -value : null) : value === 0 || value === '' ? 1 : 0;
+    }
+    case 'binary': {
+      const left = evaluate(node.left, row);
+      const right = evaluate(node.right, row);
+      if (left === null || right === null) return null;
+      switch (node.op) {
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+        case '&&': return left !== 0 && left !== '' && right !== 0 && right !== '' ? 1 : 0;
+        case '||': return (left !== 0 && left !== '') || (right !== 0 && right !== '') ? 1 : 0;
+      }
+      if (typeof left !== 'number' || typeof right !== 'number') return null;
+      let result: number;
+      switch (node.op) {
+        case '+': result = left + right; break;
+        case '-': result = left - right; break;
+        case '*': result = left * right; break;
+        case '/': result = right === 0 ? NaN : left / right; break;
+        case '%': result = right === 0 ? NaN : left % right; break;
+        case '^': result = Math.pow(left, right); break;
+        case '<': result = left < right ? 1 : 0; break;
+        case '<=': result = left <= right ? 1 : 0; break;
+        case '>': result = left > right ? 1 : 0; break;
+        case '>=': result = left >= right ? 1 : 0; break;
+        default: return null;
+      }
+      return Number.isFinite(result) ? result : null;
+    }
+    case 'call':
+      return FUNCTIONS[node.name].apply(node.args.map(arg => evaluate(arg, row)));
+  }
+};
+
+const collectColumns = (node: Node, into: Set<string>): Set<string> => {
+  switch (node.kind) {
+    case 'column':
+      into.add(node.name);
+      break;
+    case 'unary':
+      collectColumns(node.arg, into);
+      break;
+    case 'binary':
+      collectColumns(node.left, into);
+      collectColumns(node.right, into);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectColumns(arg, into));
+      break;
+  }
+  return into;
+};
+
+// --- Public API ---
+
+export interface CompiledExpression {
+  type: ValueType;
+  evaluate: (row: DataRow) => Value;
+}
+
+// Throws ExpressionError for syntax errors, unknown names and type mismatches
+export const compileExpression = (source: string, columns: Record<string, ValueType>): CompiledExpression => {
+  if (source.trim() === '') throw new ExpressionError('Expression is empty', 0);
+  const tree = parse(source);
+  const type = typeOf(tree, columns);
+  return { type, evaluate: row => evaluate(tree, row) };
+};
+
+// Columns an expression refers to; throws ExpressionError for syntax errors only
+export const expressionColumns = (source: string): string[] =>
+  source.trim() === '' ? [] : [...collectColumns(parse(source), new Set())];
+
+// How to refer to a column inside an expression; brackets unless the name contains "]"
+export const columnReference = (name: string): string => {
+  if (IDENTIFIER.exec(name)?.[0] === name) return name;
+  return name.includes(']') ? `\`${name.replace(/`/g, '``')}\`` : `[${name}]`;
+};
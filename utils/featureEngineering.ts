@@ -0,0 +1,62 @@
+import { DataRow, ColumnStat, DerivedColumn } from "../types";
+import { compileExpression, CompiledExpression, ExpressionError, expressionColumns, ValueType } from "./expressions";
+
+// Derived columns are computed in order, so each one can use the columns defined before it.
+
+export const PREVIEW_ROWS = 5;
+
+export interface CompiledColumn {
+  definition: DerivedColumn;
+  expression: CompiledExpression;
+}
+
+const columnTypes = (stats: ColumnStat[]): Record<string, ValueType> =>
+  Object.fromEntries(stats.map(s => [s.name, s.type]));
+
+// Names that plain-object rows cannot hold as ordinary keys
+const RESERVED_NAMES = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Throws an Error naming the offending column
+export const compileDerivedColumns = (stats: ColumnStat[], derived: DerivedColumn[]): CompiledColumn[] => {
+  const types = columnTypes(stats);
+  return derived.map(definition => {
+    const name = definition.name.trim();
+    if (name === '') throw new Error('Every derived column needs a name');
+    if (Object.hasOwn(types, name)) throw new Error(`A column named "${name}" already exists`);
+    if (RESERVED_NAMES.has(name)) throw new Error(`"${name}" is reserved; choose another column name`);
+    try {
+      const expression = compileExpression(definition.expression, types);
+      types[name] = expression.type;
+      return { definition: { ...definition, name }, expression };
+    } catch (err) {
+      if (err instanceof ExpressionError) {
+        throw new Error(`Column "${name}": ${err.message} (at character ${err.position + 1})`);
+      }
+      throw err;
+    }
+  });
+};
+
+export const applyDerivedColumns = (data: DataRow[], stats: ColumnStat[], derived: DerivedColumn[]): DataRow[] => {
+  const compiled = compileDerivedColumns(stats, derived);
+  return data.map(source => {
+    const row = { ...source };
+    compiled.forEach(({ definition, expression }) => { row[definition.name] = expression.evaluate(row); });
+    return row;
+  });
+};
+
+// The derived columns the given columns depend on, directly or through other derived columns,
+// and the source columns they all read from
+export const columnDependencies = (derived: DerivedColumn[], columns: string[]): { derived: DerivedColumn[]; sources: string[] } => {
+  const needed = new Set(columns);
+  const kept: DerivedColumn[] = [];
+  [...derived].reverse().forEach(definition => {
+    const name = definition.name.trim();
+    if (!needed.has(name)) return;
+    needed.delete(name);
+    kept.unshift(definition);
+    expressionColumns(definition.expression).forEach(col => needed.add(col));
+  });
+  return { derived: kept, sources: [...needed] };
+};
@@ -0,0 +1,150 @@
+// --- Minimal dense linear algebra for the in-browser models ---
+
+export type Matrix = number[][];
+
+export const transposeMultiply = (X: Matrix): Matrix => {
+  // Computes X^T X without materialising the transpose
+  const p = X[0]?.length ?? 0;
+  const result: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  X.forEach(row => {
+    for (let i = 0; i < p; i++) {
+      for (let j = 0; j <= i; j++) {
+        result[i][j] += row[i] * row[j];
+      }
+    }
+  });
+  for (let i = 0; i < p; i++) {
+    for (let j = 0; j < i; j++) result[j][i] = result[i][j];
+  }
+  return result;
+};
+
+export const transposeMultiplyVector = (X: Matrix, y: number[]): number[] => {
+  const p = X[0]?.length ?? 0;
+  const result = new Array(p).fill(0);
+  X.forEach((row, r) => {
+    for (let i = 0; i < p; i++) result[i] += row[i] * y[r];
+  });
+  return result;
+};
+
+// Solves A x = b for a symmetric positive-definite A
+export const choleskySolve = (A: Matrix, b: number[]): number[] => {
+  const n = A.length;
+  const L: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 0) throw new Error("Matrix is not positive definite");
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+
+  // Forward substitution: L z = b
+  const z = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * z[k];
+    z[i] = sum / L[i][i];
+  }
+
+  // Back substitution: L^T x = z
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = z[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+};
+
+export interface LeastSquaresSolution {
+  coefficients: number[]; // 0 for aliased columns
+  aliased: boolean[]; // columns dropped as linear combinations of earlier ones
+  rank: number;
+  unscaledCovariance: Matrix; // (X^T X)^-1 over the kept columns, zero rows/columns for aliased ones
+  residualSumOfSquares: number;
+}
+
+// Least squares via a thin QR factorisation (modified Gram-Schmidt with one
+// re-orthogonalisation pass). A column whose residual after projecting out the
+// earlier columns is tiny relative to its own norm is treated as collinear and dropped.
+export const leastSquaresQR = (X: Matrix, y: number[], tolerance = 1e-7): LeastSquaresSolution => {
+  const n = X.length;
+  const p = X[0]?.length ?? 0;
+  const q: number[][] = []; // orthonormal columns of Q, length n each
+  const kept: number[] = [];
+  const aliased = new Array(p).fill(false);
+  const R: Matrix = []; // R[k][m] for kept columns k <= m
+
+  for (let j = 0; j < p; j++) {
+    const v = X.map(row => row[j]);
+    const norm = Math.sqrt(v.reduce((acc, x) => acc + x * x, 0));
+    const r = new Array(q.length).fill(0);
+
+    for (let pass = 0; pass < 2; pass++) {
+      q.forEach((qk, k) => {
+        let dot = 0;
+        for (let i = 0; i < n; i++) dot += qk[i] * v[i];
+        r[k] += dot;
+        for (let i = 0; i < n; i++) v[i] -= dot * qk[i];
+      });
+    }
+
+    const residual = Math.sqrt(v.reduce((acc, x) => acc + x * x, 0));
+    if (norm === 0 || residual <= tolerance * norm) {
+      aliased[j] = true;
+      continue;
+    }
+
+    R.forEach((row, k) => row.push(r[k]));
+    R.push([...new Array(q.length).fill(0), residual]);
+    q.push(v.map(x => x / residual));
+    kept.push(j);
+  }
+
+  const rank = kept.length;
+
+  // Back substitution: R b = Q^T y
+  const qty = q.map(qk => qk.reduce((acc, x, i) => acc + x * y[i], 0));
+  const b = new Array(rank).fill(0);
+  for (let i = rank - 1; i >= 0; i--) {
+    let sum = qty[i];
+    for (let k = i + 1; k < rank; k++) sum -= R[i][k] * b[k];
+    b[i] = sum / R[i][i];
+  }
+
+  // (X^T X)^-1 = R^-1 R^-T
+  const Rinv: Matrix = Array.from({ length: rank }, () => new Array(rank).fill(0));
+  for (let col = 0; col < rank; col++) {
+    for (let i = rank - 1; i >= 0; i--) {
+      let sum = i === col ? 1 : 0;
+      for (let k = i + 1; k < rank; k++) sum -= R[i][k] * Rinv[k][col];
+      Rinv[i][col] = sum / R[i][i];
+    }
+  }
+
+  const coefficients = new Array(p).fill(0);
+  const unscaledCovariance: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  kept.forEach((j, a) => {
+    coefficients[j] = b[a];
+    kept.forEach((m, c) => {
+      let sum = 0;
+      for (let k = Math.max(a, c); k < rank; k++) sum += Rinv[a][k] * Rinv[c][k];
+      unscaledCovariance[j][m] = sum;
+    });
+  });
+
+  const residualSumOfSquares = X.reduce((acc, row, i) => {
+    const fitted = row.reduce((s, x, j) => s + x * coefficients[j], 0);
+    return acc + (y[i] - fitted) ** 2;
+  }, 0);
+
+  return { coefficients, aliased, rank, unscaledCovariance, residualSumOfSquares };
+};
@@ -0,0 +1,263 @@
+import { RegressionMetrics, ClassificationMetrics, CurvePoint, ModelMetrics, FoldResult, CrossValidationSummary, HistogramBin } from "../types";
+import { histogram, normalQuantile } from "./statistics";
+
+// --- Regression ---
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// predictorCount is the number of design-matrix columns, used by adjusted R2
+export const computeRegressionMetrics = (
+  predictions: { actual: number; predicted: number }[],
+  predictorCount = 0
+): RegressionMetrics => {
+  const n = predictions.length;
+  let sumSquaredError = 0;
+  let sumAbsError = 0;
+  let sumPercentError = 0;
+  let percentCount = 0;
+  predictions.forEach(({ actual, predicted }) => {
+    sumSquaredError += Math.pow(actual - predicted, 2);
+    sumAbsError += Math.abs(actual - predicted);
+    // Rows with a zero target have no defined percentage error
+    if (actual !== 0) {
+      sumPercentError += Math.abs((actual - predicted) / actual);
+      percentCount++;
+    }
+  });
+
+  const mse = sumSquaredError / n;
+  const mae = sumAbsError / n;
+
+  // R2 Score
+  const targetMean = predictions.reduce((a, p) => a + p.actual, 0) / n;
+  const totalVariance = predictions.reduce((a, p) => a + Math.pow(p.actual - targetMean, 2), 0);
+  const r2 = 1 - (sumSquaredError / totalVariance);
+  const adjustedR2 = n - predictorCount - 1 > 0 ? 1 - ((1 - r2) * (n - 1)) / (n - predictorCount - 1) : NaN;
+
+  return {
+    task: 'regression',
+    mse,
+    rmse: Math.sqrt(mse),
+    mae,
+    medianAbsoluteError: median(predictions.map(p => Math.abs(p.actual - p.predicted))),
+    mape: percentCount === 0 ? NaN : (sumPercentError / percentCount) * 100,
+    r2,
+    adjustedR2,
+    predictions,
+  };
+};
+
+export interface ResidualSummary {
+  residuals: { predicted: number; residual: number }[];
+  histogram: HistogramBin[];
+  qq: { theoretical: number; sample: number }[]; // standardized residual quantiles vs the normal
+}
+
+const HISTOGRAM_BINS = 30;
+
+// Residual = actual - predicted
+export const computeResidualDiagnostics = (predictions: { actual: number; predicted: number }[]): ResidualSummary => {
+  const residuals = predictions.map(p => ({ predicted: p.predicted, residual: p.actual - p.predicted }));
+  const values = residuals.map(r => r.residual);
+  const n = values.length;
+  if (n === 0) return { residuals, histogram: [], qq: [] };
+
+  const bins = histogram(values, HISTOGRAM_BINS);
+
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const std = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / Math.max(1, n - 1)) || 1;
+  const qq = [...values].sort((a, b) => a - b).map((v, i) => ({
+    theoretical: normalQuantile((i + 0.5) / n),
+    sample: (v - mean) / std,
+  }));
+
+  return { residuals, histogram: bins, qq };
+};
+
+// --- Classification ---
+
+const EPSILON = 1e-15;
+
+const safeDivide = (a: number, b: number): number => (b === 0 ? 0 : a / b);
+
+// Sweeps thresholds from high to low scores; ties share a single curve point
+const thresholdSweep = (scores: number[], positives: boolean[]): { tp: number; fp: number; threshold: number }[] => {
+  const order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+  const points: { tp: number; fp: number; threshold: number }[] = [];
+  let tp = 0;
+  let fp = 0;
+  order.forEach((i, k) => {
+    if (positives[i]) tp++; else fp++;
+    const next = order[k + 1];
+    if (next === undefined || scores[next] !== scores[i]) {
+      points.push({ tp, fp, threshold: scores[i] });
+    }
+  });
+  return points;
+};
+
+const rocCurve = (scores: number[], positives: boolean[]): { curve: CurvePoint[]; auc: number } => {
+  const totalPositive = positives.filter(Boolean).length;
+  const totalNegative = positives.length - totalPositive;
+  const curve: CurvePoint[] = [{ x: 0, y: 0, threshold: 1 }];
+  thresholdSweep(scores, positives).forEach(({ tp, fp, threshold }) => {
+    curve.push({ x: safeDivide(fp, totalNegative), y: safeDivide(tp, totalPositive), threshold });
+  });
+
+  let auc = 0;
+  for (let i = 1; i < curve.length; i++) {
+    auc += (curve[i].x - curve[i - 1].x) * (curve[i].y + curve[i - 1].y) / 2;
+  }
+  return { curve, auc };
+};
+
+const prCurve = (scores: number[], positives: boolean[]): { curve: CurvePoint[]; averagePrecision: number } => {
+  const totalPositive = positives.filter(Boolean).length;
+  const curve: CurvePoint[] = [];
+  let averagePrecision = 0;
+  let previousRecall = 0;
+  thresholdSweep(scores, positives).forEach(({ tp, fp, threshold }) => {
+    const recall = safeDivide(tp, totalPositive);
+    const precision = safeDivide(tp, tp + fp);
+    averagePrecision += (recall - previousRecall) * precision;
+    previousRecall = recall;
+    curve.push({ x: recall, y: precision, threshold });
+  });
+  return { curve, averagePrecision };
+};
+
+// actual/predicted are class indices; probabilities[i] is the class distribution for row i
+export const computeClassificationMetrics = (
+  classes: string[],
+  actual: number[],
+  probabilities: number[][]
+): ClassificationMetrics => {
+  const n = actual.length;
+  const k = classes.length;
+  const predicted = probabilities.map(p => p.indexOf(Math.max(...p)));
+
+  const confusionMatrix = Array.from({ length: k }, () => new Array(k).fill(0));
+  actual.forEach((a, i) => { confusionMatrix[a][predicted[i]]++; });
+
+  const accuracy = safeDivide(actual.filter((a, i) => a === predicted[i]).length, n);
+  const logLoss = -actual.reduce((acc, a, i) => acc + Math.log(Math.max(probabilities[i][a] ?? 0, EPSILON)), 0) / n;
+
+  const perClass = classes.map((_, c) => {
+    const tp = confusionMatrix[c][c];
+    const predictedCount = confusionMatrix.reduce((acc, row) => acc + row[c], 0);
+    const actualCount = confusionMatrix[c].reduce((a, b) => a + b, 0);
+    const precision = safeDivide(tp, predictedCount);
+    const recall = safeDivide(tp, actualCount);
+    return { precision, recall, f1: safeDivide(2 * precision * recall, precision + recall) };
+  });
+
+  // Binary problems report the positive (last) class; multi-class problems use macro averages
+  const positiveIndex = k - 1;
+  const averaging = k === 2 ? 'binary' : 'macro';
+  const average = (key: 'precision' | 'recall' | 'f1') =>
+    averaging === 'binary' ? perClass[positiveIndex][key] : perClass.reduce((acc, c) => acc + c[key], 0) / k;
+
+  // ROC / PR curves score the positive class one-vs-rest
+  const scores = probabilities.map(p => p[positiveIndex] ?? 0);
+  const positives = actual.map(a => a === positiveIndex);
+  const roc = rocCurve(scores, positives);
+  const pr = prCurve(scores, positives);
+
+  return {
+    task: 'classification',
+    classes,
+    positiveClass: classes[positiveIndex],
+    averaging,
+    accuracy,
+    precision: average('precision'),
+    recall: average('recall'),
+    f1: average('f1'),
+    logLoss,
+    confusionMatrix,
+    rocCurve: roc.curve,
+    rocAuc: roc.auc,
+    prCurve: pr.curve,
+    averagePrecision: pr.averagePrecision,
+    predictions: actual.map((a, i) => ({ actual: classes[a], predicted: classes[predicted[i]], probability: scores[i] })),
+  };
+};
+
+// --- Cross-Validation ---
+
+// The scalar metrics compared across folds
+export const scalarMetrics = (metrics: ModelMetrics): Record<string, number> =>
+  metrics.task === 'classification'
+    ? {
+        accuracy: metrics.accuracy,
+        precision: metrics.precision,
+        recall: metrics.recall,
+        f1: metrics.f1,
+        logLoss: metrics.logLoss,
+        rocAuc: metrics.rocAuc,
+      }
+    : {
+        r2: metrics.r2,
+        adjustedR2: metrics.adjustedR2,
+        rmse: metrics.rmse,
+        mse: metrics.mse,
+        mae: metrics.mae,
+        medianAbsoluteError: metrics.medianAbsoluteError,
+        mape: metrics.mape,
+      };
+
+// Display labels for the keys returned by scalarMetrics
+export const METRIC_LABELS: Record<string, string> = {
+  r2: 'R²',
+  adjustedR2: 'Adj. R²',
+  rmse: 'RMSE',
+  mse: 'MSE',
+  mae: 'MAE',
+  medianAbsoluteError: 'Median AE',
+  mape: 'MAPE %',
+  accuracy: 'Accuracy',
+  precision: 'Precision',
+  recall: 'Recall',
+  f1: 'F1',
+  logLoss: 'Log Loss',
+  rocAuc: 'ROC AUC',
+};
+
+export const formatMetricValue = (value: number): string =>
+  !Number.isFinite(value) ? '—' : Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 0 }) : value.toFixed(4);
+
+// Error metrics rank ascending; everything else ranks descending
+export const LOWER_IS_BETTER = new Set(['mse', 'rmse', 'mae', 'medianAbsoluteError', 'mape', 'logLoss']);
+
+// Headline metric compared between the training and test rows
+export const GAP_METRIC: Record<ModelMetrics['task'], string> = { regression: 'r2', classification: 'accuracy' };
+export const OVERFITTING_GAP = 0.1;
+
+// Train minus test on the headline metric; a large positive gap suggests overfitting
+export const generalizationGap = (metrics: ModelMetrics): { metric: string; train: number; test: number; gap: number } | null => {
+  const metric = GAP_METRIC[metrics.task];
+  const train = metrics.trainMetrics?.[metric];
+  if (train === undefined) return null;
+  const test = scalarMetrics(metrics)[metric];
+  return { metric, train, test, gap: train - test };
+};
+
+export const summarizeFolds = (folds: FoldResult[]): CrossValidationSummary => {
+  const keys = Object.keys(folds[0]?.metrics ?? {});
+  const mean: Record<string, number> = {};
+  const std: Record<string, number> = {};
+  keys.forEach(key => {
+    const values = folds.map(f => f.metrics[key]);
+    mean[key] = values.reduce((a, b) => a + b, 0) / values.length;
+    // Sample standard deviation across folds
+    const variance = values.length > 1
+      ? values.reduce((a, v) => a + Math.pow(v - mean[key], 2), 0) / (values.length - 1)
+      : 0;
+    std[key] = Math.sqrt(variance);
+  });
+  return { folds, mean, std };
+};
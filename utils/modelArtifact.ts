@@ -0,0 +1,138 @@
+import { ArtifactFeature, ColumnStat, DataRow, DerivedColumn, ModelArtifact, ModelConfig, ModelMetrics, SchemaIssue } from "../types";
+import { scalarMetrics } from "./metrics";
+import { applyDerivedColumns, columnDependencies } from "./featureEngineering";
+import { predictClassProbabilities, predictTargetValue } from "./dataUtils";
+
+// A model artifact is a plain JSON document. Bump the version whenever a field changes
+// meaning, so older builds refuse files they would misread.
+
+export const MODEL_ARTIFACT_FORMAT = 'automl-wizard-model';
+export const MODEL_ARTIFACT_VERSION = 1;
+
+// --- Export ---
+
+// The input schema comes from the fitted model, not the current settings, which may have
+// moved on since it was trained. Inputs must be uploaded columns or derived from them:
+// columns added by cleaning (missing-value indicators, outlier flags) cannot be recomputed
+// from a scored file, because the artifact does not carry the cleaning steps.
+export const buildModelArtifact = (
+  config: ModelConfig,
+  metrics: ModelMetrics,
+  derivedColumns: DerivedColumn[],
+  uploadedStats: ColumnStat[]
+): ModelArtifact => {
+  if (!metrics.model) throw new Error("These results have no trained model to export");
+  const modelFeatures = metrics.model.encoders.features;
+  // Only the derived columns the features depend on travel with the model
+  const { derived, sources } = columnDependencies(derivedColumns, modelFeatures);
+  const unavailable = sources.filter(name => !uploadedStats.some(s => s.name === name));
+  if (unavailable.length > 0) {
+    throw new Error(`This model uses ${unavailable.join(', ')}, which ${unavailable.length === 1 ? 'is' : 'are'} not in the uploaded data (columns added by cleaning cannot be exported). Remove ${unavailable.length === 1 ? 'it' : 'them'} from the features and retrain to export.`);
+  }
+  const features: ArtifactFeature[] = sources.map(name => ({
+    name,
+    type: uploadedStats.find(s => s.name === name)!.type,
+  }));
+  return {
+    format: MODEL_ARTIFACT_FORMAT,
+    version: MODEL_ARTIFACT_VERSION,
+    createdAt: new Date().toISOString(),
+    config: { ...config, featureColumns: modelFeatures },
+    derivedColumns: derived,
+    features,
+    model: metrics.model,
+    metrics: scalarMetrics(metrics),
+  };
+};
+
+export const artifactFileName = (artifact: ModelArtifact): string =>
+  `${artifact.config.targetColumn}-${artifact.config.algorithm}-model.json`.replace(/[^\w.-]+/g, '_');
+
+// --- Import ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseModelArtifact = (text: string): ModelArtifact => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (!isObject(parsed) || parsed.format !== MODEL_ARTIFACT_FORMAT) {
+    throw new Error("The file is not a model exported by this app");
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > MODEL_ARTIFACT_VERSION) {
+    throw new Error(`Model format version ${String(parsed.version)} is newer than this app supports (version ${MODEL_ARTIFACT_VERSION})`);
+  }
+  const { config, model } = parsed;
+  if (
+    !isObject(config) || typeof config.targetColumn !== 'string' || !Array.isArray(config.featureColumns) ||
+    !isObject(model) || !isObject(model.fitted) || !isObject(model.encoders) || !isObject(model.preprocessing) ||
+    !Array.isArray(parsed.features) || !Array.isArray(parsed.derivedColumns)
+  ) {
+    throw new Error("The model file is incomplete or corrupted");
+  }
+  return parsed as unknown as ModelArtifact;
+};
+
+// --- Scoring ---
+
+// Every input column must be present; numeric inputs must hold numbers. Extra columns are ignored,
+// except ones named like a derived column, which the model computes itself.
+export const checkSchema = (artifact: ModelArtifact, stats: ColumnStat[]): SchemaIssue[] => [
+  ...artifact.features.flatMap(feature => {
+    const stat = stats.find(s => s.name === feature.name);
+    if (!stat) return [{ column: feature.name, message: 'Missing column' }];
+    if (feature.type === 'number' && stat.type !== 'number') {
+      return [{ column: feature.name, message: 'Expected numbers but the column holds text' }];
+    }
+    return [];
+  }),
+  ...artifact.derivedColumns
+    .map(derived => derived.name.trim())
+    .filter(name => stats.some(s => s.name === name))
+    .map(name => ({ column: name, message: 'The model derives this column itself; rename or remove it in the file' })),
+];
+
+export interface ScoringResult {
+  rows: DataRow[]; // the uploaded rows plus the prediction columns
+  predictionColumns: string[];
+  skipped: number; // rows left unscored because a numeric feature is missing
+}
+
+export const SKIPPED_REASON_COLUMN = 'prediction_note';
+
+export const scoreRows = (artifact: ModelArtifact, data: DataRow[], stats: ColumnStat[]): ScoringResult => {
+  const { config, model } = artifact;
+  const predicted = `predicted_${config.targetColumn}`;
+  const classes = model.classes ?? [];
+  const probabilityColumns = classes.map(c => `probability_${c}`);
+  const inputs = applyDerivedColumns(data, stats, artifact.derivedColumns);
+  const numericFeatures = model.encoders.features.filter(f => !model.encoders.encoders[f]);
+  let skipped = 0;
+
+  const rows = data.map((source, i) => {
+    const row = inputs[i];
+    const missing = numericFeatures.filter(f => typeof row[f] !== 'number');
+    if (missing.length > 0) {
+      skipped++;
+      return { ...source, [predicted]: null, [SKIPPED_REASON_COLUMN]: `Missing ${missing.join(', ')}` };
+    }
+    if (config.taskType === 'classification') {
+      const probabilities = predictClassProbabilities(model, row);
+      const best = probabilities.indexOf(Math.max(...probabilities));
+      const scored: DataRow = { ...source, [predicted]: classes[best] };
+      probabilityColumns.forEach((col, k) => { scored[col] = probabilities[k]; });
+      return scored;
+    }
+    return { ...source, [predicted]: predictTargetValue(model, row) };
+  });
+
+  return {
+    rows,
+    predictionColumns: [predicted, ...probabilityColumns, ...(skipped > 0 ? [SKIPPED_REASON_COLUMN] : [])],
+    skipped,
+  };
+};
@@ -0,0 +1,412 @@
+import {
+  Algorithm, Hyperparameters, RidgeParams, LogisticRegressionParams, DecisionTreeParams, RandomForestParams,
+  TreeNode, FittedModel
+} from "../types";
+import { Matrix, choleskySolve, leastSquaresQR, transposeMultiply, transposeMultiplyVector } from "./linalg";
+import { Rng, createRng, randomInt } from "./random";
+
+// All models here are fitted on standardized features. Regressors also see a standardized
+// target; classifiers see class indices. Fitted models are plain data so they can be
+// stored, compared and serialized.
+
+// Reports iterative progress: epochs or iterations for gradient-based models, trees for
+// forests. loss is the training loss after that step, when the model has one.
+export type EpochCallback = (completed: number, total: number, loss?: number) => void;
+
+// Regression trees predict y; classification trees predict a class index from class probabilities
+type Criterion =
+  | { type: 'regression'; y: number[] }
+  | { type: 'classification'; y: number[]; classCount: number };
+
+export const DEFAULT_HYPERPARAMETERS: Hyperparameters = {
+  ridge: { alpha: 1 },
+  logisticRegression: { alpha: 0.01, maxIterations: 300 },
+  decisionTree: { maxDepth: 6, minSamplesSplit: 10, minSamplesLeaf: 5 },
+  randomForest: { nEstimators: 50, maxDepth: 8, minSamplesSplit: 10, minSamplesLeaf: 3, maxFeatures: 0.6, seed: 42 },
+};
+
+const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+// --- Linear Regression (ordinary least squares) ---
+
+const fitLinearRegression = (X: Matrix, y: number[]): FittedModel => {
+  // Intercept first, so a feature that duplicates it (e.g. a constant) is the one dropped
+  const design = X.map(row => [1, ...row]);
+  const solution = leastSquaresQR(design, y);
+
+  return {
+    kind: 'linear',
+    intercept: solution.coefficients[0],
+    weights: solution.coefficients.slice(1),
+    inference: {
+      observations: X.length,
+      rank: solution.rank,
+      aliased: solution.aliased.slice(1),
+      residualSumOfSquares: solution.residualSumOfSquares,
+      unscaledCovariance: solution.unscaledCovariance,
+    },
+  };
+};
+
+// --- Ridge Regression (closed form) ---
+
+const fitRidge = (X: Matrix, y: number[], params: RidgeParams): FittedModel => {
+  const p = X[0]?.length ?? 0;
+  const xMeans = Array.from({ length: p }, (_, j) => mean(X.map(row => row[j])));
+  const yMean = mean(y);
+
+  // Centre so the intercept is not penalised
+  const Xc = X.map(row => row.map((v, j) => v - xMeans[j]));
+  const yc = y.map(v => v - yMean);
+
+  // (X^T X + alpha I) w = X^T y
+  const gram = transposeMultiply(Xc);
+  for (let j = 0; j < p; j++) gram[j][j] += params.alpha;
+  const weights = choleskySolve(gram, transposeMultiplyVector(Xc, yc));
+
+  const intercept = yMean - weights.reduce((acc, w, j) => acc + w * xMeans[j], 0);
+  return { kind: 'linear', intercept, weights };
+};
+
+// --- Logistic Regression (multinomial, batch gradient descent) ---
+
+const softmax = (logits: number[]): number[] => {
+  const max = Math.max(...logits);
+  const exps = logits.map(l => Math.exp(l - max));
+  const total = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / total);
+};
+
+const fitLogisticRegression = (
+  X: Matrix,
+  y: number[],
+  classCount: number,
+  params: LogisticRegressionParams,
+  onEpoch?: EpochCallback
+): FittedModel => {
+  const n = X.length;
+  const p = X[0]?.length ?? 0;
+  const weights = Array.from({ length: classCount }, () => new Array(p).fill(0));
+  const intercepts = new Array(classCount).fill(0);
+  const learningRate = 0.5; // features are standardized, so a large step is stable
+
+  for (let iter = 0; iter < params.maxIterations; iter++) {
+    const gradW = Array.from({ length: classCount }, () => new Array(p).fill(0));
+    const gradB = new Array(classCount).fill(0);
+    let crossEntropy = 0;
+
+    X.forEach((row, r) => {
+      const probs = softmax(intercepts.map((b, k) => weights[k].reduce((acc, w, j) => acc + w * row[j], b)));
+      crossEntropy -= Math.log(Math.max(probs[y[r]], 1e-15));
+      for (let k = 0; k < classCount; k++) {
+        const error = probs[k] - (y[r] === k ? 1 : 0);
+        gradB[k] += error;
+        for (let j = 0; j < p; j++) gradW[k][j] += error * row[j];
+      }
+    });
+
+    let maxGradient = 0;
+    for (let k = 0; k < classCount; k++) {
+      intercepts[k] -= learningRate * gradB[k] / n;
+      for (let j = 0; j < p; j++) {
+        const gradient = gradW[k][j] / n + params.alpha * weights[k][j];
+        weights[k][j] -= learningRate * gradient;
+        maxGradient = Math.max(maxGradient, Math.abs(gradient));
+      }
+    }
+    onEpoch?.(iter + 1, params.maxIterations, crossEntropy / n);
+    if (maxGradient < 1e-6) break;
+  }
+
+  return { kind: 'logistic', intercepts, weights };
+};
+
+// --- CART Trees ---
+
+interface SplitCandidate {
+  feature: number;
+  threshold: number;
+  gain: number;
+  left: number[];
+  right: number[];
+}
+
+const sumSquaredError = (sum: number, sumSq: number, n: number): number =>
+  n === 0 ? 0 : sumSq - (sum * sum) / n;
+
+const pickFeatures = (p: number, maxFeatures: number, rng?: Rng): number[] => {
+  const all = Array.from({ length: p }, (_, j) => j);
+  if (!rng || maxFeatures >= p) return all;
+  // Partial Fisher-Yates shuffle
+  for (let i = 0; i < maxFeatures; i++) {
+    const j = i + randomInt(rng, p - i);
+    [all[i], all[j]] = [all[j], all[i]];
+  }
+  return all.slice(0, maxFeatures);
+};
+
+const findBestRegressionSplit = (
+  X: Matrix,
+  y: number[],
+  indices: number[],
+  features: number[],
+  minSamplesLeaf: number
+): SplitCandidate | null => {
+  const n = indices.length;
+  let totalSum = 0;
+  let totalSumSq = 0;
+  indices.forEach(i => {
+    totalSum += y[i];
+    totalSumSq += y[i] * y[i];
+  });
+  const parentError = sumSquaredError(totalSum, totalSumSq, n);
+
+  let best: { feature: number; threshold: number; gain: number; position: number; order: number[] } | null = null;
+
+  features.forEach(feature => {
+    const order = [...indices].sort((a, b) => X[a][feature] - X[b][feature]);
+    let leftSum = 0;
+    let leftSumSq = 0;
+
+    for (let k = 0; k < n - 1; k++) {
+      const yi = y[order[k]];
+      leftSum += yi;
+      leftSumSq += yi * yi;
+
+      const leftCount = k + 1;
+      const rightCount = n - leftCount;
+      if (leftCount < minSamplesLeaf || rightCount < minSamplesLeaf) continue;
+
+      const current = X[order[k]][feature];
+      const next = X[order[k + 1]][feature];
+      if (current === next) continue;
+
+      const childError =
+        sumSquaredError(leftSum, leftSumSq, leftCount) +
+        sumSquaredError(totalSum - leftSum, totalSumSq - leftSumSq, rightCount);
+      const gain = parentError - childError;
+
+      if (gain > 1e-12 && (!best || gain > best.gain)) {
+        best = { feature, threshold: (current + next) / 2, gain, position: leftCount, order };
+      }
+    }
+  });
+
+  if (!best) return null;
+  const { feature, threshold, gain, position, order } = best;
+  return { feature, threshold, gain, left: order.slice(0, position), right: order.slice(position) };
+};
+
+const findBestClassificationSplit = (
+  X: Matrix,
+  y: number[],
+  classCount: number,
+  indices: number[],
+  features: number[],
+  minSamplesLeaf: number
+): SplitCandidate | null => {
+  const n = indices.length;
+  const totalCounts = new Array(classCount).fill(0);
+  indices.forEach(i => { totalCounts[y[i]]++; });
+  const totalSq = totalCounts.reduce((acc, c) => acc + c * c, 0);
+  // Gini impurity weighted by node size: n - sum(c^2) / n
+  const parentImpurity = n - totalSq / n;
+
+  let best: { feature: number; threshold: number; gain: number; position: number; order: number[] } | null = null;
+
+  features.forEach(feature => {
+    const order = [...indices].sort((a, b) => X[a][feature] - X[b][feature]);
+    const leftCounts = new Array(classCount).fill(0);
+    let leftSq = 0;
+    let rightSq = totalSq;
+
+    for (let k = 0; k < n - 1; k++) {
+      const cls = y[order[k]];
+      leftSq += 2 * leftCounts[cls] + 1;
+      rightSq -= 2 * (totalCounts[cls] - leftCounts[cls]) - 1;
+      leftCounts[cls]++;
+
+      const leftCount = k + 1;
+      const rightCount = n - leftCount;
+      if (leftCount < minSamplesLeaf || rightCount < minSamplesLeaf) continue;
+
+      const current = X[order[k]][feature];
+      const next = X[order[k + 1]][feature];
+      if (current === next) continue;
+
+      const childImpurity = (leftCount - leftSq / leftCount) + (rightCount - rightSq / rightCount);
+      const gain = parentImpurity - childImpurity;
+
+      if (gain > 1e-12 && (!best || gain > best.gain)) {
+        best = { feature, threshold: (current + next) / 2, gain, position: leftCount, order };
+      }
+    }
+  });
+
+  if (!best) return null;
+  const { feature, threshold, gain, position, order } = best;
+  return { feature, threshold, gain, left: order.slice(0, position), right: order.slice(position) };
+};
+
+const nodeSummary = (criterion: Criterion, indices: number[]): { value: number; distribution?: number[] } => {
+  if (criterion.type === 'regression') return { value: mean(indices.map(i => criterion.y[i])) };
+
+  const counts = new Array(criterion.classCount).fill(0);
+  indices.forEach(i => { counts[criterion.y[i]]++; });
+  const distribution = counts.map(c => (indices.length === 0 ? 0 : c / indices.length));
+  return { value: distribution.indexOf(Math.max(...distribution)), distribution };
+};
+
+const buildTree = (
+  X: Matrix,
+  criterion: Criterion,
+  indices: number[],
+  depth: number,
+  params: DecisionTreeParams,
+  maxFeatures: number,
+  rng?: Rng
+): TreeNode => {
+  const summary = nodeSummary(criterion, indices);
+  const samples = indices.length;
+
+  if (depth >= params.maxDepth || samples < params.minSamplesSplit) {
+    return { type: 'leaf', ...summary, samples };
+  }
+
+  const features = pickFeatures(X[0].length, maxFeatures, rng);
+  const minSamplesLeaf = Math.max(1, params.minSamplesLeaf);
+  const split = criterion.type === 'regression'
+    ? findBestRegressionSplit(X, criterion.y, indices, features, minSamplesLeaf)
+    : findBestClassificationSplit(X, criterion.y, criterion.classCount, indices, features, minSamplesLeaf);
+  if (!split) return { type: 'leaf', ...summary, samples };
+
+  return {
+    type: 'split',
+    feature: split.feature,
+    threshold: split.threshold,
+    gain: split.gain,
+    ...summary,
+    samples,
+    left: buildTree(X, criterion, split.left, depth + 1, params, maxFeatures, rng),
+    right: buildTree(X, criterion, split.right, depth + 1, params, maxFeatures, rng),
+  };
+};
+
+const fitDecisionTree = (X: Matrix, criterion: Criterion, params: DecisionTreeParams): FittedModel => {
+  const indices = X.map((_, i) => i);
+  return { kind: 'tree', root: buildTree(X, criterion, indices, 0, params, X[0].length) };
+};
+
+// --- Random Forest (bagged trees with per-split feature subsampling) ---
+
+const fitRandomForest = (X: Matrix, criterion: Criterion, params: RandomForestParams, onEpoch?: EpochCallback): FittedModel => {
+  const rng = createRng(params.seed);
+  const n = X.length;
+  const p = X[0].length;
+  const maxFeatures = Math.max(1, Math.round(params.maxFeatures * p));
+
+  const trees: TreeNode[] = [];
+  for (let t = 0; t < params.nEstimators; t++) {
+    const bootstrap = Array.from({ length: n }, () => randomInt(rng, n));
+    trees.push(buildTree(X, criterion, bootstrap, 0, params, maxFeatures, rng));
+    onEpoch?.(t + 1, params.nEstimators);
+  }
+  return { kind: 'forest', trees };
+};
+
+// --- Public API ---
+
+// Non-iterative fits report a single completed step
+const withSingleStep = (fit: () => FittedModel, onEpoch?: EpochCallback): FittedModel => {
+  const model = fit();
+  onEpoch?.(1, 1);
+  return model;
+};
+
+export const fitModel = (
+  algorithm: Algorithm,
+  X: Matrix,
+  y: number[],
+  hyperparameters: Hyperparameters,
+  onEpoch?: EpochCallback
+): FittedModel => {
+  if (X.length === 0) throw new Error("No training rows available");
+
+  const criterion: Criterion = { type: 'regression', y };
+  switch (algorithm) {
+    case 'ridge':
+      return withSingleStep(() => fitRidge(X, y, hyperparameters.ridge), onEpoch);
+    case 'decision_tree':
+      return withSingleStep(() => fitDecisionTree(X, criterion, hyperparameters.decisionTree), onEpoch);
+    case 'random_forest':
+      return fitRandomForest(X, criterion, hyperparameters.randomForest, onEpoch);
+    case 'linear_regression':
+    default:
+      return withSingleStep(() => fitLinearRegression(X, y), onEpoch);
+  }
+};
+
+// y holds class indices in [0, classCount)
+export const fitClassifier = (
+  algorithm: Algorithm,
+  X: Matrix,
+  y: number[],
+  classCount: number,
+  hyperparameters: Hyperparameters,
+  onEpoch?: EpochCallback
+): FittedModel => {
+  if (X.length === 0) throw new Error("No training rows available");
+
+  const criterion: Criterion = { type: 'classification', y, classCount };
+  switch (algorithm) {
+    case 'decision_tree':
+      return withSingleStep(() => fitDecisionTree(X, criterion, hyperparameters.decisionTree), onEpoch);
+    case 'random_forest':
+      return fitRandomForest(X, criterion, hyperparameters.randomForest, onEpoch);
+    case 'logistic_regression':
+    default:
+      return fitLogisticRegression(X, y, classCount, hyperparameters.logisticRegression, onEpoch);
+  }
+};
+
+const findLeaf = (node: TreeNode, x: number[]): TreeNode => {
+  let current = node;
+  while (current.type === 'split') {
+    current = x[current.feature] <= current.threshold ? current.left : current.right;
+  }
+  return current;
+};
+
+const predictTree = (node: TreeNode, x: number[]): number => findLeaf(node, x).value;
+
+const predictTreeProba = (node: TreeNode, x: number[]): number[] => findLeaf(node, x).distribution ?? [];
+
+export const predictRow = (model: FittedModel, x: number[]): number => {
+  switch (model.kind) {
+    case 'linear':
+      return model.weights.reduce((acc, w, j) => acc + w * x[j], model.intercept);
+    case 'tree':
+      return predictTree(model.root, x);
+    case 'forest':
+      return mean(model.trees.map(tree => predictTree(tree, x)));
+    case 'logistic':
+      throw new Error("Logistic models predict class probabilities; use predictProba");
+  }
+};
+
+// Class probabilities for classifiers, indexed like the classes used in fitting
+export const predictProba = (model: FittedModel, x: number[]): number[] => {
+  switch (model.kind) {
+    case 'logistic':
+      return softmax(model.intercepts.map((b, k) => model.weights[k].reduce((acc, w, j) => acc + w * x[j], b)));
+    case 'tree':
+      return predictTreeProba(model.root, x);
+    case 'forest': {
+      const distributions = model.trees.map(tree => predictTreeProba(tree, x));
+      return distributions[0].map((_, k) => mean(distributions.map(d => d[k])));
+    }
+    case 'linear':
+      throw new Error("Linear models predict values; use predictRow");
+  }
+};
@@ -0,0 +1,167 @@
+import { DataRow, ColumnStat, ColumnOutlierRule, OutlierDetection, OutlierFinding, OutlierOptions } from "../types";
+import { Rng, createRng, randomInt } from "./random";
+import { shuffleInPlace } from "./splitting";
+import { quantile } from "./statistics";
+
+// Outliers are detected on the data as uploaded, before any imputation, so the preview
+// in the Cleaning step matches exactly what cleanData will do.
+
+export const ISOLATION_FOREST_LABEL = 'isolation forest';
+const ISOLATION_TREES = 100;
+const ISOLATION_SAMPLE_SIZE = 256;
+const ISOLATION_SEED = 42;
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierDetection['method'], string> = {
+  none: 'None',
+  iqr: 'IQR fences',
+  zscore: 'Z-score',
+  modified_zscore: 'Modified z-score (MAD)',
+};
+
+export const defaultOutlierDetection = (method: OutlierDetection['method']): OutlierDetection => {
+  switch (method) {
+    case 'iqr':
+      return { method: 'iqr', multiplier: 1.5 };
+    case 'zscore':
+      return { method: 'zscore', threshold: 3 };
+    case 'modified_zscore':
+      return { method: 'modified_zscore', threshold: 3.5 };
+    case 'none':
+    default:
+      return { method: 'none' };
+  }
+};
+
+export const defaultOutlierRule = (): ColumnOutlierRule => ({ detection: defaultOutlierDetection('none'), treatment: 'flag' });
+
+export const defaultOutlierOptions = (): OutlierOptions => ({
+  columns: {},
+  isolationForest: { enabled: false, columns: [], contamination: 0.05, treatment: 'flag' },
+});
+
+// --- Univariate bounds ---
+
+// Values outside [lower, upper] are outliers
+export const detectionBounds = (values: number[], detection: OutlierDetection): { lower: number; upper: number } | null => {
+  if (values.length === 0 || detection.method === 'none') return null;
+  const sorted = [...values].sort((a, b) => a - b);
+
+  switch (detection.method) {
+    case 'iqr': {
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const spread = detection.multiplier * (q3 - q1);
+      return { lower: q1 - spread, upper: q3 + spread };
+    }
+    case 'zscore': {
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      const std = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+      return { lower: mean - detection.threshold * std, upper: mean + detection.threshold * std };
+    }
+    case 'modified_zscore': {
+      const median = quantile(sorted, 0.5);
+      const deviations = values.map(v => Math.abs(v - median)).sort((a, b) => a - b);
+      let mad = quantile(deviations, 0.5);
+      // More than half the values are identical: fall back to the mean absolute deviation
+      if (mad === 0) mad = (deviations.reduce((a, b) => a + b, 0) / deviations.length) * 1.2533;
+      const spread = (detection.threshold * mad) / 0.6745;
+      return { lower: median - spread, upper: median + spread };
+    }
+  }
+};
+
+// --- Isolation forest ---
+
+type IsolationNode =
+  | { type: 'leaf'; size: number }
+  | { type: 'split'; feature: number; threshold: number; left: IsolationNode; right: IsolationNode };
+
+// Average path length of an unsuccessful search in a binary search tree of n points
+const averagePathLength = (n: number): number =>
+  n <= 1 ? 0 : n === 2 ? 1 : 2 * (Math.log(n - 1) + 0.5772156649) - (2 * (n - 1)) / n;
+
+const buildIsolationTree = (X: number[][], indices: number[], depth: number, maxDepth: number, rng: Rng): IsolationNode => {
+  if (depth >= maxDepth || indices.length <= 1) return { type: 'leaf', size: indices.length };
+
+  const feature = randomInt(rng, X[0].length);
+  let min = Infinity;
+  let max = -Infinity;
+  indices.forEach(i => {
+    min = Math.min(min, X[i][feature]);
+    max = Math.max(max, X[i][feature]);
+  });
+  if (min === max) return { type: 'leaf', size: indices.length };
+
+  const threshold = min + rng() * (max - min);
+  return {
+    type: 'split',
+    feature,
+    threshold,
+    left: buildIsolationTree(X, indices.filter(i => X[i][feature] < threshold), depth + 1, maxDepth, rng),
+    right: buildIsolationTree(X, indices.filter(i => X[i][feature] >= threshold), depth + 1, maxDepth, rng),
+  };
+};
+
+const pathLength = (node: IsolationNode, x: number[], depth: number): number =>
+  node.type === 'leaf'
+    ? depth + averagePathLength(node.size)
+    : pathLength(x[node.feature] < node.threshold ? node.left : node.right, x, depth + 1);
+
+// Anomaly scores in (0, 1]; higher is more anomalous
+export const isolationForestScores = (X: number[][], trees = ISOLATION_TREES, seed = ISOLATION_SEED): number[] => {
+  const n = X.length;
+  if (n === 0) return [];
+  const rng = createRng(seed);
+  const sampleSize = Math.min(ISOLATION_SAMPLE_SIZE, n);
+  const maxDepth = Math.ceil(Math.log2(Math.max(2, sampleSize)));
+
+  const forest = Array.from({ length: trees }, () => {
+    const sample = shuffleInPlace(Array.from({ length: n }, (_, i) => i), rng).slice(0, sampleSize);
+    return buildIsolationTree(X, sample, 0, maxDepth, rng);
+  });
+
+  const normalizer = averagePathLength(sampleSize) || 1;
+  return X.map(x => {
+    const meanPath = forest.reduce((acc, tree) => acc + pathLength(tree, x, 0), 0) / trees;
+    return Math.pow(2, -meanPath / normalizer);
+  });
+};
+
+// --- Detection ---
+
+export const detectOutliers = (data: DataRow[], stats: ColumnStat[], options: OutlierOptions): OutlierFinding[] => {
+  const numeric = new Set(stats.filter(s => s.type === 'number').map(s => s.name));
+  const findings: OutlierFinding[] = [];
+
+  Object.keys(options.columns).forEach(column => {
+    const rule = options.columns[column];
+    if (!numeric.has(column) || rule.detection.method === 'none') return;
+    const values = data.map(row => row[column]).filter((v): v is number => typeof v === 'number');
+    const bounds = detectionBounds(values, rule.detection);
+    if (!bounds) return;
+
+    const rows: number[] = [];
+    data.forEach((row, i) => {
+      const value = row[column];
+      if (typeof value === 'number' && (value < bounds.lower || value > bounds.upper)) rows.push(i);
+    });
+    findings.push({ column, treatment: rule.treatment, rows, ...bounds });
+  });
+
+  const forest = options.isolationForest;
+  const columns = forest.columns.filter(c => numeric.has(c));
+  if (forest.enabled && columns.length > 0) {
+    const scored = data.map((_, i) => i).filter(i => columns.every(c => typeof data[i][c] === 'number'));
+    const scores = isolationForestScores(scored.map(i => columns.map(c => data[i][c] as number)));
+    const count = Math.round(Math.min(0.5, Math.max(0, forest.contamination)) * scored.length);
+    const rows = scored
+      .map((row, k) => ({ row, score: scores[k] }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, count)
+      .map(entry => entry.row)
+      .sort((a, b) => a - b);
+    findings.push({ column: null, treatment: forest.treatment, rows });
+  }
+
+  return findings;
+};
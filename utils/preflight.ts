@@ -0,0 +1,203 @@
+import { DataRow, ColumnStat, ModelConfig, PreflightWarning } from "../types";
+import { categoryOf, fitFeatureEncoders } from "./encoding";
+import { leastSquaresQR } from "./linalg";
+import { quantileBins, sampleEvenly } from "./splitting";
+import { averageRanks, pearsonCorrelation } from "./statistics";
+
+// Checks run on the cleaned data and the chosen configuration before training. They only
+// warn; every warning carries the fixes the UI offers, and training can go ahead regardless.
+
+const LEAKAGE_R2 = 0.95; // share of target variance a single feature explains
+const LEAKAGE_ACCURACY = 0.99; // share of rows a single feature classifies correctly
+// Numeric features are binned before checking class purity; bins hold at least
+// LEAKAGE_ROWS_PER_BIN rows so small bins are not pure by chance
+const LEAKAGE_ROWS_PER_BIN = 20;
+const MAX_LEAKAGE_BINS = 100;
+const VIF_THRESHOLD = 10;
+const MAX_VIF_ROWS = 5000;
+const MAX_VIF_FEATURES = 50;
+const NEAR_CONSTANT_SHARE = 0.99;
+const ID_LIKE_UNIQUE_SHARE = 0.9;
+const MIN_ROWS_PER_FEATURE = 10;
+
+const isMissing = (value: string | number | null | undefined): boolean =>
+  value === null || value === undefined || value === '';
+
+const dropFeature = (column: string) => [{ action: 'drop_feature' as const, column }];
+
+// Share of variance in y explained by group means (eta squared)
+const correlationRatio = (groups: string[], y: number[]): number => {
+  const mean = y.reduce((a, b) => a + b, 0) / y.length;
+  const total = y.reduce((acc, v) => acc + (v - mean) ** 2, 0);
+  if (total === 0) return 0;
+  const sums = new Map<string, { sum: number; count: number }>();
+  groups.forEach((g, i) => {
+    const entry = sums.get(g) ?? { sum: 0, count: 0 };
+    entry.sum += y[i];
+    entry.count++;
+    sums.set(g, entry);
+  });
+  let between = 0;
+  sums.forEach(({ sum, count }) => { between += count * (sum / count - mean) ** 2; });
+  return between / total;
+};
+
+// Accuracy of predicting the majority class within each group
+const groupPurity = (groups: string[], classes: string[]): number => {
+  const counts = new Map<string, Map<string, number>>();
+  groups.forEach((g, i) => {
+    const perClass = counts.get(g) ?? new Map<string, number>();
+    perClass.set(classes[i], (perClass.get(classes[i]) ?? 0) + 1);
+    counts.set(g, perClass);
+  });
+  let correct = 0;
+  counts.forEach(perClass => { correct += Math.max(...perClass.values()); });
+  return correct / classes.length;
+};
+
+const leakageWarning = (data: DataRow[], stat: ColumnStat, config: ModelConfig): PreflightWarning | null => {
+  const { targetColumn: target } = config;
+  const rows = data.filter(row => !isMissing(row[stat.name]) && !isMissing(row[target]));
+  if (rows.length < 2) return null;
+  const numeric = stat.type === 'number';
+
+  if (config.taskType === 'regression') {
+    const y = rows.map(row => row[target] as number);
+    let explained: number;
+    if (numeric) {
+      const x = rows.map(row => row[stat.name] as number);
+      const pearson = pearsonCorrelation(x, y);
+      const spearman = pearsonCorrelation(averageRanks(x), averageRanks(y));
+      explained = Math.max(pearson ** 2 || 0, spearman ** 2 || 0);
+    } else {
+      explained = correlationRatio(rows.map(row => categoryOf(row[stat.name])), y);
+    }
+    if (explained < LEAKAGE_R2) return null;
+    return {
+      check: 'leakage',
+      severity: 'critical',
+      column: stat.name,
+      message: `"${stat.name}" alone explains ${(explained * 100).toFixed(1)}% of the variance in "${target}". It is probably derived from the target or only known afterwards.`,
+      fixes: dropFeature(stat.name),
+    };
+  }
+
+  const classes = rows.map(row => categoryOf(row[target]));
+  const baseline = groupPurity(classes.map(() => ''), classes);
+  if (baseline >= LEAKAGE_ACCURACY) return null;
+  const groups = numeric
+    ? quantileBins(
+      rows.map(row => row[stat.name] as number),
+      Math.max(2, Math.min(MAX_LEAKAGE_BINS, Math.floor(rows.length / LEAKAGE_ROWS_PER_BIN)))
+    )
+    : rows.map(row => categoryOf(row[stat.name]));
+  const accuracy = groupPurity(groups, classes);
+  if (accuracy < LEAKAGE_ACCURACY) return null;
+  return {
+    check: 'leakage',
+    severity: 'critical',
+    column: stat.name,
+    message: `"${stat.name}" alone predicts "${target}" for ${(accuracy * 100).toFixed(1)}% of rows (majority class: ${(baseline * 100).toFixed(1)}%). It is probably derived from the target or only known afterwards.`,
+    fixes: dropFeature(stat.name),
+  };
+};
+
+// Variance inflation factor of each numeric feature against the other numeric features
+const varianceInflation = (data: DataRow[], columns: string[]): { column: string; vif: number }[] => {
+  const complete = sampleEvenly(data.filter(row => columns.every(c => typeof row[c] === 'number')), MAX_VIF_ROWS);
+  if (columns.length < 2 || complete.length <= columns.length + 1) return [];
+
+  return columns.map(column => {
+    const others = columns.filter(c => c !== column);
+    const X = complete.map(row => [1, ...others.map(c => row[c] as number)]);
+    const y = complete.map(row => row[column] as number);
+    const mean = y.reduce((a, b) => a + b, 0) / y.length;
+    const total = y.reduce((acc, v) => acc + (v - mean) ** 2, 0);
+    if (total === 0) return { column, vif: 1 };
+    const { residualSumOfSquares } = leastSquaresQR(X, y);
+    const r2 = 1 - residualSumOfSquares / total;
+    return { column, vif: r2 >= 1 - 1e-12 ? Infinity : 1 / (1 - r2) };
+  });
+};
+
+export const runPreflightChecks = (data: DataRow[], stats: ColumnStat[], config: ModelConfig): PreflightWarning[] => {
+  const warnings: PreflightWarning[] = [];
+  const features = config.featureColumns
+    .map(name => stats.find(s => s.name === name))
+    .filter((s): s is ColumnStat => !!s);
+
+  features.forEach(stat => {
+    const observed = data.length - stat.missingCount;
+    const topShare = observed > 0 ? (stat.topValues?.[0]?.count ?? 0) / observed : 1;
+
+    if (stat.uniqueCount <= 1) {
+      warnings.push({
+        check: 'constant',
+        severity: 'critical',
+        column: stat.name,
+        message: `"${stat.name}" has ${stat.uniqueCount === 0 ? 'no values' : 'a single value'}, so it cannot help the model.`,
+        fixes: dropFeature(stat.name),
+      });
+      return;
+    }
+    if (topShare >= NEAR_CONSTANT_SHARE) {
+      warnings.push({
+        check: 'constant',
+        severity: 'warning',
+        column: stat.name,
+        message: `"${stat.name}" is "${stat.topValues![0].value}" in ${(topShare * 100).toFixed(1)}% of rows. Near-constant features add noise more often than signal.`,
+        fixes: dropFeature(stat.name),
+      });
+    }
+
+    if (stat.semanticType === 'id' || (stat.type === 'string' && observed > 0 && stat.uniqueCount / observed >= ID_LIKE_UNIQUE_SHARE)) {
+      warnings.push({
+        check: 'id_like',
+        severity: 'warning',
+        column: stat.name,
+        message: `"${stat.name}" looks like an identifier (${stat.uniqueCount} distinct values in ${observed} rows). The model would memorize rows instead of learning patterns.`,
+        fixes: dropFeature(stat.name),
+      });
+      return;
+    }
+
+    const leakage = leakageWarning(data, stat, config);
+    if (leakage) warnings.push(leakage);
+  });
+
+  const numericFeatures = features
+    .filter(s => s.type === 'number' && s.uniqueCount > 1 && !config.encodings[s.name])
+    .map(s => s.name)
+    .slice(0, MAX_VIF_FEATURES);
+  varianceInflation(data, numericFeatures)
+    .filter(({ vif }) => vif >= VIF_THRESHOLD)
+    .forEach(({ column, vif }) => {
+      warnings.push({
+        check: 'multicollinearity',
+        severity: 'warning',
+        column,
+        message: `"${column}" has a variance inflation factor of ${Number.isFinite(vif) ? vif.toFixed(1) : '∞'}: it is ${Number.isFinite(vif) ? 'almost' : 'exactly'} a linear combination of the other numeric features. Linear coefficients will be unstable.`,
+        fixes: dropFeature(column),
+      });
+    });
+
+  // Rows the model is fitted on, against columns after categorical encoding
+  if (features.length > 0) {
+    const encodedColumns = fitFeatureEncoders(data, config.featureColumns, config.encodings, data.map(() => 0)).names.length;
+    const trainingRows = Math.floor(config.validation.method === 'cross_validation'
+      ? (data.length * (config.validation.folds - 1)) / config.validation.folds
+      : data.length * config.splitRatio);
+    const perFeature = trainingRows / Math.max(1, encodedColumns);
+    if (perFeature < MIN_ROWS_PER_FEATURE) {
+      warnings.push({
+        check: 'rows_per_feature',
+        severity: trainingRows <= encodedColumns ? 'critical' : 'warning',
+        column: null,
+        message: `About ${trainingRows} training rows for ${encodedColumns} encoded feature columns (${perFeature.toFixed(1)} per column; at least ${MIN_ROWS_PER_FEATURE} is advisable). Drop features, use fewer one-hot categories, or keep more rows when cleaning.`,
+        fixes: [{ action: 'go_to_cleaning' }],
+      });
+    }
+  }
+
+  return warnings;
+};
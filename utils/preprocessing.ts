@@ -0,0 +1,147 @@
+import { FeatureScaling, FittedTargetTransform, PreprocessingConfig, ScalingStats, TargetTransform } from "../types";
+import { quantile } from "./statistics";
+
+// Scaling and target transforms are fitted on the training split only and stored as
+// plain data on the trained model, so predictions can be reproduced without refitting.
+
+export const SCALING_LABELS: Record<FeatureScaling, string> = {
+  standard: 'Standard (z-score)',
+  minmax: 'Min-max (0 to 1)',
+  robust: 'Robust (median / IQR)',
+  none: 'None',
+};
+
+export const TARGET_TRANSFORM_LABELS: Record<TargetTransform, string> = {
+  none: 'None',
+  log1p: 'log(1 + y)',
+  box_cox: 'Box-Cox',
+};
+
+export const defaultPreprocessing = (): PreprocessingConfig => ({ scaling: 'standard', targetTransform: 'none' });
+
+// Which transforms the target's range allows: log1p needs y > -1, Box-Cox needs y > 0
+export const targetTransformAllowed = (transform: TargetTransform, min: number): boolean =>
+  transform === 'log1p' ? min > -1 : transform === 'box_cox' ? min > 0 : true;
+
+// --- Feature scaling ---
+
+const fitColumnScaling = (values: number[], method: FeatureScaling): ScalingStats => {
+  const n = Math.max(1, values.length);
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const std = Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / n) || 1;
+  switch (method) {
+    case 'standard':
+      return { center: mean, scale: std, std };
+    case 'minmax': {
+      const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+      const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+      return values.length ? { center: min, scale: (max - min) || 1, std } : { center: 0, scale: 1, std };
+    }
+    case 'robust': {
+      if (values.length === 0) return { center: 0, scale: 1, std };
+      const sorted = [...values].sort((a, b) => a - b);
+      return { center: quantile(sorted, 0.5), scale: (quantile(sorted, 0.75) - quantile(sorted, 0.25)) || 1, std };
+    }
+    case 'none':
+    default:
+      return { center: 0, scale: 1, std };
+  }
+};
+
+// One entry per design-matrix column
+export const fitScaling = (matrix: number[][], columnCount: number, method: FeatureScaling): ScalingStats[] =>
+  Array.from({ length: columnCount }, (_, j) => fitColumnScaling(matrix.map(x => x[j]), method));
+
+export const scaleVector = (x: number[], scaling: ScalingStats[]): number[] =>
+  x.map((v, j) => (v - scaling[j].center) / scaling[j].scale);
+
+// The transformed target is always standardized so learning rates and penalties behave the same
+export const fitTargetScaling = (values: number[]): ScalingStats => fitColumnScaling(values, 'standard');
+
+// --- Target transforms ---
+
+const BOX_COX_RANGE: [number, number] = [-3, 3];
+const LAMBDA_TOLERANCE = 1e-6;
+
+const boxCox = (y: number, lambda: number) =>
+  Math.abs(lambda) < 1e-8 ? Math.log(y) : (y ** lambda - 1) / lambda;
+
+// Profile log-likelihood of lambda under a normal model for the transformed values
+const boxCoxLogLikelihood = (values: number[], logSum: number, lambda: number): number => {
+  const transformed = values.map(y => boxCox(y, lambda));
+  const mean = transformed.reduce((a, b) => a + b, 0) / transformed.length;
+  const variance = transformed.reduce((a, b) => a + (b - mean) ** 2, 0) / transformed.length;
+  return (lambda - 1) * logSum - (values.length / 2) * Math.log(variance);
+};
+
+// Maximum-likelihood lambda by golden-section search; values must be positive
+export const fitBoxCoxLambda = (values: number[]): number => {
+  const logSum = values.reduce((a, y) => a + Math.log(y), 0);
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let [lo, hi] = BOX_COX_RANGE;
+  let a = hi - ratio * (hi - lo);
+  let b = lo + ratio * (hi - lo);
+  let fa = boxCoxLogLikelihood(values, logSum, a);
+  let fb = boxCoxLogLikelihood(values, logSum, b);
+  while (hi - lo > LAMBDA_TOLERANCE) {
+    if (fa > fb) {
+      hi = b;
+      b = a;
+      fb = fa;
+      a = hi - ratio * (hi - lo);
+      fa = boxCoxLogLikelihood(values, logSum, a);
+    } else {
+      lo = a;
+      a = b;
+      fa = fb;
+      b = lo + ratio * (hi - lo);
+      fb = boxCoxLogLikelihood(values, logSum, b);
+    }
+  }
+  return (lo + hi) / 2;
+};
+
+export const fitTargetTransform = (values: number[], method: TargetTransform): FittedTargetTransform => {
+  const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+  if (!targetTransformAllowed(method, min)) {
+    throw new Error(method === 'log1p'
+      ? "The log(1 + y) target transform needs every target value to be above -1"
+      : "The Box-Cox target transform needs every target value to be positive");
+  }
+  switch (method) {
+    case 'log1p':
+      return { method: 'log1p' };
+    case 'box_cox':
+      return { method: 'box_cox', lambda: fitBoxCoxLambda(values) };
+    case 'none':
+    default:
+      return { method: 'none' };
+  }
+};
+
+export const transformTarget = (transform: FittedTargetTransform, y: number): number => {
+  switch (transform.method) {
+    case 'log1p':
+      return Math.log1p(y);
+    case 'box_cox':
+      return boxCox(y, transform.lambda);
+    case 'none':
+    default:
+      return y;
+  }
+};
+
+// Predictions past the transform's asymptote map to 0 (lambda > 0) or Infinity (lambda < 0)
+export const inverseTransformTarget = (transform: FittedTargetTransform, z: number): number => {
+  switch (transform.method) {
+    case 'log1p':
+      return Math.expm1(z);
+    case 'box_cox':
+      return Math.abs(transform.lambda) < 1e-8
+        ? Math.exp(z)
+        : Math.max(0, transform.lambda * z + 1) ** (1 / transform.lambda);
+    case 'none':
+    default:
+      return z;
+  }
+};
@@ -0,0 +1,154 @@
+import { DataRow, ColumnStat, CorrelationMatrix, NumericSummary, SemanticType } from "../types";
+import { averageRanks, histogram, pearsonCorrelation, quantile } from "./statistics";
+
+const HISTOGRAM_BINS = 30;
+const TOP_VALUES = 15;
+const MAX_CORRELATION_COLUMNS = 30;
+
+// Semantic type inference
+const MIN_ID_ROWS = 20; // fewer rows than this are never called ID-like
+const DATE_SHARE = 0.9;
+const MAX_CATEGORIES = 50;
+const BOOLEAN_TOKENS = new Set(['true', 'false', 'yes', 'no', 'y', 'n', 't', 'f', '0', '1']);
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})$/;
+const ID_NAME_PATTERN = /(^|[_\s-])(id|uuid|guid|key)$|^id([_\s-]|$)|[a-z]Id$/i;
+
+const isMissing = (value: string | number | null | undefined): boolean =>
+  value === null || value === undefined || value === '';
+
+const inferSemanticType = (name: string, type: ColumnStat['type'], values: (string | number)[], uniqueCount: number): SemanticType => {
+  const n = values.length;
+  if (n === 0) return 'categorical';
+  if (uniqueCount <= 2 && values.every(v => BOOLEAN_TOKENS.has(String(v).trim().toLowerCase()))) return 'boolean';
+
+  const mostlyUnique = n >= MIN_ID_ROWS && uniqueCount === n;
+  if (type === 'number') {
+    const numbers = values.filter((v): v is number => typeof v === 'number');
+    const integers = numbers.every(v => Number.isInteger(v));
+    if (integers && mostlyUnique) {
+      const span = numbers.reduce((a, b) => Math.max(a, b), -Infinity) - numbers.reduce((a, b) => Math.min(a, b), Infinity) + 1;
+      if (ID_NAME_PATTERN.test(name) || span === n) return 'id';
+    }
+    return integers ? 'integer' : 'float';
+  }
+
+  const strings = values.map(v => String(v).trim());
+  const dates = strings.filter(v => DATE_PATTERN.test(v) && !Number.isNaN(Date.parse(v))).length;
+  if (dates / n >= DATE_SHARE) return 'date';
+  if (mostlyUnique && (ID_NAME_PATTERN.test(name) || strings.every(v => !/\s/.test(v)))) return 'id';
+
+  const uniqueShare = uniqueCount / n;
+  const averageWords = strings.reduce((acc, v) => acc + v.split(/\s+/).length, 0) / n;
+  if (averageWords >= 3 && uniqueShare > 0.5) return 'text';
+  return uniqueCount <= MAX_CATEGORIES || uniqueShare <= 0.5 ? 'categorical' : 'text';
+};
+
+// Population moments for skewness and kurtosis, sample standard deviation for spread
+const summarizeNumeric = (values: number[]): NumericSummary => {
+  const n = values.length;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  values.forEach(v => {
+    const d = v - mean;
+    m2 += d * d;
+    m3 += d * d * d;
+    m4 += d * d * d * d;
+  });
+  m2 /= n;
+  m3 /= n;
+  m4 /= n;
+  return {
+    min: sorted[0],
+    max: sorted[n - 1],
+    mean,
+    std: n > 1 ? Math.sqrt((m2 * n) / (n - 1)) : 0,
+    skewness: m2 > 0 ? m3 / Math.pow(m2, 1.5) : NaN,
+    kurtosis: m2 > 0 ? m4 / (m2 * m2) - 3 : NaN,
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+  };
+};
+
+const topValues = (values: (string | number)[]): { value: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  values.forEach(v => {
+    const key = String(v);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, TOP_VALUES);
+};
+
+export const analyzeColumns = (data: DataRow[]): ColumnStat[] => {
+  if (data.length === 0) return [];
+  const keys = Object.keys(data[0]);
+
+  return keys.map(key => {
+    let missing = 0;
+    const values: (string | number)[] = [];
+    let numberCount = 0;
+
+    data.forEach(row => {
+      const val = row[key];
+      if (isMissing(val)) {
+        missing++;
+      } else {
+        values.push(val as string | number);
+        if (typeof val === 'number') numberCount++;
+      }
+    });
+
+    const uniqueCount = new Set(values).size;
+    // Storage type: if > 80% are numbers, treat as number column. What the numbers mean
+    // (IDs, flags, counts) is left to the semantic type.
+    const type = (numberCount / values.length > 0.8) ? 'number' : 'string';
+    const numbers = type === 'number' ? values.filter((v): v is number => typeof v === 'number') : [];
+
+    return {
+      name: key,
+      type,
+      semanticType: inferSemanticType(key, type, values, uniqueCount),
+      missingCount: missing,
+      uniqueCount,
+      sample: values.slice(0, 5),
+      numeric: numbers.length > 0 ? summarizeNumeric(numbers) : undefined,
+      histogram: numbers.length > 0 ? histogram(numbers, HISTOGRAM_BINS) : undefined,
+      topValues: topValues(values),
+    };
+  });
+};
+
+// --- Correlations ---
+
+// Numeric columns other than IDs; each pair uses the rows where both values are present
+export const correlationMatrix = (data: DataRow[], stats: ColumnStat[], method: CorrelationMatrix['method']): CorrelationMatrix => {
+  const columns = stats
+    .filter(s => s.type === 'number' && s.semanticType !== 'id')
+    .map(s => s.name)
+    .slice(0, MAX_CORRELATION_COLUMNS);
+
+  const values = columns.map(() => new Array<number>(columns.length).fill(1));
+  columns.forEach((a, i) => {
+    for (let j = i + 1; j < columns.length; j++) {
+      const b = columns[j];
+      const x: number[] = [];
+      const y: number[] = [];
+      data.forEach(row => {
+        if (typeof row[a] === 'number' && typeof row[b] === 'number') {
+          x.push(row[a] as number);
+          y.push(row[b] as number);
+        }
+      });
+      const r = method === 'spearman' ? pearsonCorrelation(averageRanks(x), averageRanks(y)) : pearsonCorrelation(x, y);
+      values[i][j] = r;
+      values[j][i] = r;
+    }
+  });
+
+  return { method, columns, values };
+};
@@ -0,0 +1,101 @@
+import { Rng } from "./random";
+
+// --- Train / test index splitting ---
+// Strata (one key per row) keep class or target-bin proportions equal across splits.
+
+export interface SplitOptions {
+  shuffle: boolean;
+  rng: Rng;
+  strata?: string[] | null;
+}
+
+export interface IndexSplit {
+  train: number[];
+  test: number[];
+}
+
+export const shuffleInPlace = <T>(items: T[], rng: Rng): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+const range = (n: number): number[] => Array.from({ length: n }, (_, i) => i);
+
+const groupByStratum = (n: number, options: SplitOptions): number[][] => {
+  if (!options.strata) {
+    const all = range(n);
+    return [options.shuffle ? shuffleInPlace(all, options.rng) : all];
+  }
+
+  const groups: Record<string, number[]> = {};
+  range(n).forEach(i => {
+    const key = options.strata![i];
+    (groups[key] = groups[key] || []).push(i);
+  });
+  return Object.keys(groups).sort().map(key =>
+    options.shuffle ? shuffleInPlace(groups[key], options.rng) : groups[key]
+  );
+};
+
+export const holdoutSplit = (n: number, trainRatio: number, options: SplitOptions): IndexSplit => {
+  const train: number[] = [];
+  const test: number[] = [];
+
+  groupByStratum(n, options).forEach(group => {
+    const cut = options.strata ? Math.round(group.length * trainRatio) : Math.floor(group.length * trainRatio);
+    train.push(...group.slice(0, cut));
+    test.push(...group.slice(cut));
+  });
+
+  // Stratified groups come out clustered by class, so mix them back together
+  if (options.shuffle && options.strata) {
+    shuffleInPlace(train, options.rng);
+    shuffleInPlace(test, options.rng);
+  } else if (options.strata) {
+    train.sort((a, b) => a - b);
+    test.sort((a, b) => a - b);
+  }
+  return { train, test };
+};
+
+export const kFoldSplits = (n: number, k: number, options: SplitOptions): IndexSplit[] => {
+  const folds: number[][] = Array.from({ length: k }, () => []);
+
+  if (options.strata) {
+    // Deal each stratum round-robin so every fold gets its share
+    let cursor = 0;
+    groupByStratum(n, options).forEach(group => {
+      group.forEach(i => {
+        folds[cursor % k].push(i);
+        cursor++;
+      });
+    });
+  } else {
+    const [order] = groupByStratum(n, options);
+    order.forEach((i, position) => {
+      folds[Math.min(k - 1, Math.floor((position * k) / n))].push(i);
+    });
+  }
+
+  return folds.map((test, f) => ({
+    train: folds.filter((_, other) => other !== f).flat(),
+    test,
+  }));
+};
+
+// Regression targets are stratified by quantile bins
+export const quantileBins = (values: number[], bins: number): string[] => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const edges = range(bins - 1).map(b => sorted[Math.floor(((b + 1) * sorted.length) / bins)]);
+  return values.map(v => String(edges.filter(edge => v >= edge).length));
+};
+
+// Evenly spaced, deterministic subsample, e.g. to bound the points a chart renders
+export const sampleEvenly = <T>(items: T[], max: number): T[] => {
+  if (items.length <= max) return items;
+  const step = items.length / max;
+  return Array.from({ length: max }, (_, i) => items[Math.floor(i * step)]);
+};
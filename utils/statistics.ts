@@ -0,0 +1,239 @@
+import { CoefficientRow, CoefficientTable, HistogramBin, LinearInference, ScalingStats } from "../types";
+
+// --- Distributions ---
+
+// Lanczos approximation (g = 7, n = 9)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+export const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return result;
+};
+
+// Regularized incomplete beta I_x(a, b)
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The continued fraction converges fastest on this side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+};
+
+// P(|T| >= |t|) for Student's t with df degrees of freedom
+export const studentTTwoSidedP = (t: number, df: number): number =>
+  incompleteBeta(df / (df + t * t), df / 2, 0.5);
+
+// Critical value t such that P(|T| >= t) = 1 - level
+export const studentTCritical = (level: number, df: number): number => {
+  const alpha = 1 - level;
+  let low = 0;
+  let high = 1;
+  while (studentTTwoSidedP(high, df) > alpha && high < 1e6) high *= 2;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (studentTTwoSidedP(mid, df) > alpha) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+// Inverse of the standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+export const normalQuantile = (p: number): number => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// --- Descriptive statistics ---
+
+// Linear interpolation between order statistics; values must be sorted ascending
+export const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Equal-width bins, about sqrt(n) of them up to maxBins
+export const histogram = (values: number[], maxBins: number): HistogramBin[] => {
+  if (values.length === 0) return [];
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(v => {
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  });
+  const bins = Math.max(1, Math.min(maxBins, Math.ceil(Math.sqrt(values.length))));
+  const width = (max - min) / bins || 1;
+  const result = Array.from({ length: bins }, (_, b) => ({ start: min + b * width, end: min + (b + 1) * width, count: 0 }));
+  values.forEach(v => { result[Math.min(bins - 1, Math.floor((v - min) / width))].count++; });
+  return result;
+};
+
+// Ranks starting at 1, ties share their average rank
+export const averageRanks = (values: number[]): number[] => {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks = new Array(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k].i] = rank;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+// NaN when either side is constant
+export const pearsonCorrelation = (x: number[], y: number[]): number => {
+  const n = x.length;
+  if (n < 2) return NaN;
+  const meanX = x.reduce((a, b) => a + b, 0) / n;
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - meanX) * (y[i] - meanY);
+    sxx += (x[i] - meanX) ** 2;
+    syy += (y[i] - meanY) ** 2;
+  }
+  return sxx === 0 || syy === 0 ? NaN : sxy / Math.sqrt(sxx * syy);
+};
+
+// --- Linear model inference ---
+
+export const INTERCEPT_TERM = '(Intercept)';
+
+// The model was fitted on scaled features and a standardized target, so coefficients and
+// their covariance are mapped back to original units here (transformed units when the
+// target was transformed). Inference assumes independent,
+// homoscedastic, normally distributed errors.
+export const buildCoefficientTable = (
+  intercept: number,
+  weights: number[],
+  inference: LinearInference,
+  featureNames: string[],
+  featureScaling: ScalingStats[],
+  targetScaling: ScalingStats,
+  confidenceLevel = 0.95
+): CoefficientTable => {
+  const df = inference.observations - inference.rank;
+  const sigma2 = df > 0 ? (inference.residualSumOfSquares / df) : null;
+  const critical = df > 0 ? studentTCritical(confidenceLevel, df) : null;
+  const cov = inference.unscaledCovariance;
+  const sy = targetScaling.scale;
+
+  // Original-scale coefficient k is a linear combination c^T b of the standardized ones
+  const originalScale = (
+    combination: number[],
+    value: number,
+    aliased: boolean,
+    standardized: number | null
+  ): Omit<CoefficientRow, 'term'> => {
+    if (aliased || sigma2 === null || critical === null) {
+      return {
+        coefficient: value, standardized, standardError: null, tStatistic: null,
+        pValue: null, ciLower: null, ciUpper: null, aliased,
+      };
+    }
+    let variance = 0;
+    combination.forEach((ci, i) => {
+      if (ci === 0) return;
+      combination.forEach((cj, j) => { variance += ci * cj * cov[i][j]; });
+    });
+    const standardError = Math.sqrt(Math.max(0, variance * sigma2));
+    const tStatistic = standardError > 0 ? value / standardError : null;
+    return {
+      coefficient: value,
+      standardized,
+      standardError,
+      tStatistic,
+      pValue: tStatistic === null ? null : studentTTwoSidedP(tStatistic, df),
+      ciLower: value - critical * standardError,
+      ciUpper: value + critical * standardError,
+      aliased,
+    };
+  };
+
+  const p = weights.length;
+  const featureRows: CoefficientRow[] = weights.map((w, j) => {
+    const scale = sy / featureScaling[j].scale;
+    const combination = new Array(p + 1).fill(0);
+    combination[j + 1] = scale;
+    const standardized = inference.aliased[j] ? null : w * featureScaling[j].std / featureScaling[j].scale;
+    return { term: featureNames[j], ...originalScale(combination, w * scale, inference.aliased[j], standardized) };
+  });
+
+  // y = center_y + sy * (b0 + sum_j b_j (x_j - center_j) / scale_j)
+  const interceptCombination = [sy, ...weights.map((_, j) => -sy * featureScaling[j].center / featureScaling[j].scale)];
+  const interceptValue = targetScaling.center + interceptCombination.reduce(
+    (acc, c, i) => acc + c * (i === 0 ? intercept : weights[i - 1]), 0
+  );
+  const interceptRow: CoefficientRow = {
+    term: INTERCEPT_TERM,
+    ...originalScale(interceptCombination, interceptValue, false, null),
+  };
+
+  return {
+    rows: [interceptRow, ...featureRows],
+    confidenceLevel,
+    degreesOfFreedom: Math.max(0, df),
+    residualStandardError: sigma2 === null ? null : Math.sqrt(sigma2) * sy,
+  };
+};
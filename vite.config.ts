@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The advisor proxy (npm run proxy) holds the Gemini key; the key itself is never bundled
+        proxy: {
+          '/advisor': env.ADVISOR_PROXY_TARGET || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ADVISOR_PROXY_URL': JSON.stringify(env.ADVISOR_PROXY_URL || '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,45 @@
+import { LossPoint, TrainingJob, TrainingProgress, TrainingWorkerMessage } from '../types';
+import { trainModel } from '../utils/dataUtils';
+import { runAutoML } from '../utils/automl';
+
+// Runs training off the main thread. Cancellation is done by the caller terminating the worker.
+
+const PROGRESS_INTERVAL_MS = 50;
+
+const ctx = self as unknown as Worker;
+const post = (message: TrainingWorkerMessage) => ctx.postMessage(message);
+
+// Loss points are batched so fast models don't flood the main thread with messages
+const createProgressReporter = () => {
+  let pending: LossPoint[] = [];
+  let lastSent = 0;
+  let lastStage = '';
+
+  return (progress: TrainingProgress) => {
+    if (progress.loss !== undefined && progress.epoch !== undefined) {
+      pending.push({ stage: progress.stage, epoch: progress.epoch, loss: progress.loss });
+    }
+    const now = Date.now();
+    if (now - lastSent >= PROGRESS_INTERVAL_MS || progress.stage !== lastStage || progress.fraction >= 1) {
+      post({ type: 'progress', progress, lossPoints: pending });
+      pending = [];
+      lastSent = now;
+      lastStage = progress.stage;
+    }
+  };
+};
+
+ctx.onmessage = (event: MessageEvent<TrainingJob>) => {
+  const job = event.data;
+  const onProgress = createProgressReporter();
+
+  try {
+    if (job.type === 'automl') {
+      post({ type: 'leaderboard', entries: runAutoML(job.data, job.config, job.options, onProgress) });
+    } else {
+      post({ type: 'result', metrics: trainModel(job.data, job.config, onProgress) });
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};